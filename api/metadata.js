@@ -12,6 +12,14 @@ const sendJson = (res, status, payload) => {
   res.send(JSON.stringify(payload));
 };
 
+const sendText = (res, status, text) => {
+  res.status(status).setHeader('Content-Type', 'text/plain; charset=utf-8');
+  Object.entries(corsHeaders).forEach(([key, value]) => {
+    res.setHeader(key, value);
+  });
+  res.send(text);
+};
+
 export default async function handler(req, res) {
   if (req.method === 'OPTIONS') {
     Object.entries(corsHeaders).forEach(([key, value]) => {
@@ -62,7 +70,8 @@ export default async function handler(req, res) {
     try {
       payload = JSON.parse(text);
     } catch {
-      sendJson(res, 502, { error: 'Upstream did not return JSON' });
+      // Shoutcast v1 `7.html` and XML stats are not JSON; the app reads them as text.
+      sendText(res, 200, text);
       return;
     }
 
@@ -13,6 +13,15 @@ const jsonResponse = (statusCode, payload) => ({
   body: JSON.stringify(payload)
 });
 
+const textResponse = (statusCode, text) => ({
+  statusCode,
+  headers: {
+    ...corsHeaders,
+    'Content-Type': 'text/plain; charset=utf-8'
+  },
+  body: text
+});
+
 export const handler = async (event) => {
   if (event.httpMethod === 'OPTIONS') {
     return {
@@ -58,7 +67,8 @@ export const handler = async (event) => {
     try {
       payload = JSON.parse(text);
     } catch {
-      return jsonResponse(502, { error: 'Upstream did not return JSON' });
+      // Shoutcast v1 `7.html` and XML stats are not JSON; the app reads them as text.
+      return textResponse(200, text);
     }
 
     return jsonResponse(200, payload);
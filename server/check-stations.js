@@ -0,0 +1,112 @@
+/**
+ * Validates stations.json against the catalog schema, then probes every
+ * stream URL and exits non-zero on schema errors or when a station has no
+ * working URL left. Dead mirrors of a station that still plays are reported
+ * but do not fail the run.
+ *
+ *   npm run check:stations -- [path/to/stations.json] [--json] [--timeout=ms] [--schema-only]
+ */
+
+import { readFile } from 'node:fs/promises';
+import { formatCatalogIssue, validateCatalog } from '../shared/catalog.js';
+import { probeStream } from '../shared/probe.js';
+
+const concurrency = 4;
+
+const args = process.argv.slice(2);
+const file = args.find((arg) => !arg.startsWith('--')) ?? 'src/stations.json';
+const asJson = args.includes('--json');
+const schemaOnly = args.includes('--schema-only');
+const timeoutArg = args.find((arg) => arg.startsWith('--timeout='));
+const timeoutMs = timeoutArg ? Number(timeoutArg.slice('--timeout='.length)) : undefined;
+
+const streamUrls = (station) =>
+  Array.from(new Set([station.url, ...(station.urls ?? [])].filter(Boolean)));
+
+/** Runs `task` over `items` with at most `limit` in flight, keeping order. */
+const mapLimited = async (items, limit, task) => {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const describe = (probe) => {
+  const details = Array.from(
+    new Set([
+      probe.httpStatus ? `HTTP ${probe.httpStatus}` : null,
+      probe.codec,
+      probe.bitrate ? `${probe.bitrate} kbps` : null,
+      probe.latencyMs !== null ? `${probe.latencyMs} ms` : null,
+      ...probe.issues
+    ])
+  ).filter(Boolean);
+  return `${probe.status.padEnd(8)} ${probe.url}${details.length ? `  (${details.join(', ')})` : ''}`;
+};
+
+const main = async () => {
+  const catalog = JSON.parse(await readFile(file, 'utf8'));
+  const { stations, issues } = validateCatalog(catalog);
+  const schemaErrors = issues.filter((issue) => issue.level === 'error');
+  if (!asJson) {
+    issues.forEach((issue) => console.log(formatCatalogIssue(issue)));
+    if (issues.length > 0) {
+      console.log('');
+    }
+  }
+  if (schemaOnly) {
+    if (asJson) {
+      console.log(JSON.stringify({ issues }, null, 2));
+    } else {
+      console.log(`${stations.length} valid stations, ${schemaErrors.length} schema errors`);
+    }
+    process.exitCode = schemaErrors.length > 0 ? 1 : 0;
+    return;
+  }
+
+  const jobs = stations.flatMap((station) =>
+    streamUrls(station).map((url) => ({ id: station.id ?? station.name, url }))
+  );
+  const probes = await mapLimited(jobs, concurrency, (job) => probeStream(job.url, { timeoutMs }));
+
+  const report = stations.map((station) => {
+    const id = station.id ?? station.name;
+    const results = probes.filter((_, index) => jobs[index].id === id);
+    return {
+      id,
+      name: station.name,
+      dead: results.length === 0 || results.every((probe) => probe.status === 'dead'),
+      probes: results
+    };
+  });
+  const dead = report.filter((entry) => entry.dead);
+
+  if (asJson) {
+    console.log(JSON.stringify({ issues, stations: report }, null, 2));
+  } else {
+    report.forEach((entry) => {
+      console.log(`${entry.dead ? '✗' : '✓'} ${entry.name} [${entry.id}]`);
+      if (entry.probes.length === 0) {
+        console.log('    no stream URL');
+      }
+      entry.probes.forEach((probe) => console.log(`    ${describe(probe)}`));
+    });
+    console.log(
+      `\n${stations.length - dead.length}/${stations.length} stations reachable` +
+        (dead.length ? `; dead: ${dead.map((entry) => entry.id).join(', ')}` : '')
+    );
+  }
+  process.exitCode = dead.length > 0 || schemaErrors.length > 0 ? 1 : 0;
+};
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 2;
+});
@@ -1,5 +1,8 @@
 import http from 'node:http';
 import { URL } from 'node:url';
+import { readIcyMetadata, watchIcyMetadata } from '../shared/icy.js';
+import { resolvePlaylist } from '../shared/playlist.js';
+import { probeStream } from '../shared/probe.js';
 
 const port = Number(process.env.METADATA_PROXY_PORT ?? 4173);
 
@@ -17,24 +20,18 @@ const sendJson = (res, status, payload) => {
   res.end(JSON.stringify(payload));
 };
 
-const server = http.createServer(async (req, res) => {
-  const requestUrl = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
-
-  if (req.method === 'OPTIONS') {
-    res.writeHead(204, corsHeaders);
-    res.end();
-    return;
-  }
-
-  if (req.method !== 'GET' || requestUrl.pathname !== '/api/metadata') {
-    sendJson(res, 404, { error: 'Not found' });
-    return;
-  }
+const sendText = (res, status, text) => {
+  res.writeHead(status, {
+    ...corsHeaders,
+    'Content-Type': 'text/plain; charset=utf-8'
+  });
+  res.end(text);
+};
 
-  const target = requestUrl.searchParams.get('url');
+const parseTargetUrl = (res, target) => {
   if (!target) {
     sendJson(res, 400, { error: 'Missing url parameter' });
-    return;
+    return null;
   }
 
   let targetUrl;
@@ -42,14 +39,17 @@ const server = http.createServer(async (req, res) => {
     targetUrl = new URL(target);
   } catch {
     sendJson(res, 400, { error: 'Invalid url parameter' });
-    return;
+    return null;
   }
 
   if (!['http:', 'https:'].includes(targetUrl.protocol)) {
     sendJson(res, 400, { error: 'Only http/https URLs are supported' });
-    return;
+    return null;
   }
+  return targetUrl;
+};
 
+const handleMetadata = async (res, targetUrl) => {
   try {
     const upstream = await fetch(targetUrl.toString(), {
       headers: {
@@ -67,7 +67,8 @@ const server = http.createServer(async (req, res) => {
     try {
       payload = JSON.parse(text);
     } catch {
-      sendJson(res, 502, { error: 'Upstream did not return JSON' });
+      // Shoutcast v1 `7.html` and XML stats are not JSON; the app reads them as text.
+      sendText(res, 200, text);
       return;
     }
 
@@ -75,6 +76,112 @@ const server = http.createServer(async (req, res) => {
   } catch {
     sendJson(res, 502, { error: 'Failed to fetch metadata' });
   }
+};
+
+const resolveTimeoutMs = 10000;
+
+const handleResolve = async (res, targetUrl) => {
+  try {
+    const { format, streams } = await resolvePlaylist(targetUrl.toString(), {
+      signal: AbortSignal.timeout(resolveTimeoutMs)
+    });
+    if (streams.length === 0) {
+      sendJson(res, 422, { error: 'Playlist did not contain any stream URLs' });
+      return;
+    }
+    sendJson(res, 200, { url: targetUrl.toString(), format, streams });
+  } catch {
+    sendJson(res, 502, { error: 'Failed to resolve playlist' });
+  }
+};
+
+const sseKeepAliveMs = 15000;
+
+const wantsEventStream = (req, requestUrl) =>
+  requestUrl.searchParams.get('stream') === '1' ||
+  (req.headers.accept ?? '').includes('text/event-stream');
+
+const streamIcy = (req, res, targetUrl) => {
+  const controller = new AbortController();
+  res.writeHead(200, {
+    ...corsHeaders,
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  const send = (event, payload) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+  };
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), sseKeepAliveMs);
+  const close = () => {
+    clearInterval(keepAlive);
+    controller.abort();
+    res.end();
+  };
+  req.on('close', close);
+
+  watchIcyMetadata(targetUrl.toString(), {
+    signal: controller.signal,
+    onChange: (metadata) => send('metadata', { url: targetUrl.toString(), ...metadata })
+  })
+    .then(() => send('end', {}))
+    .catch((err) => {
+      if (!controller.signal.aborted) {
+        send('error', { error: err instanceof Error ? err.message : 'Failed to read ICY metadata' });
+      }
+    })
+    .finally(close);
+};
+
+const handleIcy = async (res, targetUrl, req, requestUrl) => {
+  if (wantsEventStream(req, requestUrl)) {
+    streamIcy(req, res, targetUrl);
+    return;
+  }
+  try {
+    const metadata = await readIcyMetadata(targetUrl.toString());
+    sendJson(res, 200, { url: targetUrl.toString(), ...metadata });
+  } catch {
+    sendJson(res, 502, { error: 'Failed to read ICY metadata' });
+  }
+};
+
+const handleProbe = async (res, targetUrl) => {
+  try {
+    sendJson(res, 200, await probeStream(targetUrl.toString()));
+  } catch {
+    sendJson(res, 502, { error: 'Failed to probe stream' });
+  }
+};
+
+const routes = {
+  '/api/metadata': handleMetadata,
+  '/api/resolve': handleResolve,
+  '/api/icy': handleIcy,
+  '/api/probe': handleProbe
+};
+
+const server = http.createServer(async (req, res) => {
+  const requestUrl = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  const route = routes[requestUrl.pathname];
+  if (req.method !== 'GET' || !route) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  const targetUrl = parseTargetUrl(res, requestUrl.searchParams.get('url'));
+  if (!targetUrl) {
+    return;
+  }
+
+  await route(res, targetUrl, req, requestUrl);
 });
 
 server.listen(port, '127.0.0.1', () => {
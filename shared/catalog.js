@@ -0,0 +1,245 @@
+/**
+ * Runtime schema check for the station catalog (stations.json and the custom
+ * stations added in the app), shared by the frontend and the
+ * `check:stations` CLI. Plain ESM so Node can load it without a build step.
+ */
+
+/**
+ * @typedef {object} CatalogStation
+ * @property {string} id
+ * @property {string} name
+ * @property {string} country
+ * @property {string[]} tags
+ * @property {string} url
+ * @property {string[]} [urls]
+ * @property {string} codec
+ * @property {string} [metadataUrl]
+ * @property {string} [metadataFormat]
+ * @property {string} [logo]
+ */
+
+/**
+ * @typedef {object} CatalogIssue
+ * @property {'error' | 'warning'} level
+ * @property {string} path Where the problem is, e.g. `stations[3].url`.
+ * @property {string | null} id The entry's `id` when it had a string one.
+ * @property {string} message
+ */
+
+/** @typedef {Omit<CatalogIssue, 'level' | 'id'>} StationIssue */
+
+const idPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Keys in the order stations.json lists them. */
+export const stationKeys = [
+  'id',
+  'name',
+  'country',
+  'tags',
+  'url',
+  'urls',
+  'codec',
+  'metadataUrl',
+  'metadataFormat',
+  'logo'
+];
+
+/** @param {string} value */
+const isHttpUrl = (value) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** @param {unknown} value */
+const describeValue = (value) => {
+  if (value === undefined) {
+    return 'missing';
+  }
+  if (typeof value === 'string' && !value.trim()) {
+    return 'got an empty string';
+  }
+  return `got ${Array.isArray(value) ? 'an array' : typeof value}`;
+};
+
+/**
+ * Checks one catalog entry. `station` is the trimmed entry when there are no
+ * errors, otherwise null; warnings (unknown keys and the like) do not reject it.
+ * @param {unknown} item
+ * @param {{ path?: string; metadataFormats?: readonly string[] }} [options]
+ * @returns {{ station: CatalogStation | null; errors: StationIssue[]; warnings: StationIssue[] }}
+ */
+export const validateStation = (item, { path = 'station', metadataFormats } = {}) => {
+  /** @type {StationIssue[]} */
+  const errors = [];
+  /** @type {StationIssue[]} */
+  const warnings = [];
+  /**
+   * @param {StationIssue[]} list
+   * @param {string | null} key
+   * @param {string} message
+   */
+  const issue = (list, key, message) => list.push({ path: key ? `${path}.${key}` : path, message });
+
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    issue(errors, null, `must be an object, ${describeValue(item)}`);
+    return { station: null, errors, warnings };
+  }
+  const entry = /** @type {Record<string, unknown>} */ (item);
+
+  /**
+   * @param {string} key
+   * @param {{ required?: boolean }} [options]
+   */
+  const text = (key, { required = true } = {}) => {
+    const value = entry[key];
+    if (value === undefined && !required) {
+      return undefined;
+    }
+    if (typeof value !== 'string' || !value.trim()) {
+      issue(errors, key, `must be a non-empty string, ${describeValue(value)}`);
+      return undefined;
+    }
+    return value.trim();
+  };
+  /**
+   * @param {string} key
+   * @param {string | undefined} value
+   */
+  const url = (key, value) => {
+    if (value !== undefined && !isHttpUrl(value)) {
+      issue(errors, key, `must be an http(s) URL, got "${value}"`);
+    }
+    return value;
+  };
+
+  /** @type {Partial<CatalogStation> & { tags: string[] }} */
+  const station = {
+    id: text('id'),
+    name: text('name'),
+    country: text('country'),
+    tags: [],
+    url: url('url', text('url')),
+    codec: text('codec')
+  };
+  if (station.id && !idPattern.test(station.id)) {
+    issue(errors, 'id', `must be lowercase letters, digits and dashes, got "${station.id}"`);
+  }
+
+  const { tags, urls } = entry;
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string')) {
+    issue(errors, 'tags', `must be an array of strings, ${describeValue(tags)}`);
+  } else {
+    station.tags = Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean)));
+  }
+
+  if (urls !== undefined) {
+    if (!Array.isArray(urls)) {
+      issue(errors, 'urls', `must be an array of URLs, ${describeValue(urls)}`);
+    } else {
+      urls.forEach((mirror, index) => {
+        if (typeof mirror !== 'string' || !isHttpUrl(mirror)) {
+          issue(errors, `urls[${index}]`, `must be an http(s) URL, got "${mirror}"`);
+        }
+      });
+      const mirrors = urls.filter((mirror) => mirror !== station.url);
+      if (mirrors.length !== urls.length) {
+        issue(warnings, 'urls', 'repeats the main url');
+      }
+      if (mirrors.length > 0) {
+        station.urls = mirrors;
+      }
+    }
+  }
+
+  const metadataUrl = url('metadataUrl', text('metadataUrl', { required: false }));
+  if (metadataUrl) {
+    station.metadataUrl = metadataUrl;
+  }
+  const metadataFormat = text('metadataFormat', { required: false });
+  if (metadataFormat) {
+    if (metadataFormats && !metadataFormats.includes(metadataFormat)) {
+      issue(
+        errors,
+        'metadataFormat',
+        `must be one of ${metadataFormats.join(', ')}, got "${metadataFormat}"`
+      );
+    }
+    if (!metadataUrl) {
+      issue(warnings, 'metadataFormat', 'is ignored without a metadataUrl');
+    }
+    station.metadataFormat = metadataFormat;
+  }
+  const logo = url('logo', text('logo', { required: false }));
+  if (logo) {
+    station.logo = logo;
+  }
+
+  Object.keys(entry)
+    .filter((key) => !stationKeys.includes(key))
+    .forEach((key) => issue(warnings, key, 'is not a known station field and is ignored'));
+
+  // Every required field was present, or `text` would have reported it.
+  const valid = /** @type {CatalogStation} */ (station);
+  return { station: errors.length > 0 ? null : valid, errors, warnings };
+};
+
+/**
+ * Checks a whole catalog. Entries with errors (including a repeated `id`) are
+ * left out of `stations`, so one typo costs one station instead of the app.
+ * `reservedIds` are ids already taken by another catalog, e.g. the bundled
+ * one when checking custom stations.
+ * @param {unknown} data
+ * @param {{ name?: string; metadataFormats?: readonly string[]; reservedIds?: string[] }} [options]
+ * @returns {{ stations: CatalogStation[]; issues: CatalogIssue[] }}
+ */
+export const validateCatalog = (
+  data,
+  { name = 'stations', metadataFormats, reservedIds = [] } = {}
+) => {
+  if (!Array.isArray(data)) {
+    return {
+      stations: [],
+      issues: [{ level: 'error', id: null, path: name, message: 'must be an array of stations' }]
+    };
+  }
+  /** @type {CatalogStation[]} */
+  const stations = [];
+  /** @type {CatalogIssue[]} */
+  const issues = [];
+  /** @type {Map<string, string | null>} */
+  const seen = new Map(reservedIds.map((id) => [id, null]));
+  data.forEach((item, index) => {
+    const path = `${name}[${index}]`;
+    const { station, errors, warnings } = validateStation(item, { path, metadataFormats });
+    const label = { id: typeof item?.id === 'string' ? item.id : null };
+    warnings.forEach((warning) => issues.push({ level: 'warning', ...label, ...warning }));
+    errors.forEach((error) => issues.push({ level: 'error', ...label, ...error }));
+    if (!station) {
+      return;
+    }
+    if (seen.has(station.id)) {
+      const first = seen.get(station.id);
+      issues.push({
+        level: 'error',
+        ...label,
+        path: `${path}.id`,
+        message: first
+          ? `duplicates "${station.id}" (first used by ${first})`
+          : `"${station.id}" is already taken`
+      });
+      return;
+    }
+    seen.set(station.id, path);
+    stations.push(station);
+  });
+  return { stations, issues };
+};
+
+/**
+ * One line per issue, e.g. `error stations[3].url: must be an http(s) URL, got "x"`.
+ * @param {CatalogIssue} issue
+ */
+export const formatCatalogIssue = (issue) => `${issue.level} ${issue.path}: ${issue.message}`;
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { formatCatalogIssue, validateCatalog, validateStation } from './catalog.js';
+
+const jazz = {
+  id: 'jazz-fm',
+  name: 'Jazz FM',
+  country: 'UK',
+  tags: ['jazz'],
+  url: 'https://jazz.example.com/live.mp3',
+  codec: 'MP3'
+};
+
+describe('validateStation', () => {
+  it('trims a valid entry and drops repeated tags and mirrors', () => {
+    const { station, errors, warnings } = validateStation({
+      ...jazz,
+      name: ' Jazz FM ',
+      tags: ['jazz', ' jazz', ''],
+      urls: ['https://jazz.example.com/live.mp3', 'https://mirror.example.com/live.mp3']
+    });
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([{ path: 'station.urls', message: 'repeats the main url' }]);
+    expect(station).toEqual({
+      ...jazz,
+      urls: ['https://mirror.example.com/live.mp3']
+    });
+  });
+
+  it('rejects a missing or non-http URL', () => {
+    expect(validateStation({ ...jazz, url: undefined }).errors).toEqual([
+      { path: 'station.url', message: 'must be a non-empty string, missing' }
+    ]);
+    const { station, errors } = validateStation(
+      { ...jazz, url: 'ftp://jazz.example.com/live.mp3', urls: ['not a url', 7] },
+      { path: 'stations[2]' }
+    );
+    expect(station).toBeNull();
+    expect(errors).toEqual([
+      {
+        path: 'stations[2].url',
+        message: 'must be an http(s) URL, got "ftp://jazz.example.com/live.mp3"'
+      },
+      { path: 'stations[2].urls[0]', message: 'must be an http(s) URL, got "not a url"' },
+      { path: 'stations[2].urls[1]', message: 'must be an http(s) URL, got "7"' }
+    ]);
+  });
+
+  it('describes what it got instead of the expected type', () => {
+    expect(validateStation([]).errors).toEqual([
+      { path: 'station', message: 'must be an object, got an array' }
+    ]);
+    const { errors } = validateStation({ ...jazz, id: 'Jazz FM', name: ' ', tags: 'jazz' });
+    expect(errors.map((error) => `${error.path}: ${error.message}`)).toEqual([
+      'station.name: must be a non-empty string, got an empty string',
+      'station.id: must be lowercase letters, digits and dashes, got "Jazz FM"',
+      'station.tags: must be an array of strings, got string'
+    ]);
+  });
+
+  it('checks the metadata format against the known ones', () => {
+    const { errors, warnings } = validateStation(
+      { ...jazz, metadataFormat: 'xml', extra: true },
+      { metadataFormats: ['icecast', 'shoutcast'] }
+    );
+    expect(errors).toEqual([
+      {
+        path: 'station.metadataFormat',
+        message: 'must be one of icecast, shoutcast, got "xml"'
+      }
+    ]);
+    expect(warnings).toEqual([
+      { path: 'station.metadataFormat', message: 'is ignored without a metadataUrl' },
+      { path: 'station.extra', message: 'is not a known station field and is ignored' }
+    ]);
+  });
+});
+
+describe('validateCatalog', () => {
+  it('keeps the first of two entries with the same id', () => {
+    const { stations, issues } = validateCatalog([jazz, { ...jazz, name: 'Jazz FM 2' }]);
+    expect(stations).toEqual([jazz]);
+    expect(issues).toEqual([
+      {
+        level: 'error',
+        id: 'jazz-fm',
+        path: 'stations[1].id',
+        message: 'duplicates "jazz-fm" (first used by stations[0])'
+      }
+    ]);
+  });
+
+  it('rejects ids another catalog already uses', () => {
+    const { stations, issues } = validateCatalog([jazz], {
+      name: 'custom',
+      reservedIds: ['jazz-fm']
+    });
+    expect(stations).toEqual([]);
+    expect(issues.map(formatCatalogIssue)).toEqual([
+      'error custom[0].id: "jazz-fm" is already taken'
+    ]);
+  });
+
+  it('skips only the broken entries', () => {
+    const { stations, issues } = validateCatalog([{ ...jazz, id: 'broken', url: '' }, jazz]);
+    expect(stations).toEqual([jazz]);
+    expect(issues.map(formatCatalogIssue)).toEqual([
+      'error stations[0].url: must be a non-empty string, got an empty string'
+    ]);
+  });
+
+  it('rejects anything but an array', () => {
+    expect(validateCatalog({ stations: [] })).toEqual({
+      stations: [],
+      issues: [
+        { level: 'error', id: null, path: 'stations', message: 'must be an array of stations' }
+      ]
+    });
+  });
+});
+
+describe('formatCatalogIssue', () => {
+  it('puts the level and path in front of the message', () => {
+    expect(
+      formatCatalogIssue({
+        level: 'warning',
+        id: 'jazz-fm',
+        path: 'stations[3].logo',
+        message: 'is not a known station field and is ignored'
+      })
+    ).toBe('warning stations[3].logo: is not a known station field and is ignored');
+  });
+});
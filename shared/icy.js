@@ -0,0 +1,196 @@
+/**
+ * ICY (Icecast/Shoutcast in-stream) metadata reader shared by the metadata
+ * proxy and its Vercel/Netlify twins. Opens the stream with `Icy-MetaData: 1`
+ * and decodes the metadata blocks interleaved every `icy-metaint` bytes.
+ */
+
+/**
+ * @typedef {object} IcyMetadata
+ * @property {string} streamTitle
+ * @property {string | null} artist
+ * @property {string | null} title
+ */
+
+const defaultTimeoutMs = 10000;
+// Stop after this many blocks so a station that never sends a title does not
+// keep the connection open.
+const maxEmptyBlocks = 4;
+
+/** @param {Uint8Array} bytes */
+const decodeBlock = (bytes) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('latin1').decode(bytes);
+  }
+};
+
+/**
+ * Parses `StreamTitle='Artist - Title';StreamUrl='...';` into its parts.
+ * @param {string} block
+ * @returns {IcyMetadata | null}
+ */
+export const parseIcyMetadata = (block) => {
+  const text = block.replace(/\0+$/, '');
+  const match = text.match(/StreamTitle='([\s\S]*?)';(?=\s*\w+=|\s*$)/);
+  const streamTitle = (match ? match[1] : '').trim();
+  if (!streamTitle) {
+    return null;
+  }
+  const separator = streamTitle.indexOf(' - ');
+  if (separator === -1) {
+    return { streamTitle, artist: null, title: streamTitle };
+  }
+  return {
+    streamTitle,
+    artist: streamTitle.slice(0, separator).trim() || null,
+    title: streamTitle.slice(separator + 3).trim() || null
+  };
+};
+
+/**
+ * Yields the decoded text of every metadata block in a stream body. Audio
+ * bytes are skipped without being buffered.
+ * @param {ReadableStreamDefaultReader<Uint8Array>} reader
+ * @param {number} metaint
+ * @returns {AsyncGenerator<string>}
+ */
+async function* readMetadataBlocks(reader, metaint) {
+  let audioRemaining = metaint;
+  let lengthPending = true;
+  let block = new Uint8Array(0);
+  let blockOffset = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    let offset = 0;
+    while (offset < value.byteLength) {
+      if (audioRemaining > 0) {
+        const skip = Math.min(audioRemaining, value.byteLength - offset);
+        audioRemaining -= skip;
+        offset += skip;
+        continue;
+      }
+      if (lengthPending) {
+        const length = value[offset] * 16;
+        offset += 1;
+        if (length === 0) {
+          audioRemaining = metaint;
+          yield '';
+          continue;
+        }
+        lengthPending = false;
+        block = new Uint8Array(length);
+        blockOffset = 0;
+        continue;
+      }
+      const take = Math.min(block.byteLength - blockOffset, value.byteLength - offset);
+      block.set(value.subarray(offset, offset + take), blockOffset);
+      blockOffset += take;
+      offset += take;
+      if (blockOffset === block.byteLength) {
+        const text = decodeBlock(block);
+        lengthPending = true;
+        audioRemaining = metaint;
+        yield text;
+      }
+    }
+  }
+}
+
+/**
+ * @param {string} url
+ * @param {typeof fetch} fetchImpl
+ * @param {AbortSignal | undefined} signal
+ */
+const openIcyStream = async (url, fetchImpl, signal) => {
+  const response = await fetchImpl(url, {
+    headers: {
+      'Icy-MetaData': '1',
+      Accept: 'audio/*, */*'
+    },
+    signal
+  });
+  if (!response.ok) {
+    throw new Error(`Upstream error: ${response.status}`);
+  }
+  const metaint = Number(response.headers.get('icy-metaint'));
+  if (!Number.isFinite(metaint) || metaint <= 0 || !response.body) {
+    response.body?.cancel?.().catch(() => undefined);
+    return { response, reader: null, metaint: 0 };
+  }
+  return { response, reader: response.body.getReader(), metaint };
+};
+
+/** @param {Response} response */
+const stationInfo = (response) => ({
+  name: response.headers.get('icy-name') || null,
+  genre: response.headers.get('icy-genre') || null
+});
+
+/**
+ * Reads the first metadata block that carries a title. Resolves with
+ * `{ streamTitle, artist, title, name, genre }`, where the track fields are
+ * null when the stream does not expose ICY metadata.
+ * @param {string} url
+ * @param {{ fetchImpl?: typeof fetch; timeoutMs?: number }} [options]
+ */
+export const readIcyMetadata = async (
+  url,
+  { fetchImpl = fetch, timeoutMs = defaultTimeoutMs } = {}
+) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const { response, reader, metaint } = await openIcyStream(url, fetchImpl, controller.signal);
+    const empty = { streamTitle: null, artist: null, title: null, ...stationInfo(response) };
+    if (!reader) {
+      return empty;
+    }
+    let blocks = 0;
+    for await (const block of readMetadataBlocks(reader, metaint)) {
+      const parsed = parseIcyMetadata(block);
+      if (parsed) {
+        return { ...parsed, ...stationInfo(response) };
+      }
+      blocks += 1;
+      if (blocks >= maxEmptyBlocks) {
+        break;
+      }
+    }
+    return empty;
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+  }
+};
+
+/**
+ * Keeps the stream open and calls `onChange` whenever the title changes,
+ * until `signal` aborts or the upstream ends. Meant for long-lived SSE
+ * responses; serverless functions should use `readIcyMetadata` instead.
+ * @param {string} url
+ * @param {{
+ *   onChange: (metadata: IcyMetadata & { name: string | null; genre: string | null }) => void;
+ *   signal?: AbortSignal;
+ *   fetchImpl?: typeof fetch;
+ * }} options
+ */
+export const watchIcyMetadata = async (url, { onChange, signal, fetchImpl = fetch }) => {
+  const { response, reader, metaint } = await openIcyStream(url, fetchImpl, signal);
+  if (!reader) {
+    throw new Error('Stream does not provide ICY metadata');
+  }
+  const info = stationInfo(response);
+  let previous = null;
+  for await (const block of readMetadataBlocks(reader, metaint)) {
+    const parsed = parseIcyMetadata(block);
+    if (parsed && parsed.streamTitle !== previous) {
+      previous = parsed.streamTitle;
+      onChange({ ...parsed, ...info });
+    }
+  }
+};
@@ -0,0 +1,260 @@
+/**
+ * Playlist (PLS, M3U, ASX, XSPF) detection and parsing shared by the metadata
+ * proxy, its Vercel/Netlify twins and the frontend. Plain ESM so Node can load
+ * it without a build step; the JSDoc types are checked by `tsc` (`checkJs`).
+ */
+
+/** @typedef {'pls' | 'm3u' | 'asx' | 'xspf'} PlaylistFormat */
+
+/**
+ * @typedef {object} PlaylistResolution
+ * @property {PlaylistFormat | null} format
+ * @property {string[]} streams
+ */
+
+/** @type {Record<string, PlaylistFormat | undefined>} */
+const extensionFormats = {
+  '.pls': 'pls',
+  '.m3u': 'm3u',
+  '.asx': 'asx',
+  '.xspf': 'xspf'
+};
+
+/** @type {[string, PlaylistFormat][]} */
+const contentTypeFormats = [
+  ['audio/x-scpls', 'pls'],
+  ['audio/scpls', 'pls'],
+  ['audio/x-mpegurl', 'm3u'],
+  ['audio/mpegurl', 'm3u'],
+  ['video/x-ms-asf', 'asx'],
+  ['video/x-ms-asx', 'asx'],
+  ['audio/x-ms-asx', 'asx'],
+  ['application/xspf+xml', 'xspf']
+];
+
+const maxPlaylistBytes = 256 * 1024;
+
+/** @param {string} url */
+const pathExtension = (url) => {
+  try {
+    const { pathname } = new URL(url);
+    const match = pathname.toLowerCase().match(/\.[a-z0-9]+$/);
+    return match ? match[0] : '';
+  } catch {
+    return '';
+  }
+};
+
+/** @param {string} url */
+export const isPlaylistUrl = (url) => Boolean(extensionFormats[pathExtension(url)]);
+
+/**
+ * @param {string} url
+ * @param {string} [contentType]
+ * @param {string} [body]
+ * @returns {PlaylistFormat | null}
+ */
+export const detectPlaylistFormat = (url, contentType = '', body = '') => {
+  const type = contentType.toLowerCase();
+  if (type.includes('mpegurl') && body.includes('#EXT-X-')) {
+    return null;
+  }
+  const fromType = contentTypeFormats.find(([prefix]) => type.startsWith(prefix));
+  if (fromType) {
+    return fromType[1];
+  }
+  const fromExtension = extensionFormats[pathExtension(url)];
+  if (fromExtension) {
+    return body.includes('#EXT-X-') ? null : fromExtension;
+  }
+  const trimmed = body.trimStart();
+  if (/^\[playlist\]/i.test(trimmed)) {
+    return 'pls';
+  }
+  if (/^<asx[\s>]/i.test(trimmed)) {
+    return 'asx';
+  }
+  if (/<playlist[^>]*xspf/i.test(trimmed)) {
+    return 'xspf';
+  }
+  if (trimmed.startsWith('#EXTM3U') && !trimmed.includes('#EXT-X-')) {
+    return 'm3u';
+  }
+  return null;
+};
+
+/** @param {string} value */
+const decodeXmlEntities = (value) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/**
+ * @param {string} text
+ * @returns {string[]}
+ */
+export const parsePls = (text) => {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim().match(/^File(\d+)\s*=\s*(.+)$/i))
+    .filter(/** @returns {match is RegExpMatchArray} */ (match) => match !== null)
+    .sort((a, b) => Number(a[1]) - Number(b[1]))
+    .map((match) => match[2].trim());
+};
+
+/**
+ * @param {string} text
+ * @returns {string[]}
+ */
+export const parseM3u = (text) => {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+};
+
+/**
+ * @param {string} text
+ * @returns {string[]}
+ */
+export const parseAsx = (text) => {
+  /** @type {string[]} */
+  const entries = [];
+  const pattern = /<ref\s+[^>]*href\s*=\s*("([^"]*)"|'([^']*)')[^>]*>/gi;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    entries.push(decodeXmlEntities((match[2] ?? match[3] ?? '').trim()));
+  }
+  return entries;
+};
+
+/**
+ * @param {string} text
+ * @returns {string[]}
+ */
+export const parseXspf = (text) => {
+  /** @type {string[]} */
+  const entries = [];
+  const pattern = /<location>([\s\S]*?)<\/location>/gi;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    entries.push(decodeXmlEntities(match[1].trim()));
+  }
+  return entries;
+};
+
+/** @type {Record<PlaylistFormat, (text: string) => string[]>} */
+const parsers = {
+  pls: parsePls,
+  m3u: parseM3u,
+  asx: parseAsx,
+  xspf: parseXspf
+};
+
+/**
+ * Parses a playlist body into unique absolute http(s) URLs.
+ * @param {string} text
+ * @param {PlaylistFormat} format
+ * @param {string} baseUrl
+ * @returns {string[]}
+ */
+export const parsePlaylist = (text, format, baseUrl) => {
+  const parser = parsers[format];
+  if (!parser) {
+    return [];
+  }
+  const urls = parser(text)
+    .map((entry) => {
+      try {
+        return new URL(entry, baseUrl).toString();
+      } catch {
+        return null;
+      }
+    })
+    .filter(/** @returns {entry is string} */ (entry) => entry !== null && /^https?:/i.test(entry));
+  return Array.from(new Set(urls));
+};
+
+/** @param {Response} response */
+const readLimitedText = async (response) => {
+  if (!response.body || typeof response.body.getReader !== 'function') {
+    return (await response.text()).slice(0, maxPlaylistBytes);
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let received = 0;
+  while (received < maxPlaylistBytes) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.byteLength;
+    text += decoder.decode(value, { stream: true });
+  }
+  reader.cancel().catch(() => undefined);
+  return text;
+};
+
+/**
+ * Fetches a URL and, when it is a playlist, returns the stream URLs it lists.
+ * Nested playlists are followed up to `maxDepth`; direct audio responses are
+ * returned as-is without reading the stream body. `signal` aborts every
+ * request, nested ones included.
+ * @param {string} url
+ * @param {{ fetchImpl?: typeof fetch; maxDepth?: number; signal?: AbortSignal }} [options]
+ * @returns {Promise<PlaylistResolution>}
+ */
+export const resolvePlaylist = async (url, { fetchImpl = fetch, maxDepth = 2, signal } = {}) => {
+  const response = await fetchImpl(url, {
+    headers: {
+      Accept: 'audio/x-scpls, audio/x-mpegurl, video/x-ms-asf, application/xspf+xml, */*'
+    },
+    signal
+  });
+  if (!response.ok) {
+    throw new Error(`Upstream error: ${response.status}`);
+  }
+  const contentType = response.headers.get('content-type') ?? '';
+  const finalUrl = response.url || url;
+  const looksLikeAudio =
+    /^(audio|video)\//i.test(contentType) &&
+    !contentTypeFormats.some(([prefix]) => contentType.toLowerCase().startsWith(prefix));
+  if (looksLikeAudio && !isPlaylistUrl(finalUrl)) {
+    response.body?.cancel?.().catch(() => undefined);
+    return { format: null, streams: [finalUrl] };
+  }
+
+  const text = await readLimitedText(response);
+  const format = detectPlaylistFormat(finalUrl, contentType, text);
+  if (!format) {
+    return { format: null, streams: [finalUrl] };
+  }
+
+  const entries = parsePlaylist(text, format, finalUrl);
+  /** @type {string[]} */
+  const streams = [];
+  for (const entry of entries) {
+    if (maxDepth > 0 && isPlaylistUrl(entry)) {
+      try {
+        const nested = await resolvePlaylist(entry, {
+          fetchImpl,
+          maxDepth: maxDepth - 1,
+          signal
+        });
+        streams.push(...nested.streams);
+      } catch (err) {
+        // Skip nested playlists that cannot be fetched, unless the caller gave up.
+        if (signal?.aborted) {
+          throw err;
+        }
+      }
+    } else {
+      streams.push(entry);
+    }
+  }
+  return { format, streams: Array.from(new Set(streams)) };
+};
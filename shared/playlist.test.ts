@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import crlfM3u from './fixtures/playlists/crlf.m3u?raw';
+import crlfPls from './fixtures/playlists/crlf.pls?raw';
+import emptyM3u from './fixtures/playlists/empty.m3u?raw';
+import emptyPls from './fixtures/playlists/empty.pls?raw';
+import hlsM3u8 from './fixtures/playlists/hls.m3u8?raw';
+import innerM3u from './fixtures/playlists/inner.m3u?raw';
+import nestedPls from './fixtures/playlists/nested.pls?raw';
+import relativeM3u from './fixtures/playlists/relative.m3u?raw';
+import stationAsx from './fixtures/playlists/station.asx?raw';
+import stationM3u from './fixtures/playlists/station.m3u?raw';
+import stationPls from './fixtures/playlists/station.pls?raw';
+import stationXspf from './fixtures/playlists/station.xspf?raw';
+import {
+  detectPlaylistFormat,
+  isPlaylistUrl,
+  parseAsx,
+  parseM3u,
+  parsePlaylist,
+  parsePls,
+  parseXspf,
+  resolvePlaylist
+} from './playlist.js';
+
+/** Serves fixture bodies by URL; anything else is a 404. */
+const fakeFetch = (responses: Record<string, { body: string; type: string }>) => {
+  const requested: string[] = [];
+  const fetchImpl = (async (input: RequestInfo | URL) => {
+    const url = String(input);
+    requested.push(url);
+    const response = responses[url];
+    return response
+      ? new Response(response.body, { headers: { 'content-type': response.type } })
+      : new Response('Not found', { status: 404 });
+  }) as typeof fetch;
+  return { fetchImpl, requested };
+};
+
+describe('parsePls', () => {
+  it('reads the File entries in order', () => {
+    expect(parsePls(stationPls)).toEqual([
+      'http://ice1.somafm.com/groovesalad-128-mp3',
+      'http://ice2.somafm.com/groovesalad-128-mp3'
+    ]);
+  });
+
+  it('handles CRLF line endings, spaces around "=" and out-of-order entries', () => {
+    expect(crlfPls).toContain('\r\n');
+    expect(parsePls(crlfPls)).toEqual([
+      'http://stream.example.com:8000/live',
+      'http://backup.example.com:8000/live'
+    ]);
+  });
+
+  it('returns nothing for an empty playlist', () => {
+    expect(parsePls(emptyPls)).toEqual([]);
+    expect(parsePls('')).toEqual([]);
+  });
+});
+
+describe('parseM3u', () => {
+  it('skips #EXTM3U and #EXTINF lines', () => {
+    expect(parseM3u(stationM3u)).toEqual([
+      'https://stream.radioparadise.com/mp3-192',
+      'https://stream.radioparadise.com/mellow-192'
+    ]);
+  });
+
+  it('handles CRLF line endings, blank lines and comments', () => {
+    expect(crlfM3u).toContain('\r\n');
+    expect(parseM3u(crlfM3u)).toEqual([
+      'http://stream.example.com/live.mp3',
+      'http://stream.example.com/live.aac'
+    ]);
+  });
+
+  it('returns nothing for an empty playlist', () => {
+    expect(parseM3u(emptyM3u)).toEqual([]);
+  });
+});
+
+describe('parseAsx', () => {
+  it('reads ref hrefs in either quote style and case, decoding entities', () => {
+    expect(parseAsx(stationAsx)).toEqual([
+      'http://stream.example.com/live?type=.mp3&quality=high',
+      'http://backup.example.com/live.mp3'
+    ]);
+  });
+
+  it('returns nothing without refs', () => {
+    expect(parseAsx('<asx version="3.0"><entry></entry></asx>')).toEqual([]);
+  });
+});
+
+describe('parseXspf', () => {
+  it('reads track locations, trimming whitespace and decoding entities', () => {
+    expect(parseXspf(stationXspf)).toEqual([
+      'https://stream.example.org/jazz.ogg',
+      'https://stream.example.org/jazz-low.ogg?a=1&b=2'
+    ]);
+  });
+
+  it('returns nothing for an empty track list', () => {
+    expect(parseXspf('<playlist version="1"><trackList/></playlist>')).toEqual([]);
+  });
+});
+
+describe('parsePlaylist', () => {
+  it('resolves relative entries against the playlist URL and drops non-http ones', () => {
+    expect(
+      parsePlaylist(relativeM3u, 'm3u', 'https://radio.example.com/lists/relative.m3u')
+    ).toEqual([
+      'https://radio.example.com/lists/stream/live.mp3',
+      'https://radio.example.com/absolute/path.aac',
+      'https://radio.example.com/up.ogg',
+      'https://cdn.example.com/direct.mp3'
+    ]);
+  });
+
+  it('returns nothing for empty playlists', () => {
+    expect(parsePlaylist(emptyPls, 'pls', 'https://radio.example.com/a.pls')).toEqual([]);
+    expect(parsePlaylist(emptyM3u, 'm3u', 'https://radio.example.com/a.m3u')).toEqual([]);
+  });
+});
+
+describe('detectPlaylistFormat', () => {
+  it('trusts playlist content types', () => {
+    expect(detectPlaylistFormat('https://x.test/listen', 'audio/x-scpls', stationPls)).toBe('pls');
+    expect(detectPlaylistFormat('https://x.test/listen', 'audio/x-mpegurl', stationM3u)).toBe(
+      'm3u'
+    );
+    expect(detectPlaylistFormat('https://x.test/listen', 'video/x-ms-asf', stationAsx)).toBe('asx');
+    expect(
+      detectPlaylistFormat('https://x.test/listen', 'application/xspf+xml; charset=utf-8', '')
+    ).toBe('xspf');
+  });
+
+  it('falls back to the URL extension', () => {
+    expect(detectPlaylistFormat('https://x.test/live.PLS?id=1', 'text/plain', '')).toBe('pls');
+    expect(detectPlaylistFormat('https://x.test/live.asx', '', '')).toBe('asx');
+  });
+
+  it('sniffs the body when neither helps', () => {
+    const url = 'https://x.test/listen';
+    expect(detectPlaylistFormat(url, 'text/plain', crlfPls)).toBe('pls');
+    expect(detectPlaylistFormat(url, 'text/plain', stationM3u)).toBe('m3u');
+    expect(detectPlaylistFormat(url, 'text/xml', stationAsx)).toBe('asx');
+    expect(detectPlaylistFormat(url, 'text/xml', stationXspf)).toBe('xspf');
+  });
+
+  it('leaves HLS and plain audio alone', () => {
+    expect(detectPlaylistFormat('https://x.test/live.m3u8', 'audio/x-mpegurl', hlsM3u8)).toBeNull();
+    expect(detectPlaylistFormat('https://x.test/live.m3u', 'text/plain', hlsM3u8)).toBeNull();
+    expect(detectPlaylistFormat('https://x.test/listen', 'text/plain', hlsM3u8)).toBeNull();
+    expect(detectPlaylistFormat('https://x.test/live.mp3', 'audio/mpeg', '')).toBeNull();
+  });
+});
+
+describe('isPlaylistUrl', () => {
+  it('matches playlist extensions only', () => {
+    expect(isPlaylistUrl('https://x.test/listen.m3u?x=1')).toBe(true);
+    expect(isPlaylistUrl('https://x.test/live.m3u8')).toBe(false);
+    expect(isPlaylistUrl('not a url')).toBe(false);
+  });
+});
+
+describe('resolvePlaylist', () => {
+  it('follows nested playlists and skips the ones that fail', async () => {
+    const { fetchImpl, requested } = fakeFetch({
+      'https://radio.example.com/nested.pls': { body: nestedPls, type: 'audio/x-scpls' },
+      'https://radio.example.com/lists/inner.m3u': { body: innerM3u, type: 'audio/x-mpegurl' }
+    });
+    await expect(
+      resolvePlaylist('https://radio.example.com/nested.pls', { fetchImpl })
+    ).resolves.toEqual({
+      format: 'pls',
+      streams: [
+        'https://radio.example.com/inner-a.mp3',
+        'https://radio.example.com/lists/inner-b.aac',
+        'https://radio.example.com/direct.mp3'
+      ]
+    });
+    expect(requested).not.toContain('https://radio.example.com/direct.mp3');
+  });
+
+  it('stops following nested playlists at maxDepth', async () => {
+    const { fetchImpl, requested } = fakeFetch({
+      'https://radio.example.com/nested.pls': { body: nestedPls, type: 'audio/x-scpls' }
+    });
+    const result = await resolvePlaylist('https://radio.example.com/nested.pls', {
+      fetchImpl,
+      maxDepth: 0
+    });
+    expect(result.streams).toContain('https://radio.example.com/lists/inner.m3u');
+    expect(requested).toEqual(['https://radio.example.com/nested.pls']);
+  });
+
+  it('returns audio URLs as they are', async () => {
+    const { fetchImpl } = fakeFetch({
+      'https://radio.example.com/live': { body: 'ID3', type: 'audio/mpeg' }
+    });
+    await expect(resolvePlaylist('https://radio.example.com/live', { fetchImpl })).resolves.toEqual(
+      { format: null, streams: ['https://radio.example.com/live'] }
+    );
+  });
+
+  it('returns an empty list for an empty playlist', async () => {
+    const { fetchImpl } = fakeFetch({
+      'https://radio.example.com/empty.pls': { body: emptyPls, type: 'audio/x-scpls' }
+    });
+    await expect(
+      resolvePlaylist('https://radio.example.com/empty.pls', { fetchImpl })
+    ).resolves.toEqual({ format: 'pls', streams: [] });
+  });
+
+  it('rejects upstream errors', async () => {
+    const { fetchImpl } = fakeFetch({});
+    await expect(
+      resolvePlaylist('https://radio.example.com/gone.pls', { fetchImpl })
+    ).rejects.toThrow('Upstream error: 404');
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Stream health probe shared by the metadata proxy, its Vercel/Netlify twins
+ * and the `check:stations` CLI. Opens a stream, reads the headers and the
+ * first bytes, then hangs up; playlists are resolved and their first stream is
+ * probed instead.
+ */
+
+import { detectPlaylistFormat, isPlaylistUrl, resolvePlaylist } from './playlist.js';
+
+/** @typedef {'ok' | 'degraded' | 'dead'} StreamHealthStatus */
+
+/**
+ * @typedef {object} IcyHeaders
+ * @property {string | null} name
+ * @property {string | null} genre
+ * @property {string | null} url
+ * @property {number | null} metaint
+ */
+
+/**
+ * @typedef {object} StreamProbe
+ * @property {string} url The URL that was asked for.
+ * @property {string} streamUrl The stream actually probed: after redirects, or the first
+ *   playlist entry.
+ * @property {StreamHealthStatus} status
+ * @property {number | null} httpStatus
+ * @property {string | null} contentType
+ * @property {string | null} codec
+ * @property {number | null} bitrate
+ * @property {IcyHeaders} icy
+ * @property {number | null} latencyMs Time to the first byte of audio; null when none arrived.
+ * @property {string[]} issues
+ * @property {number} checkedAt
+ */
+
+const defaultTimeoutMs = 10000;
+// Slower than this to the first audio byte still plays, but is flagged.
+const slowLatencyMs = 5000;
+
+/** @type {[string, string][]} */
+const codecTypes = [
+  ['audio/mpeg', 'MP3'],
+  ['audio/mp3', 'MP3'],
+  ['audio/aacp', 'AAC+'],
+  ['audio/aac', 'AAC'],
+  ['audio/x-aac', 'AAC'],
+  ['audio/mp4', 'AAC'],
+  ['audio/ogg', 'OGG'],
+  ['application/ogg', 'OGG'],
+  ['audio/opus', 'OPUS'],
+  ['audio/flac', 'FLAC'],
+  ['audio/x-flac', 'FLAC'],
+  ['audio/webm', 'WEBM'],
+  ['application/vnd.apple.mpegurl', 'HLS'],
+  ['application/x-mpegurl', 'HLS']
+];
+
+/**
+ * @param {string | null | undefined} contentType
+ * @returns {string | null}
+ */
+export const codecFromContentType = (contentType) => {
+  const type = (contentType ?? '').toLowerCase();
+  const match = codecTypes.find(([prefix]) => type.startsWith(prefix));
+  return match ? match[1] : null;
+};
+
+/**
+ * Reads `icy-br` (`128` or `128,128`) or `ice-audio-info` (`bitrate=128;...`).
+ * @param {Headers} headers
+ * @returns {number | null}
+ */
+export const bitrateFromHeaders = (headers) => {
+  const icy = Number.parseInt((headers.get('icy-br') ?? '').split(',')[0], 10);
+  if (Number.isFinite(icy) && icy > 0) {
+    return icy;
+  }
+  const info = (headers.get('ice-audio-info') ?? '').match(/(?:^|;)\s*(?:ice-)?bitrate=(\d+)/i);
+  return info ? Number(info[1]) : null;
+};
+
+/**
+ * @param {Headers} headers
+ * @returns {IcyHeaders}
+ */
+const icyHeaders = (headers) => ({
+  name: headers.get('icy-name') || null,
+  genre: headers.get('icy-genre') || null,
+  url: headers.get('icy-url') || null,
+  metaint: Number(headers.get('icy-metaint')) || null
+});
+
+/**
+ * @param {string} url
+ * @returns {StreamProbe}
+ */
+const emptyResult = (url) => ({
+  url,
+  streamUrl: url,
+  status: 'dead',
+  httpStatus: null,
+  contentType: null,
+  codec: null,
+  bitrate: null,
+  icy: { name: null, genre: null, url: null, metaint: null },
+  latencyMs: null,
+  issues: [],
+  checkedAt: Date.now()
+});
+
+/**
+ * @param {unknown} err
+ * @param {boolean} timedOut
+ */
+const describeError = (err, timedOut) => {
+  if (timedOut) {
+    return 'Timed out';
+  }
+  const { cause: details } = /** @type {{ cause?: { code?: string; message?: string } }} */ (
+    err ?? {}
+  );
+  const cause = details?.code ?? details?.message;
+  return cause ? `Unreachable (${cause})` : err instanceof Error ? err.message : 'Unreachable';
+};
+
+/**
+ * @param {string} url
+ * @param {{ fetchImpl: typeof fetch; timeoutMs: number }} options
+ * @returns {Promise<StreamProbe>}
+ */
+const probeDirect = async (url, { fetchImpl, timeoutMs }) => {
+  const result = emptyResult(url);
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const started = Date.now();
+  try {
+    const response = await fetchImpl(url, {
+      headers: { 'Icy-MetaData': '1', Accept: 'audio/*, */*' },
+      signal: controller.signal
+    });
+    result.streamUrl = response.url || url;
+    result.httpStatus = response.status;
+    result.contentType = response.headers.get('content-type');
+    result.codec = codecFromContentType(result.contentType);
+    result.bitrate = bitrateFromHeaders(response.headers);
+    result.icy = icyHeaders(response.headers);
+    if (!response.ok) {
+      result.issues.push(`HTTP ${response.status}`);
+      return result;
+    }
+
+    const reader = response.body?.getReader();
+    const first = reader ? await reader.read() : { done: true, value: undefined };
+    reader?.cancel().catch(() => undefined);
+    if (first.done || !first.value?.byteLength) {
+      result.issues.push('No data received');
+      return result;
+    }
+    result.latencyMs = Date.now() - started;
+    result.status = 'ok';
+
+    if (result.codec === 'HLS') {
+      if (!new TextDecoder().decode(first.value).includes('#EXTM3U')) {
+        result.status = 'degraded';
+        result.issues.push('HLS playlist did not start with #EXTM3U');
+      }
+    } else if (!/^(audio|video)\//i.test(result.contentType ?? '') && !result.codec) {
+      result.status = 'degraded';
+      result.issues.push(`Unexpected content type ${result.contentType || '(none)'}`);
+    }
+    if (result.latencyMs > slowLatencyMs) {
+      result.status = 'degraded';
+      result.issues.push(`Slow to start (${(result.latencyMs / 1000).toFixed(1)} s)`);
+    }
+    return result;
+  } catch (err) {
+    result.issues.push(describeError(err, timedOut));
+    return result;
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+  }
+};
+
+/**
+ * Probes one stream URL. Resolves with `{ status, httpStatus, contentType,
+ * codec, bitrate, icy, latencyMs, issues, ... }`, where `status` is `ok`,
+ * `degraded` (plays, but something looks off) or `dead`; it never rejects.
+ * @param {string} url
+ * @param {{ fetchImpl?: typeof fetch; timeoutMs?: number }} [options]
+ * @returns {Promise<StreamProbe>}
+ */
+export const probeStream = async (
+  url,
+  { fetchImpl = fetch, timeoutMs = defaultTimeoutMs } = {}
+) => {
+  if (!isPlaylistUrl(url)) {
+    const direct = await probeDirect(url, { fetchImpl, timeoutMs });
+    if (!detectPlaylistFormat(direct.streamUrl, direct.contentType ?? '')) {
+      return direct;
+    }
+  }
+  // The playlist gets the same time limit as the stream itself.
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  let streams;
+  try {
+    ({ streams } = await resolvePlaylist(url, { fetchImpl, signal: controller.signal }));
+  } catch (err) {
+    return { ...emptyResult(url), issues: [describeError(err, timedOut)] };
+  } finally {
+    clearTimeout(timer);
+  }
+  if (streams.length === 0) {
+    return { ...emptyResult(url), issues: ['Playlist lists no streams'] };
+  }
+  return { ...(await probeDirect(streams[0], { fetchImpl, timeoutMs })), url };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { probeStream } from './probe.js';
+
+type Route = { body: string; type: string; status?: number } | 'hang';
+
+/** Answers by URL; `hang` never responds until the request is aborted. */
+const fakeFetch = (routes: Record<string, Route>) =>
+  (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const route = routes[String(input)];
+    if (route === 'hang') {
+      return new Promise<Response>((_, reject) => {
+        init?.signal?.addEventListener('abort', () =>
+          reject(new DOMException('The operation was aborted.', 'AbortError'))
+        );
+      });
+    }
+    if (!route) {
+      return new Response('Not found', { status: 404 });
+    }
+    return new Response(route.body, {
+      status: route.status ?? 200,
+      headers: { 'content-type': route.type, 'icy-br': '128' }
+    });
+  }) as typeof fetch;
+
+describe('probeStream', () => {
+  it('probes the first stream a playlist lists', async () => {
+    const result = await probeStream('https://radio.example.com/live.pls', {
+      fetchImpl: fakeFetch({
+        'https://radio.example.com/live.pls': {
+          body: '[playlist]\nFile1=https://radio.example.com/live.mp3\n',
+          type: 'audio/x-scpls'
+        },
+        'https://radio.example.com/live.mp3': { body: 'ID3audio', type: 'audio/mpeg' }
+      })
+    });
+    expect(result).toMatchObject({
+      url: 'https://radio.example.com/live.pls',
+      streamUrl: 'https://radio.example.com/live.mp3',
+      status: 'ok',
+      codec: 'MP3',
+      bitrate: 128
+    });
+  });
+
+  it('times out a playlist host that never answers', async () => {
+    const result = await probeStream('https://slow.example.com/live.m3u', {
+      fetchImpl: fakeFetch({ 'https://slow.example.com/live.m3u': 'hang' }),
+      timeoutMs: 50
+    });
+    expect(result).toMatchObject({ status: 'dead', issues: ['Timed out'] });
+  });
+
+  it('times out a nested playlist that never answers', async () => {
+    const result = await probeStream('https://radio.example.com/outer.pls', {
+      fetchImpl: fakeFetch({
+        'https://radio.example.com/outer.pls': {
+          body: '[playlist]\nFile1=https://slow.example.com/inner.m3u\n',
+          type: 'audio/x-scpls'
+        },
+        'https://slow.example.com/inner.m3u': 'hang'
+      }),
+      timeoutMs: 50
+    });
+    expect(result).toMatchObject({ status: 'dead', issues: ['Timed out'] });
+  });
+
+  it('reports HTTP errors', async () => {
+    const result = await probeStream('https://radio.example.com/gone.mp3', {
+      fetchImpl: fakeFetch({})
+    });
+    expect(result).toMatchObject({ status: 'dead', httpStatus: 404, issues: ['HTTP 404'] });
+  });
+});
@@ -1,77 +1,77 @@
-import { useCallback, useEffect, useMemo, useRef, useState, type FormEvent } from 'react';
-import Hls from 'hls.js';
-import stationsData from './stations.json';
-
-type Station = {
-  id: string;
-  name: string;
-  country: string;
-  tags: string[];
-  url: string;
-  codec: string;
-  metadataUrl?: string;
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  createDeckPlayer,
+  defaultPlayerSettings,
+  type DeckPlayer,
+  type PlayerSettings
+} from './audio/deckPlayer';
+import { resolveStreamUrls } from './audio/playlistResolver';
+import StationEditor from './catalog/StationEditor';
+import { bundledIds, useCustomStations } from './catalog/useCustomStations';
+import BackupPanel from './backup/BackupPanel';
+import { useBackup } from './backup/useBackup';
+import BrowsePanel from './radioBrowser/BrowsePanel';
+import StationCard from './radioBrowser/StationCard';
+import { createRadioBrowserClient, type RadioBrowserOrder } from './radioBrowser/client';
+import {
+  hasSearchTerms,
+  searchBitrates,
+  searchCodecs,
+  searchOrderLabels,
+  useStationSearch
+} from './radioBrowser/useStationSearch';
+import RecorderPanel from './audio/RecorderPanel';
+import { useRecorder } from './audio/useRecorder';
+import TimeShiftPanel from './audio/TimeShiftPanel';
+import { useTimeShift } from './audio/useTimeShift';
+import HealthBadge from './audio/HealthBadge';
+import { useMediaSession } from './audio/useMediaSession';
+import { stationHealth } from './audio/streamHealth';
+import { useStreamHealth } from './audio/useStreamHealth';
+import { isHlsUrl } from './audio/streamSource';
+import {
+  defaultReconnectPolicy,
+  initialConnectionState,
+  planReconnect,
+  watchForStalls,
+  type ConnectionState
+} from './audio/reconnect';
+import EffectsPanel from './effects/EffectsPanel';
+import { useAudioEffects } from './effects/useAudioEffects';
+import SpeechVisualizer from './talkKiller/SpeechVisualizer';
+import TalkKillerLogPanel from './talkKiller/TalkKillerLogPanel';
+import { speechFeatureLabels, type SpeechFeatures } from './talkKiller/speechClassifier';
+import type { StationObservation } from './talkKiller/fallbackSelector';
+import { useTalkKiller } from './talkKiller/useTalkKiller';
+import { useFavourites } from './favourites/useFavourites';
+import {
+  fallbackToPlayable,
+  getFavouriteKey,
+  getStationKey,
+  getStreamUrls,
+  type FavouriteStation,
+  type PlayableStation,
+  type SearchStation,
+  type StationChoice
+} from './stations';
+import TrackHistoryPanel from './history/TrackHistoryPanel';
+import { useTrackHistory } from './history/useTrackHistory';
+import CommandPalette, { type PaletteItem } from './shortcuts/CommandPalette';
+import ScheduleEditor from './timers/ScheduleEditor';
+import TimersPanel from './timers/TimersPanel';
+import { useTimers } from './timers/useTimers';
+import ShortcutSettings from './shortcuts/ShortcutSettings';
+import { useShortcuts } from './shortcuts/useShortcuts';
+import { formatNowPlaying } from './metadata/nowPlaying';
+import { useNowPlaying } from './metadata/useNowPlaying';
+import { shouldUseMetadataProxy } from './proxy';
+import { useLocalStorage } from './useLocalStorage';
+
+type ResolvedStream = {
+  stationUrl: string;
+  urls: string[];
 };
 
-type SearchStation = {
-  stationuuid?: string;
-  name: string;
-  country: string;
-  tags: string[];
-  url: string;
-  codec?: string;
-  bitrate?: number;
-};
-
-type PlayableStation = {
-  id?: string;
-  name: string;
-  country?: string;
-  tags?: string[];
-  url: string;
-  codec?: string;
-  bitrate?: number;
-  metadataUrl?: string;
-};
-
-type FavouriteStation = {
-  key: string;
-  name: string;
-  country?: string;
-  tags?: string[];
-  url: string;
-  codec?: string;
-  bitrate?: number;
-  stationuuid?: string;
-  source: 'local' | 'search';
-  localId?: string;
-};
-
-type SearchCacheEntry = {
-  key: string;
-  results: SearchStation[];
-  cachedAt: number;
-};
-
-type TalkKillerSettings = {
-  enabled: boolean;
-  speechSeconds: number;
-  sensitivity: number;
-  cooldownSeconds: number;
-};
-
-const stations = stationsData as Station[];
-
-const defaultSettings: TalkKillerSettings = {
-  enabled: true,
-  speechSeconds: 6,
-  sensitivity: 0.6,
-  cooldownSeconds: 12
-};
-
-const hlsMimeType = 'application/vnd.apple.mpegurl';
-
-const isHlsUrl = (url: string) => url.toLowerCase().includes('.m3u8');
-
 const describeMediaError = (error: MediaError | null) => {
   if (!error) {
     return 'Unknown error';
@@ -90,49 +90,6 @@ const describeMediaError = (error: MediaError | null) => {
   }
 };
 
-function useLocalStorage<T>(key: string, initialValue: T) {
-  const [value, setValue] = useState<T>(() => {
-    const stored = localStorage.getItem(key);
-    if (!stored) {
-      return initialValue;
-    }
-    try {
-      return JSON.parse(stored) as T;
-    } catch {
-      return initialValue;
-    }
-  });
-
-  useEffect(() => {
-    localStorage.setItem(key, JSON.stringify(value));
-  }, [key, value]);
-
-  return [value, setValue] as const;
-}
-
-function extractMetadata(data: unknown, stationName: string) {
-  if (!data || typeof data !== 'object') {
-    return null;
-  }
-  const record = data as Record<string, unknown>;
-  if (Array.isArray(record.channels) && record.channels.length > 0) {
-    const channel = record.channels[0] as Record<string, unknown>;
-    if (typeof channel.lastPlaying === 'string') {
-      return channel.lastPlaying;
-    }
-    if (typeof channel.title === 'string') {
-      return channel.title;
-    }
-  }
-  if (typeof record.now_playing === 'string') {
-    return record.now_playing;
-  }
-  if (typeof record.title === 'string') {
-    return record.title;
-  }
-  return `Streaming ${stationName}`;
-}
-
 const buildStationMetadata = (station: PlayableStation | null) => {
   if (!station) {
     return null;
@@ -150,40 +107,65 @@ const buildStationMetadata = (station: PlayableStation | null) => {
   return parts.length > 0 ? parts.join(' • ') : null;
 };
 
-const isBlockedMetadataUrl = (url: string) => {
+const describeMirror = (url: string | undefined) => {
+  if (!url) {
+    return '';
+  }
   try {
-    const { hostname } = new URL(url);
-    return hostname.endsWith('somafm.com');
+    return new URL(url).host;
   } catch {
-    return true;
+    return url;
   }
 };
 
-const shouldUseMetadataProxy = () => {
-  return import.meta.env.DEV || import.meta.env.VITE_METADATA_PROXY === 'true';
+const describeConnection = (connection: ConnectionState, urls: string[]) => {
+  const mirror =
+    urls.length > 1
+      ? `mirror ${connection.mirrorIndex + 1} of ${urls.length} (${describeMirror(
+          urls[connection.mirrorIndex]
+        )})`
+      : null;
+  switch (connection.status) {
+    case 'retrying':
+      return `Reconnecting${mirror ? ` to ${mirror}` : ''}, attempt ${connection.attempt || 1} of ${
+        defaultReconnectPolicy.maxAttemptsPerMirror
+      }…`;
+    case 'connecting':
+      return `Connecting${mirror ? ` to ${mirror}` : ''}…`;
+    case 'failed':
+      return `Gave up after trying ${urls.length > 1 ? `all ${urls.length} mirrors` : 'the stream'}.`;
+    case 'playing':
+      return mirror ? `Playing from ${mirror}.` : null;
+    default:
+      return null;
+  }
 };
 
-const buildMetadataRequestUrl = (metadataUrl: string) => {
-  if (!shouldUseMetadataProxy()) {
-    return metadataUrl;
+const describeObservation = (observation: StationObservation | undefined) => {
+  if (!observation) {
+    return null;
+  }
+  if (observation.failedAt && Date.now() - observation.failedAt < 5 * 60 * 1000) {
+    return 'Failed recently';
   }
-  const proxyBase = import.meta.env.VITE_METADATA_PROXY_URL || '/api/metadata';
-  const proxyUrl = new URL(proxyBase, window.location.origin);
-  proxyUrl.searchParams.set('url', metadataUrl);
-  return proxyUrl.toString();
+  if (observation.label) {
+    return observation.label === 'music' ? 'Last heard: music' : 'Last heard: talk';
+  }
+  return null;
 };
 
 function App() {
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const intervalRef = useRef<number | null>(null);
-  const lastSwitchRef = useRef<number>(0);
-  const speechSecondsRef = useRef<number>(0);
-  const searchCacheRef = useRef<Map<string, SearchStation[]>>(new Map());
-  const searchAbortRef = useRef<AbortController | null>(null);
-  const hlsRef = useRef<Hls | null>(null);
+  const deckARef = useRef<HTMLAudioElement | null>(null);
+  const deckBRef = useRef<HTMLAudioElement | null>(null);
+  const playerRef = useRef<DeckPlayer | null>(null);
+  const wantsPlaybackRef = useRef(false);
+  const retryTimerRef = useRef<number | null>(null);
+  const handleStreamFailureRef = useRef<(message: string) => void>(() => undefined);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+
+  const catalog = useCustomStations();
+  const { stations } = catalog;
+  const lists = useFavourites(stations);
 
   const [currentId, setCurrentId] = useState(stations[0]?.id ?? '');
   const [currentStation, setCurrentStation] = useState<PlayableStation | null>(
@@ -192,84 +174,38 @@ function App() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolume] = useState(0.8);
   const [error, setError] = useState<string | null>(null);
-  const [metadata, setMetadata] = useState<string | null>(null);
+  const [connection, setConnection] = useState<ConnectionState>(initialConnectionState);
+  const [resolvedStream, setResolvedStream] = useState<ResolvedStream | null>(null);
   const [analysisBlocked, setAnalysisBlocked] = useState(false);
-  const [speechScore, setSpeechScore] = useState(0);
-  const [speechLabel, setSpeechLabel] = useState('Music');
   const [autoPlayNext, setAutoPlayNext] = useState(false);
 
-  const [favourites, setFavourites] = useLocalStorage<FavouriteStation[] | string[]>(
-    'raven-radio:favourites',
-    []
-  );
-  const [fallbacks, setFallbacks] = useLocalStorage<string[]>(
-    'raven-radio:fallbacks',
-    []
-  );
-  const [settings, setSettings] = useLocalStorage<TalkKillerSettings>(
-    'raven-radio:settings',
-    defaultSettings
-  );
-  const [searchCache, setSearchCache] = useLocalStorage<SearchCacheEntry[]>(
-    'raven-radio:search-cache',
-    []
+  const [playerSettings, setPlayerSettings] = useLocalStorage<PlayerSettings>(
+    'raven-radio:player',
+    defaultPlayerSettings
   );
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
   const [query, setQuery] = useState('');
   const [countryFilter, setCountryFilter] = useState('all');
   const [tagFilter, setTagFilter] = useState('all');
 
-  const [searchQuery, setSearchQuery] = useState('');
-  const [searchCountry, setSearchCountry] = useState('');
-  const [searchTag, setSearchTag] = useState('');
-  const [searchResults, setSearchResults] = useState<SearchStation[]>([]);
-  const [searchLoading, setSearchLoading] = useState(false);
-  const [searchError, setSearchError] = useState<string | null>(null);
-
-  const normalizedFavourites = useMemo<FavouriteStation[]>(() => {
-    if (!Array.isArray(favourites)) {
-      return [];
-    }
-    if (favourites.length === 0) {
-      return [];
-    }
-    if (typeof favourites[0] !== 'string') {
-      return favourites as FavouriteStation[];
-    }
-    return (favourites as string[])
-      .map((id) => {
-        const station = stations.find((item) => item.id === id);
-        if (!station) {
-          return null;
-        }
-        return {
-          key: station.id,
-          name: station.name,
-          country: station.country,
-          tags: station.tags,
-          url: station.url,
-          codec: station.codec,
-          source: 'local' as const,
-          localId: station.id
-        };
-      })
-      .filter((item): item is FavouriteStation => Boolean(item));
-  }, [favourites]);
-
-  useEffect(() => {
-    if (Array.isArray(favourites) && favourites.length > 0 && typeof favourites[0] === 'string') {
-      setFavourites(normalizedFavourites);
-    }
-  }, [favourites, normalizedFavourites, setFavourites]);
-
-  useEffect(() => {
-    const cacheMap = new Map<string, SearchStation[]>();
-    searchCache.forEach((entry) => {
-      cacheMap.set(entry.key, entry.results);
-    });
-    searchCacheRef.current = cacheMap;
-  }, [searchCache]);
+  const [stationBrowserMode, setStationBrowserMode] = useLocalStorage<'search' | 'browse'>(
+    'raven-radio:station-browser-mode',
+    'search'
+  );
+  const radioBrowser = useMemo(
+    () =>
+      createRadioBrowserClient({
+        baseUrl: import.meta.env.VITE_RADIO_BROWSER_URL || undefined
+      }),
+    []
+  );
+  const search = useStationSearch(radioBrowser);
 
+  const streamHealth = useStreamHealth([
+    ...stations.flatMap(getStreamUrls),
+    ...lists.favourites.flatMap(lists.favouriteStreamUrls)
+  ]);
   useEffect(() => {
     if (!currentId) {
       return;
@@ -278,17 +214,40 @@ function App() {
     if (station) {
       setCurrentStation(station);
     }
-  }, [currentId]);
+  }, [currentId, stations]);
+
+  const streamUrls =
+    resolvedStream && resolvedStream.stationUrl === currentStation?.url
+      ? resolvedStream.urls
+      : currentStation
+        ? getStreamUrls(currentStation)
+        : [];
+  const connectionSummary = describeConnection(connection, streamUrls);
+  // ICY titles need the proxy (browsers cannot read them) and are not carried by HLS.
+  const icyStreamUrl =
+    shouldUseMetadataProxy() &&
+    resolvedStream?.stationUrl === currentStation?.url &&
+    streamUrls[0] &&
+    !isHlsUrl(streamUrls[0])
+      ? streamUrls[0]
+      : null;
+
+  const profileKey = currentStation ? getStationKey(currentStation) : '';
+  const nowPlaying = useNowPlaying(currentStation, icyStreamUrl);
+  const trackHistory = useTrackHistory(
+    currentStation && isPlaying ? { key: profileKey, name: currentStation.name } : null,
+    nowPlaying
+  );
 
   const countries = useMemo(() => {
     return Array.from(new Set(stations.map((station) => station.country))).sort();
-  }, []);
+  }, [stations]);
 
   const tags = useMemo(() => {
     const tagSet = new Set<string>();
     stations.forEach((station) => station.tags.forEach((tag) => tagSet.add(tag)));
     return Array.from(tagSet).sort();
-  }, []);
+  }, [stations]);
 
   const filteredStations = useMemo(() => {
     const lowered = query.trim().toLowerCase();
@@ -302,196 +261,154 @@ function App() {
       const matchesTag = tagFilter === 'all' || station.tags.includes(tagFilter);
       return matchesQuery && matchesCountry && matchesTag;
     });
-  }, [query, countryFilter, tagFilter]);
+  }, [stations, query, countryFilter, tagFilter]);
+
+  const clearRetryTimer = () => {
+    if (retryTimerRef.current !== null) {
+      window.clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+  };
+
+  const getPlayer = () => {
+    if (!playerRef.current && deckARef.current && deckBRef.current) {
+      playerRef.current = createDeckPlayer([deckARef.current, deckBRef.current], {
+        onFatalError: (message) => handleStreamFailureRef.current(message),
+        onActiveChange: (audio) => {
+          setIsPlaying(!audio.paused);
+          talkKiller.resetDetector();
+        }
+      });
+    }
+    return playerRef.current;
+  };
 
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio || !currentStation) {
+    if (!currentStation) {
       return;
     }
-    const url = currentStation.url;
-    const hlsStream = isHlsUrl(url);
-    audio.crossOrigin = 'anonymous';
-    if (hlsRef.current) {
-      hlsRef.current.destroy();
-      hlsRef.current = null;
-    }
     setError(null);
     setAnalysisBlocked(false);
-    setMetadata(null);
-    if (hlsStream) {
-      if (Hls.isSupported()) {
-        const hls = new Hls();
-        hlsRef.current = hls;
-        hls.attachMedia(audio);
-        hls.on(Hls.Events.MEDIA_ATTACHED, () => {
-          hls.loadSource(url);
-        });
-        hls.on(Hls.Events.ERROR, (_event, data) => {
-          if (data.fatal) {
-            const reason = data.reason ? `: ${data.reason}` : '';
-            setError(
-              `Stream failed (${data.type} - ${data.details}${reason}). Try an alternate URL/server.`
-            );
-            setIsPlaying(false);
-          }
-        });
-      } else if (audio.canPlayType(hlsMimeType)) {
-        audio.src = url;
-        audio.load();
-      } else {
-        setError('HLS stream not supported. Try an alternate URL/server.');
-        setIsPlaying(false);
+    clearRetryTimer();
+    setConnection(initialConnectionState);
+    let cancelled = false;
+    const stationUrl = currentStation.url;
+    resolveStreamUrls(getStreamUrls(currentStation)).then((urls) => {
+      if (!cancelled) {
+        setResolvedStream({ stationUrl, urls });
       }
-    } else {
-      audio.src = url;
-      audio.load();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentStation?.url]);
+
+  useEffect(() => {
+    const player = getPlayer();
+    if (!player || !resolvedStream || resolvedStream.stationUrl !== currentStation?.url) {
+      return;
+    }
+    const url = resolvedStream.urls[0];
+    const fadeSeconds = playerSettings.crossfadeSeconds ?? defaultPlayerSettings.crossfadeSeconds;
+    if (player.activeAudio.paused || !player.graph || fadeSeconds <= 0) {
+      player.load(url);
+      return;
     }
-    if (autoPlayNext) {
+    player.crossfadeTo(url, fadeSeconds).catch((err) => {
+      console.warn('Crossfade failed, switching directly.', err);
+      player.load(url);
+      play();
+    });
+  }, [resolvedStream]);
+
+  useEffect(() => {
+    if (autoPlayNext && resolvedStream?.stationUrl === currentStation?.url) {
       setAutoPlayNext(false);
       play();
     }
-  }, [currentStation?.url, autoPlayNext]);
+  }, [resolvedStream, autoPlayNext]);
 
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) {
+    const player = getPlayer();
+    if (!player) {
       return;
     }
-    const handlePlay = () => setIsPlaying(true);
-    const handlePause = () => setIsPlaying(false);
-    const handleError = () => {
-      const detail = describeMediaError(audio.error);
-      setError(`Stream failed (${detail}). Try an alternate URL/server.`);
-      setIsPlaying(false);
-    };
+    const cleanups = [deckARef.current, deckBRef.current].map((audio) => {
+      if (!audio) {
+        return () => undefined;
+      }
+      const isActive = () => audio === player.activeAudio;
+      const handlePlay = () => {
+        if (isActive()) {
+          setIsPlaying(true);
+        }
+      };
+      const handlePause = () => {
+        if (isActive()) {
+          setIsPlaying(false);
+        }
+      };
+      const handlePlaying = () => {
+        if (isActive()) {
+          setConnection((prev) => ({ ...prev, status: 'playing', attempt: 0, reason: undefined }));
+        }
+      };
+      const handleError = () => {
+        if (!isActive()) {
+          return;
+        }
+        const detail = describeMediaError(audio.error);
+        handleStreamFailureRef.current(`Stream failed (${detail}). Try an alternate URL/server.`);
+      };
+      const stopWatching = watchForStalls(audio, defaultReconnectPolicy.stallTimeoutMs, () => {
+        if (isActive()) {
+          handleStreamFailureRef.current('Stream stalled. Try an alternate URL/server.');
+        }
+      });
 
-    audio.addEventListener('play', handlePlay);
-    audio.addEventListener('pause', handlePause);
-    audio.addEventListener('error', handleError);
+      audio.addEventListener('play', handlePlay);
+      audio.addEventListener('pause', handlePause);
+      audio.addEventListener('playing', handlePlaying);
+      audio.addEventListener('error', handleError);
+
+      return () => {
+        stopWatching();
+        audio.removeEventListener('play', handlePlay);
+        audio.removeEventListener('pause', handlePause);
+        audio.removeEventListener('playing', handlePlaying);
+        audio.removeEventListener('error', handleError);
+      };
+    });
 
     return () => {
-      audio.removeEventListener('play', handlePlay);
-      audio.removeEventListener('pause', handlePause);
-      audio.removeEventListener('error', handleError);
+      cleanups.forEach((cleanup) => cleanup());
     };
   }, []);
 
   useEffect(() => {
     return () => {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-        hlsRef.current = null;
-      }
+      clearRetryTimer();
+      playerRef.current?.destroy();
     };
   }, []);
 
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) {
-      return;
-    }
-    audio.volume = volume;
-  }, [volume]);
-
-  useEffect(() => {
-    const fallback = buildStationMetadata(currentStation);
-    const metadataUrl = currentStation?.metadataUrl;
-    if (!metadataUrl || isBlockedMetadataUrl(metadataUrl)) {
-      setMetadata(fallback);
+  const play = async () => {
+    const player = getPlayer();
+    if (!player) {
       return;
     }
-    let mounted = true;
-
-    const loadMetadata = async () => {
-      try {
-        const response = await fetch(buildMetadataRequestUrl(metadataUrl), {
-          headers: {
-            Accept: 'application/json'
-          }
-        });
-        const data = (await response.json()) as unknown;
-        const parsed = extractMetadata(data, currentStation.name);
-        if (mounted) {
-          setMetadata(parsed ?? fallback);
-        }
-      } catch {
-        if (mounted) {
-          setMetadata(fallback);
-        }
-      }
-    };
-
-    setMetadata(fallback);
-    loadMetadata();
-    const interval = window.setInterval(loadMetadata, 20000);
-
-    return () => {
-      mounted = false;
-      window.clearInterval(interval);
-    };
-  }, [
-    currentStation?.metadataUrl,
-    currentStation?.name,
-    currentStation?.tags,
-    currentStation?.codec,
-    currentStation?.bitrate
-  ]);
-
-  const getFavouriteKey = (station: { stationuuid?: string; url?: string; id?: string }) => {
-    return station.stationuuid || station.url || station.id || '';
-  };
-
-  const addFavourite = (station: FavouriteStation) => {
-    setFavourites((prev) => {
-      const current = Array.isArray(prev) && typeof prev[0] === 'string' ? normalizedFavourites : prev;
-      const favouritesList = current as FavouriteStation[];
-      if (favouritesList.some((item) => item.key === station.key)) {
-        return favouritesList;
-      }
-      return [station, ...favouritesList];
-    });
-  };
-
-  const removeFavourite = (key: string) => {
-    setFavourites((prev) => {
-      const current = Array.isArray(prev) && typeof prev[0] === 'string' ? normalizedFavourites : prev;
-      const favouritesList = current as FavouriteStation[];
-      return favouritesList.filter((item) => item.key !== key);
-    });
-  };
-
-  const toggleFavourite = (station: Station) => {
-    const key = station.id;
-    if (normalizedFavourites.some((item) => item.key === key)) {
-      removeFavourite(key);
-      return;
+    try {
+      player.ensureGraph().audioContext.resume().catch(() => undefined);
+    } catch (err) {
+      console.warn('Audio graph unavailable; crossfades are disabled.', err);
     }
-    addFavourite({
-      key,
-      name: station.name,
-      country: station.country,
-      tags: station.tags,
-      url: station.url,
-      codec: station.codec,
-      stationuuid: station.id,
-      source: 'local',
-      localId: station.id
-    });
-  };
-
-  const toggleFallback = (stationId: string) => {
-    setFallbacks((prev) =>
-      prev.includes(stationId) ? prev.filter((id) => id !== stationId) : [...prev, stationId]
-    );
-  };
-
-  const play = async () => {
-    if (!audioRef.current) {
-      return;
+    wantsPlaybackRef.current = true;
+    if (connection.status === 'failed' && streamUrls.length > 0) {
+      setConnection(initialConnectionState);
+      player.load(streamUrls[0]);
     }
     try {
-      await audioRef.current.play();
+      await player.activeAudio.play();
       setError(null);
     } catch {
       setError('Playback blocked by the browser. Try pressing play again.');
@@ -499,254 +416,250 @@ function App() {
   };
 
   const pause = () => {
-    audioRef.current?.pause();
-  };
-
-  const nextFallback = () => {
-    if (fallbacks.length === 0) {
-      return null;
-    }
-    const currentIndex = fallbacks.indexOf(currentId);
-    if (currentIndex === -1) {
-      return fallbacks[0];
-    }
-    return fallbacks[(currentIndex + 1) % fallbacks.length];
+    timeShift.goLive();
+    wantsPlaybackRef.current = false;
+    clearRetryTimer();
+    getPlayer()?.activeAudio.pause();
   };
 
-  const updateSearchCache = useCallback(
-    (key: string, results: SearchStation[]) => {
-      searchCacheRef.current.set(key, results);
-      setSearchCache((prev) => {
-        const filtered = prev.filter((entry) => entry.key !== key);
-        const next = [{ key, results, cachedAt: Date.now() }, ...filtered];
-        return next.slice(0, 20);
-      });
-    },
-    [setSearchCache]
-  );
-
-  const performSearch = useCallback(async (name: string, country: string, tag: string) => {
-    const trimmed = name.trim();
-    if (!trimmed) {
-      setSearchResults([]);
-      setSearchError(null);
-      setSearchLoading(false);
+  const handleStreamFailure = (message: string) => {
+    setIsPlaying(false);
+    talkKiller.recordObservation(profileKey, { failedAt: Date.now() });
+    const player = getPlayer();
+    if (!wantsPlaybackRef.current || !player || !currentStation) {
+      setError(message);
       return;
     }
-    const key = [trimmed.toLowerCase(), country.trim().toLowerCase(), tag.trim().toLowerCase()]
-      .filter(Boolean)
-      .join('|');
-    const cached = searchCacheRef.current.get(key);
-    if (cached) {
-      setSearchResults(cached);
-      setSearchError(null);
-      setSearchLoading(false);
+    clearRetryTimer();
+    const mirrors = streamUrls;
+    const decision = planReconnect(connection, mirrors.length, defaultReconnectPolicy);
+    if (decision.type === 'retry') {
+      setError(null);
+      setConnection({
+        status: 'retrying',
+        mirrorIndex: decision.mirrorIndex,
+        attempt: decision.attempt,
+        reason: message
+      });
+      retryTimerRef.current = window.setTimeout(() => {
+        retryTimerRef.current = null;
+        setConnection((prev) => ({ ...prev, status: 'connecting' }));
+        player.load(mirrors[decision.mirrorIndex]);
+        play();
+      }, decision.delayMs);
       return;
     }
 
-    searchAbortRef.current?.abort();
-    const controller = new AbortController();
-    searchAbortRef.current = controller;
-    setSearchLoading(true);
-    setSearchError(null);
-
-    try {
-      const params = new URLSearchParams({
-        name: trimmed,
-        limit: '20'
-      });
-      if (country.trim()) {
-        params.set('country', country.trim());
-      }
-      if (tag.trim()) {
-        params.set('tag', tag.trim());
-      }
-      const response = await fetch(
-        `https://de1.api.radio-browser.info/json/stations/search?${params.toString()}`,
-        { signal: controller.signal }
-      );
-      if (!response.ok) {
-        throw new Error('Search failed');
-      }
-      const data = (await response.json()) as unknown;
-      const results = Array.isArray(data)
-        ? data
-            .map((item) => {
-              const record = item as Record<string, unknown>;
-              const nameValue = typeof record.name === 'string' ? record.name.trim() : '';
-              const urlValue =
-                typeof record.url_resolved === 'string'
-                  ? record.url_resolved
-                  : typeof record.url === 'string'
-                    ? record.url
-                    : '';
-              if (!nameValue || !urlValue) {
-                return null;
-              }
-              const tagsValue =
-                typeof record.tags === 'string'
-                  ? record.tags
-                      .split(',')
-                      .map((value) => value.trim())
-                      .filter(Boolean)
-                  : [];
-              return {
-                stationuuid:
-                  typeof record.stationuuid === 'string' ? record.stationuuid : undefined,
-                name: nameValue,
-                country: typeof record.country === 'string' ? record.country : 'Unknown',
-                tags: tagsValue,
-                url: urlValue,
-                codec: typeof record.codec === 'string' ? record.codec : undefined,
-                bitrate: typeof record.bitrate === 'number' ? record.bitrate : undefined
-              } satisfies SearchStation;
-            })
-            .filter((item): item is SearchStation => Boolean(item))
-        : [];
-      setSearchResults(results);
-      updateSearchCache(key, results);
-    } catch (err) {
-      if (controller.signal.aborted) {
-        return;
-      }
-      console.error('Radio Browser search failed', err);
-      setSearchResults([]);
-      setSearchError(
-        'We could not reach the Radio Browser service. Please check your connection and try again.'
-      );
-    } finally {
-      if (!controller.signal.aborted) {
-        setSearchLoading(false);
-      }
+    setConnection((prev) => ({ ...prev, status: 'failed', reason: message }));
+    setError(message);
+    const next = playerSettings.failoverToFallbacks ? talkKiller.nextFallback() : null;
+    if (next) {
+      console.log('[Player] Retries exhausted, failing over to:', next.name);
+      tuneTo(fallbackToPlayable(next));
     }
-  }, [updateSearchCache]);
+  };
 
-  useEffect(() => {
-    const timeout = window.setTimeout(() => {
-      performSearch(searchQuery, searchCountry, searchTag);
-    }, 400);
-    return () => {
-      window.clearTimeout(timeout);
-    };
-  }, [performSearch, searchQuery, searchCountry, searchTag]);
+  handleStreamFailureRef.current = handleStreamFailure;
 
-  const triggerAutoSwitch = () => {
-    const next = nextFallback();
-    if (!next || next === currentId) {
-      return;
+  const tuneTo = (station: PlayableStation, autoPlay = true) => {
+    if (station.id) {
+      setCurrentId(station.id);
+    } else {
+      setCurrentId('');
+      setCurrentStation(station);
+    }
+    if (autoPlay) {
+      setAutoPlayNext(true);
     }
-    console.log('[Talk Killer] Switching to fallback station:', next);
-    setCurrentId(next);
   };
 
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!settings.enabled || !audio || !isPlaying) {
-      if (intervalRef.current) {
-        window.clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+  /** Steps through favourites, or the fallback list when there are none. */
+  const cycleStation = (direction: 1 | -1) => {
+    const list = lists.favourites.length > 0 ? lists.favourites : lists.fallbacks;
+    if (list.length === 0) {
       return;
     }
+    const playables = list.map(fallbackToPlayable);
+    const index = playables.findIndex((station) => getStationKey(station) === profileKey);
+    const nextIndex =
+      index === -1
+        ? direction === 1
+          ? 0
+          : playables.length - 1
+        : (index + direction + playables.length) % playables.length;
+    tuneTo(playables[nextIndex]);
+  };
 
-    const setupAudioGraph = () => {
-      if (!audioContextRef.current) {
-        audioContextRef.current = new AudioContext();
-      }
-      const audioContext = audioContextRef.current;
-      if (!sourceRef.current) {
-        sourceRef.current = audioContext.createMediaElementSource(audio);
-      }
-      if (!analyserRef.current) {
-        const analyser = audioContext.createAnalyser();
-        analyser.fftSize = 2048;
-        analyserRef.current = analyser;
-        sourceRef.current.connect(analyser);
-        analyser.connect(audioContext.destination);
-      }
-    };
+  useMediaSession(
+    {
+      play,
+      pause,
+      stop: pause,
+      next: () => cycleStation(1),
+      previous: () => cycleStation(-1)
+    },
+    currentStation,
+    nowPlaying,
+    isPlaying
+  );
 
-    try {
-      setupAudioGraph();
-    } catch (err) {
-      console.warn('Talk Killer disabled: unable to analyze this stream.', err);
-      setAnalysisBlocked(true);
-      return;
-    }
+  const stationChoices: StationChoice[] = [
+    ...stations.map((station) => ({ key: station.id, name: station.name, group: 'Stations' })),
+    ...lists.favourites
+      .filter((station) => !station.localId)
+      .map((station) => ({ key: station.key, name: station.name, group: 'Favourites' }))
+  ];
+
+  /** Looks up a `StationChoice` key among local stations and favourites. */
+  const findChosenStation = (key: string): PlayableStation | null => {
+    const local = stations.find((station) => station.id === key);
+    const favourite = lists.favourites.find((station) => station.key === key);
+    return local ?? (favourite ? fallbackToPlayable(favourite) : null);
+  };
 
-    const analyser = analyserRef.current;
-    const audioContext = audioContextRef.current;
-    if (!analyser || !audioContext) {
-      return;
-    }
+  const timers = useTimers({
+    findStation: findChosenStation,
+    currentKey: profileKey,
+    isPlaying,
+    tuneTo,
+    onSleep: pause,
+    onError: setError
+  });
 
-    const dataArray = new Uint8Array(analyser.frequencyBinCount);
-    const nyquist = audioContext.sampleRate / 2;
-    const startIndex = Math.floor((300 / nyquist) * dataArray.length);
-    const endIndex = Math.min(
-      dataArray.length - 1,
-      Math.floor((3000 / nyquist) * dataArray.length)
-    );
-
-    intervalRef.current = window.setInterval(() => {
-      if (!analyserRef.current) {
-        return;
-      }
-      try {
-        analyserRef.current.getByteFrequencyData(dataArray);
-      } catch (err) {
-        console.warn('Talk Killer disabled: analyzer blocked by stream.', err);
-        setAnalysisBlocked(true);
-        if (intervalRef.current) {
-          window.clearInterval(intervalRef.current);
-          intervalRef.current = null;
-        }
-        return;
-      }
+  useEffect(() => {
+    getPlayer()?.setVolume(volume * timers.volumeFactor);
+  }, [volume, timers.volumeFactor]);
+
+  const talkKiller = useTalkKiller(playerRef, {
+    station: currentStation,
+    stationKey: profileKey,
+    isPlaying,
+    fallbacks: lists.fallbacks,
+    fallbackKeys: timers.activeSlot?.fallbackKeys ?? [],
+    tuneTo,
+    onSwitchedAway: trackHistory.markSwitchedAway,
+    onAnalysisBlocked: () => setAnalysisBlocked(true)
+  });
 
-      const total = dataArray.reduce((acc, value) => acc + value, 0);
-      const mid = dataArray
-        .slice(startIndex, endIndex)
-        .reduce((acc, value) => acc + value, 0);
-      const score = total === 0 ? 0 : mid / total;
-      setSpeechScore(score);
-      const isSpeech = score >= settings.sensitivity;
-      setSpeechLabel(isSpeech ? 'Speech-ish' : 'Music');
-
-      const step = 0.2;
-      if (isSpeech) {
-        speechSecondsRef.current += step;
-      } else {
-        speechSecondsRef.current = 0;
-      }
+  const recorder = useRecorder(playerRef, {
+    stationName: currentStation?.name ?? null,
+    nowPlaying,
+    isPlaying,
+    analysisBlocked,
+    splitOnTitleChange: playerSettings.splitRecordingsOnTitle ?? false
+  });
 
-      if (speechSecondsRef.current >= settings.speechSeconds) {
-        const now = Date.now();
-        if (now - lastSwitchRef.current >= settings.cooldownSeconds * 1000) {
-          lastSwitchRef.current = now;
-          speechSecondsRef.current = 0;
-          triggerAutoSwitch();
-        }
+  const effects = useAudioEffects(playerRef, {
+    station: currentStation,
+    stationKey: profileKey,
+    isPlaying,
+    analysisBlocked
+  });
+
+  const timeShiftMinutes = playerSettings.timeShiftMinutes ?? defaultPlayerSettings.timeShiftMinutes;
+  const timeShift = useTimeShift(playerRef, timeShiftMinutes, isPlaying);
+
+
+  const shortcuts = useShortcuts({
+    playPause: () => (isPlaying ? pause() : play()),
+    volumeUp: () => setVolume((prev) => Math.min(1, Math.round((prev + 0.05) * 100) / 100)),
+    volumeDown: () => setVolume((prev) => Math.max(0, Math.round((prev - 0.05) * 100) / 100)),
+    nextFavourite: () => cycleStation(1),
+    previousFavourite: () => cycleStation(-1),
+    toggleTalkKiller: () => talkKiller.setSettings((prev) => ({ ...prev, enabled: !prev.enabled })),
+    toggleFallback: () => {
+      if (currentStation) {
+        lists.togglePlayableFallback(currentStation);
       }
-    }, 200);
+    },
+    focusSearch: () => {
+      setStationBrowserMode('search');
+      // The search form is not rendered in browse mode; focus once it is.
+      window.requestAnimationFrame(() => searchInputRef.current?.focus());
+    },
+    commandPalette: () => setPaletteOpen((prev) => !prev)
+  });
 
-    audioContext.resume().catch(() => undefined);
+  const backup = useBackup({
+    favourites: [lists.favourites, lists.setFavourites],
+    fallbacks: [lists.fallbacks, lists.setFallbacks],
+    customStations: [catalog.customStations, catalog.setCustomStations],
+    settings: [talkKiller.settings, talkKiller.setSettings],
+    talkKillerProfiles: [talkKiller.profiles, talkKiller.setProfiles],
+    player: [playerSettings, setPlayerSettings],
+    effects: [effects.effectsSettings, effects.setEffectsSettings],
+    effectsProfiles: [effects.effectsProfiles, effects.setEffectsProfiles],
+    shortcuts: [shortcuts.shortcutOverrides, shortcuts.setShortcutOverrides],
+    alarm: [timers.alarm, timers.setAlarm],
+    schedule: [timers.schedule, timers.setSchedule],
+    searchFilters: [search.searchFilters, search.setSearchFilters],
+    searchCache: [search.searchCache, search.setSearchCache]
+  });
 
-    return () => {
-      if (intervalRef.current) {
-        window.clearInterval(intervalRef.current);
-        intervalRef.current = null;
+  const buildPaletteItems = () => {
+    const items: PaletteItem[] = [];
+    const seen = new Set<string>();
+    const push = (item: PaletteItem) => {
+      if (!seen.has(item.key)) {
+        seen.add(item.key);
+        items.push(item);
       }
     };
-  }, [settings.enabled, settings.sensitivity, settings.speechSeconds, settings.cooldownSeconds, isPlaying, currentId, fallbacks]);
-
-  const handleSearchSubmit = (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    performSearch(searchQuery, searchCountry, searchTag);
+    lists.favourites.forEach((station) => {
+      const playable = fallbackToPlayable(station);
+      push({
+        key: getStationKey(playable),
+        label: station.name,
+        detail: [station.country, station.tags?.join(', ')].filter(Boolean).join(' • '),
+        group: 'Favourite',
+        run: () => tuneTo(playable)
+      });
+    });
+    stations.forEach((station) => {
+      push({
+        key: station.id,
+        label: station.name,
+        detail: `${station.country} • ${station.tags.join(', ')}`,
+        group: 'Station',
+        run: () => tuneTo(station)
+      });
+    });
+    search.searchCache
+      .flatMap((entry) => entry.results)
+      .forEach((station) => {
+        push({
+          key: getStationKey(station),
+          label: station.name,
+          detail: [station.country, station.tags.join(', ')].filter(Boolean).join(' • '),
+          group: 'Radio Browser',
+          run: () => playSearchStation(station)
+        });
+      });
+    return items;
   };
 
+  const renderSearchStation = (station: SearchStation) => (
+    <StationCard
+      key={getFavouriteKey(station)}
+      station={station}
+      isFavourite={lists.isFavourite(getFavouriteKey(station))}
+      isFallback={lists.isFallback(getStationKey(station))}
+      voteMessage={station.stationuuid ? search.voteMessages[station.stationuuid] : undefined}
+      onPlay={playSearchStation}
+      onFavourite={lists.addSearchFavourite}
+      onFallback={lists.addSearchFallback}
+      onVote={search.voteForStation}
+    />
+  );
+
   const playSearchStation = (station: SearchStation) => {
+    if (station.stationuuid) {
+      radioBrowser.click(station.stationuuid).catch((err) => {
+        console.warn('[Radio Browser] Click report failed', err);
+      });
+    }
     const playable: PlayableStation = {
+      stationuuid: station.stationuuid,
       name: station.name,
       country: station.country,
       tags: station.tags,
@@ -759,30 +672,13 @@ function App() {
     setAutoPlayNext(true);
   };
 
-  const addSearchFavourite = (station: SearchStation) => {
-    const key = getFavouriteKey(station);
-    if (!key) {
-      return;
-    }
-    addFavourite({
-      key,
-      name: station.name,
-      country: station.country,
-      tags: station.tags,
-      url: station.url,
-      codec: station.codec,
-      bitrate: station.bitrate,
-      stationuuid: station.stationuuid,
-      source: 'search'
-    });
-  };
-
   const playFavourite = (station: FavouriteStation) => {
     if (station.localId) {
       setCurrentId(station.localId);
       return;
     }
     const playable: PlayableStation = {
+      stationuuid: station.stationuuid,
       name: station.name,
       country: station.country,
       tags: station.tags,
@@ -794,6 +690,8 @@ function App() {
     setCurrentStation(playable);
   };
 
+  const { recentSwitch, speechFeatures } = talkKiller;
+
   return (
     <div className="app">
       <header className="header">
@@ -802,84 +700,180 @@ function App() {
           <p className="tagline">World radio with Talk Killer.</p>
         </div>
         <div className="player-status">
+          {(nowPlaying?.artworkUrl || currentStation?.logo) && (
+            <img
+              className="artwork"
+              src={nowPlaying?.artworkUrl || currentStation?.logo}
+              alt=""
+              loading="lazy"
+            />
+          )}
           <span className="label">Now tuned:</span>
           <strong>{currentStation?.name ?? 'Select a station'}</strong>
-          <span className="meta">{metadata ?? 'Metadata not available'}</span>
+          <span className="meta">
+            {nowPlaying
+              ? formatNowPlaying(nowPlaying)
+              : (buildStationMetadata(currentStation) ?? 'Metadata not available')}
+          </span>
+          {nowPlaying?.album && <span className="meta album">{nowPlaying.album}</span>}
         </div>
       </header>
 
       <main className="content">
         <section className="station-browser">
-          <h2>Search stations</h2>
-          <form className="search-form" onSubmit={handleSearchSubmit}>
-            <div className="search-fields">
-              <input
-                type="search"
-                placeholder="Search stations by name"
-                value={searchQuery}
-                onChange={(event) => setSearchQuery(event.target.value)}
-              />
-              <input
-                type="text"
-                placeholder="Country (optional)"
-                value={searchCountry}
-                onChange={(event) => setSearchCountry(event.target.value)}
-              />
-              <input
-                type="text"
-                placeholder="Tag (optional)"
-                value={searchTag}
-                onChange={(event) => setSearchTag(event.target.value)}
-              />
-              <button type="submit" disabled={searchLoading}>
-                {searchLoading ? 'Searching...' : 'Search'}
-              </button>
+          <div className="browser-mode">
+            <h2>{stationBrowserMode === 'search' ? 'Search stations' : 'Browse stations'}</h2>
+            <div className="mode-toggle" role="group" aria-label="Find stations">
+              {(['search', 'browse'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  className={stationBrowserMode === mode ? 'active' : ''}
+                  aria-pressed={stationBrowserMode === mode}
+                  onClick={() => setStationBrowserMode(mode)}
+                >
+                  {mode === 'search' ? 'Search' : 'Browse'}
+                </button>
+              ))}
             </div>
-            <p className="hint">Type a name and press Enter, or wait a moment for auto-search.</p>
-          </form>
-          {searchError && <div className="error">{searchError}</div>}
-          {!searchError && searchQuery.trim() && !searchLoading && searchResults.length === 0 && (
-            <div className="empty">No stations found yet. Try adjusting your search.</div>
-          )}
-          {searchLoading && <div className="loading">Loading stations...</div>}
-          <div className="search-results">
-            {searchResults.map((station) => {
-              const isFavourite = normalizedFavourites.some(
-                (item) => item.key === getFavouriteKey(station)
-              );
-              return (
-                <div key={getFavouriteKey(station)} className="search-card">
-                  <div className="search-card__header">
-                    <div>
-                      <strong>{station.name}</strong>
-                      <div className="search-meta">
-                        <span>{station.country}</span>
-                        <span>{station.tags.length ? station.tags.join(', ') : 'No tags'}</span>
-                      </div>
-                    </div>
-                    <span className="codec">
-                      {[station.codec, station.bitrate ? `${station.bitrate} kbps` : null]
-                        .filter(Boolean)
-                        .join(' • ') || 'Codec/bitrate N/A'}
-                    </span>
-                  </div>
-                  <div className="search-actions">
-                    <button type="button" onClick={() => playSearchStation(station)}>
-                      Play
-                    </button>
-                    <button
-                      type="button"
-                      className={isFavourite ? 'secondary' : ''}
-                      onClick={() => addSearchFavourite(station)}
-                      disabled={isFavourite}
+          </div>
+          {stationBrowserMode === 'browse' ? (
+            <BrowsePanel
+              client={radioBrowser}
+              getStationKey={getFavouriteKey}
+              renderStation={renderSearchStation}
+            />
+          ) : (
+            <>
+              <form className="search-form" onSubmit={search.handleSearchSubmit}>
+                <div className="search-fields">
+                  <input
+                    type="search"
+                    ref={searchInputRef}
+                    placeholder="Search stations by name"
+                    value={search.searchQuery}
+                    onChange={(event) => search.setSearchQuery(event.target.value)}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Country (optional)"
+                    value={search.searchCountry}
+                    onChange={(event) => search.setSearchCountry(event.target.value)}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Tag (optional)"
+                    value={search.searchTag}
+                    onChange={(event) => search.setSearchTag(event.target.value)}
+                  />
+                  <button type="submit" disabled={search.searchLoading}>
+                    {search.searchLoading ? 'Searching...' : 'Search'}
+                  </button>
+                </div>
+                <div className="search-options">
+                  <label>
+                    Sort
+                    <select
+                      value={search.searchRequest.order}
+                      onChange={(event) =>
+                        search.updateSearchFilters({
+                          order: event.target.value as RadioBrowserOrder
+                        })
+                      }
                     >
-                      {isFavourite ? 'In favourites' : 'Add to favourites'}
-                    </button>
-                  </div>
+                      {(Object.keys(searchOrderLabels) as RadioBrowserOrder[]).map((order) => (
+                        <option key={order} value={order}>
+                          {searchOrderLabels[order]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    Codec
+                    <select
+                      value={search.searchRequest.codec}
+                      onChange={(event) =>
+                        search.updateSearchFilters({ codec: event.target.value })
+                      }
+                    >
+                      <option value="">Any</option>
+                      {searchCodecs.map((codec) => (
+                        <option key={codec} value={codec}>
+                          {codec}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    Bitrate
+                    <select
+                      value={search.searchRequest.bitrateMin}
+                      onChange={(event) =>
+                        search.updateSearchFilters({ bitrateMin: Number(event.target.value) })
+                      }
+                    >
+                      <option value={0}>Any</option>
+                      {searchBitrates.map((bitrate) => (
+                        <option key={bitrate} value={bitrate}>
+                          {bitrate}+ kbps
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="Language (optional)"
+                    value={search.searchRequest.language}
+                    onChange={(event) =>
+                      search.updateSearchFilters({ language: event.target.value })
+                    }
+                  />
+                  <label className="toggle">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(search.searchRequest.tagExact)}
+                      onChange={(event) =>
+                        search.updateSearchFilters({ tagExact: event.target.checked })
+                      }
+                    />
+                    Exact tag
+                  </label>
+                  <label className="toggle">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(search.searchRequest.httpsOnly)}
+                      onChange={(event) =>
+                        search.updateSearchFilters({ httpsOnly: event.target.checked })
+                      }
+                    />
+                    HTTPS only
+                  </label>
                 </div>
-              );
-            })}
-          </div>
+                <p className="hint">
+                  Type a name and press Enter, or wait a moment for auto-search.
+                </p>
+              </form>
+              {search.searchError && <div className="error">{search.searchError}</div>}
+              {!search.searchError &&
+                hasSearchTerms(search.searchRequest) &&
+                !search.searchLoading &&
+                search.searchResults.length === 0 && (
+                  <div className="empty">No stations found yet. Try adjusting your search.</div>
+                )}
+              {search.searchLoading && <div className="loading">Loading stations...</div>}
+              <div className="search-results">{search.searchResults.map(renderSearchStation)}</div>
+              {search.searchHasMore && !search.searchError && (
+                <button
+                  type="button"
+                  className="secondary load-more"
+                  disabled={search.searchLoading}
+                  onClick={search.loadMore}
+                >
+                  {search.searchLoading ? 'Loading...' : 'Load more'}
+                </button>
+              )}
+            </>
+          )}
 
           <h2>Station directory</h2>
           <div className="filters">
@@ -908,46 +902,61 @@ function App() {
           </div>
 
           <div className="station-list">
-            {filteredStations.map((station) => (
-              <button
-                key={station.id}
-                type="button"
-                className={`station-card ${station.id === currentId ? 'active' : ''}`}
-                onClick={() => setCurrentId(station.id)}
-              >
-                <div className="station-title">
-                  <span>{station.name}</span>
-                  <span className="codec">{station.codec}</span>
-                </div>
-                <div className="station-meta">
-                  <span>{station.country}</span>
-                  <span>{station.tags.join(', ')}</span>
-                </div>
-                <div className="station-actions">
-                  <span
-                    className={`pill ${
-                      normalizedFavourites.some((item) => item.key === station.id) ? 'active' : ''
-                    }`}
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      toggleFavourite(station);
-                    }}
-                  >
-                    ★ Favourite
-                  </span>
-                  <span
-                    className={`pill ${fallbacks.includes(station.id) ? 'active' : ''}`}
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      toggleFallback(station.id);
-                    }}
+            {filteredStations.map((station) => {
+              const isFavourite = lists.isFavourite(station.id);
+              const isStationFallback = lists.isFallback(station.id);
+              return (
+                <div
+                  key={station.id}
+                  className={`station-card ${station.id === currentId ? 'active' : ''}`}
+                >
+                  <button
+                    type="button"
+                    className="station-select"
+                    onClick={() => setCurrentId(station.id)}
                   >
-                    ↻ Fallback
-                  </span>
+                    <div className="station-title">
+                      {station.logo && (
+                        <img className="station-logo" src={station.logo} alt="" loading="lazy" />
+                      )}
+                      <span>{station.name}</span>
+                      <HealthBadge health={stationHealth(getStreamUrls(station), streamHealth)} />
+                      <span className="codec">{station.codec}</span>
+                    </div>
+                    <div className="station-meta">
+                      <span>{station.country}</span>
+                      <span>{station.tags.join(', ')}</span>
+                    </div>
+                  </button>
+                  <div className="station-actions">
+                    <button
+                      type="button"
+                      className={`pill ${isFavourite ? 'active' : ''}`}
+                      aria-pressed={isFavourite}
+                      onClick={() => lists.toggleFavourite(station)}
+                    >
+                      ★ Favourite
+                    </button>
+                    <button
+                      type="button"
+                      className={`pill ${isStationFallback ? 'active' : ''}`}
+                      aria-pressed={isStationFallback}
+                      onClick={() => lists.toggleFallback(station)}
+                    >
+                      ↻ Fallback
+                    </button>
+                  </div>
                 </div>
-              </button>
-            ))}
+              );
+            })}
           </div>
+          <StationEditor
+            customStations={catalog.validCustomStations}
+            bundledIds={bundledIds}
+            issues={catalog.catalogIssues}
+            onSave={catalog.saveCustomStation}
+            onDelete={catalog.deleteCustomStation}
+          />
         </section>
 
         <section className="player-panel">
@@ -967,21 +976,137 @@ function App() {
                 onChange={(event) => setVolume(parseFloat(event.target.value))}
               />
             </label>
+            <label className="volume">
+              Crossfade (s)
+              <input
+                type="number"
+                min={0}
+                max={15}
+                step={0.5}
+                value={playerSettings.crossfadeSeconds}
+                onChange={(event) =>
+                  setPlayerSettings({
+                    ...playerSettings,
+                    crossfadeSeconds: Number(event.target.value)
+                  })
+                }
+              />
+            </label>
+            <label className="toggle">
+              <input
+                type="checkbox"
+                checked={playerSettings.failoverToFallbacks ?? false}
+                onChange={(event) =>
+                  setPlayerSettings({
+                    ...playerSettings,
+                    failoverToFallbacks: event.target.checked
+                  })
+                }
+              />
+              Fail over to fallbacks
+            </label>
           </div>
           {error && <div className="error">{error}</div>}
-          <audio ref={audioRef} preload="none" />
+          {connectionSummary && <div className="connection-status">{connectionSummary}</div>}
+          {talkKiller.awayFrom && (
+            <div className="away-banner">
+              <span>
+                Away from <strong>{talkKiller.awayFrom.name}</strong> because of talk, returning
+                when music resumes.
+              </span>
+              <button type="button" className="ghost" onClick={() => talkKiller.returnHome(true)}>
+                Return now
+              </button>
+              <button type="button" className="ghost" onClick={talkKiller.stayHere}>
+                Stay here
+              </button>
+            </div>
+          )}
+          {talkKiller.awayFrom && talkKiller.homeMonitorError && (
+            <div className="warning">{talkKiller.homeMonitorError}</div>
+          )}
+          {recentSwitch && (
+            <div className="switch-notice">
+              <span>
+                Talk Killer left <strong>{recentSwitch.fromName}</strong> after{' '}
+                {Math.round(recentSwitch.speechSeconds)} s of speech (score{' '}
+                {recentSwitch.score.toFixed(2)}).
+              </span>
+              <button
+                type="button"
+                className="ghost"
+                onClick={() => talkKiller.reportMusicFeedback(recentSwitch)}
+              >
+                That was music
+              </button>
+            </div>
+          )}
+          <TimeShiftPanel
+            status={timeShift.status}
+            minutes={timeShiftMinutes}
+            disabledReason={timeShift.status ? null : 'Start playback to fill the rewind buffer.'}
+            warning={
+              analysisBlocked
+                ? 'This station does not allow capture (CORS restrictions); the buffer holds silence for it.'
+                : null
+            }
+            onMinutesChange={(minutes) =>
+              setPlayerSettings({ ...playerSettings, timeShiftMinutes: minutes })
+            }
+            onPause={timeShift.pause}
+            onResume={timeShift.resume}
+            onSkip={timeShift.skip}
+            onSeekBehind={timeShift.seekBehind}
+            onLive={timeShift.goLive}
+          />
+          <RecorderPanel
+            progress={recorder.progress}
+            recordings={recorder.recordings}
+            splitOnTitleChange={playerSettings.splitRecordingsOnTitle ?? false}
+            disabledReason={recorder.disabledReason}
+            warning={recorder.warning}
+            onStart={recorder.start}
+            onStop={recorder.stop}
+            onSplitChange={(split) =>
+              setPlayerSettings({ ...playerSettings, splitRecordingsOnTitle: split })
+            }
+            onClear={recorder.clear}
+          />
+          <TimersPanel
+            now={timers.clock}
+            sleepTimer={timers.sleepTimer}
+            onStartSleep={timers.startSleepTimer}
+            onCancelSleep={timers.cancelSleepTimer}
+            alarm={timers.alarm}
+            nextAlarmAt={timers.nextAlarmAt}
+            stationOptions={stationChoices}
+            onAlarmChange={timers.updateAlarm}
+          />
+          <audio ref={deckARef} preload="none" />
+          <audio ref={deckBRef} preload="none" />
+
+          <BackupPanel
+            client={radioBrowser}
+            stations={stations}
+            getBackupData={backup.getBackupData}
+            onRestore={backup.restoreBackup}
+            onImportFavourites={lists.importFavourites}
+          />
 
           <div className="lists">
             <div>
               <h3>Favourites</h3>
               <ul>
-                {normalizedFavourites.length === 0 && (
+                {lists.favourites.length === 0 && (
                   <li className="empty">No favourites yet.</li>
                 )}
-                {normalizedFavourites.map((station) => (
+                {lists.favourites.map((station) => (
                   <li key={station.key} className="favourite-item">
                     <button type="button" onClick={() => playFavourite(station)}>
                       {station.name}
+                      <HealthBadge
+                        health={stationHealth(lists.favouriteStreamUrls(station), streamHealth)}
+                      />
                       {station.country && (
                         <span className="subtle">
                           {station.country}
@@ -994,7 +1119,15 @@ function App() {
                     <button
                       type="button"
                       className="ghost"
-                      onClick={() => removeFavourite(station.key)}
+                      onClick={() => lists.addFavouriteFallback(station)}
+                      disabled={lists.isFallback(station.key)}
+                    >
+                      Fallback
+                    </button>
+                    <button
+                      type="button"
+                      className="ghost"
+                      onClick={() => lists.removeFavourite(station.key)}
                     >
                       Remove
                     </button>
@@ -1005,14 +1138,40 @@ function App() {
             <div>
               <h3>Fallback list</h3>
               <ul>
-                {fallbacks.length === 0 && <li className="empty">No fallback stations set.</li>}
-                {fallbacks.map((id) => {
-                  const station = stations.find((item) => item.id === id);
-                  if (!station) return null;
+                {lists.fallbacks.length === 0 && (
+                  <li className="empty">No fallback stations set.</li>
+                )}
+                {lists.fallbacks.map((station) => {
+                  const status = describeObservation(talkKiller.observations[station.key]);
                   return (
-                    <li key={id}>
-                      <button type="button" onClick={() => setCurrentId(id)}>
+                    <li key={station.key} className="favourite-item">
+                      <button
+                        type="button"
+                        onClick={() => tuneTo(fallbackToPlayable(station), false)}
+                      >
                         {station.name}
+                        {status && <span className="subtle">{status}</span>}
+                      </button>
+                      <select
+                        className="weight"
+                        title="Weight"
+                        value={station.weight}
+                        onChange={(event) =>
+                          lists.setFallbackWeight(station.key, Number(event.target.value))
+                        }
+                      >
+                        {[1, 2, 3, 4, 5].map((weight) => (
+                          <option key={weight} value={weight}>
+                            ×{weight}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        className="ghost"
+                        onClick={() => lists.removeFallback(station.key)}
+                      >
+                        Remove
                       </button>
                     </li>
                   );
@@ -1027,13 +1186,8 @@ function App() {
               <label className="toggle">
                 <input
                   type="checkbox"
-                  checked={settings.enabled}
-                  onChange={(event) =>
-                    setSettings({
-                      ...settings,
-                      enabled: event.target.checked
-                    })
-                  }
+                  checked={talkKiller.settings.enabled}
+                  onChange={(event) => talkKiller.updateSettings({ enabled: event.target.checked })}
                 />
                 Enabled
               </label>
@@ -1043,6 +1197,28 @@ function App() {
                 Talk Killer disabled for this station due to stream restrictions.
               </div>
             )}
+            <div className="profile-bar">
+              <span>
+                Profile:{' '}
+                <strong>
+                  {talkKiller.activeProfile ? talkKiller.activeProfile.name : 'Global defaults'}
+                </strong>
+              </span>
+              {currentStation &&
+                (talkKiller.activeProfile ? (
+                  <button type="button" className="ghost" onClick={talkKiller.resetStationProfile}>
+                    Reset to global defaults
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={talkKiller.customiseStationProfile}
+                  >
+                    Customise for this station
+                  </button>
+                ))}
+            </div>
             <div className="settings-grid">
               <label>
                 Speech seconds
@@ -1050,10 +1226,9 @@ function App() {
                   type="number"
                   min={2}
                   max={20}
-                  value={settings.speechSeconds}
+                  value={talkKiller.tuning.speechSeconds}
                   onChange={(event) =>
-                    setSettings({
-                      ...settings,
+                    talkKiller.updateTuning({
                       speechSeconds: Number(event.target.value)
                     })
                   }
@@ -1066,10 +1241,9 @@ function App() {
                   min={0}
                   max={1}
                   step={0.05}
-                  value={settings.sensitivity}
+                  value={talkKiller.tuning.sensitivity}
                   onChange={(event) =>
-                    setSettings({
-                      ...settings,
+                    talkKiller.updateTuning({
                       sensitivity: Number(event.target.value)
                     })
                   }
@@ -1081,25 +1255,163 @@ function App() {
                   type="number"
                   min={5}
                   max={60}
-                  value={settings.cooldownSeconds}
+                  value={talkKiller.tuning.cooldownSeconds}
                   onChange={(event) =>
-                    setSettings({
-                      ...settings,
+                    talkKiller.updateTuning({
                       cooldownSeconds: Number(event.target.value)
                     })
                   }
                 />
               </label>
             </div>
+            <div className="return-home">
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={talkKiller.tuning.returnHome}
+                  onChange={(event) =>
+                    talkKiller.updateSettings({ returnHome: event.target.checked })
+                  }
+                />
+                Return home when music resumes
+              </label>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={talkKiller.tuning.matchFallbackTags}
+                  onChange={(event) =>
+                    talkKiller.updateSettings({ matchFallbackTags: event.target.checked })
+                  }
+                />
+                Prefer fallbacks with matching tags
+              </label>
+              <label>
+                Music before returning (s)
+                <input
+                  type="number"
+                  min={5}
+                  max={300}
+                  value={talkKiller.tuning.returnAfterMusicSeconds}
+                  disabled={!talkKiller.tuning.returnHome}
+                  onChange={(event) =>
+                    talkKiller.updateSettings({
+                      returnAfterMusicSeconds: Number(event.target.value)
+                    })
+                  }
+                />
+              </label>
+            </div>
+            <div className="calibration">
+              {talkKiller.calibratingKey && talkKiller.calibratingKey === profileKey ? (
+                <>
+                  <span>
+                    Calibrating {currentStation?.name} for {talkKiller.calibrationMinutes} min…
+                  </span>
+                  <button type="button" className="ghost" onClick={talkKiller.cancelCalibration}>
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <>
+                  <label>
+                    Calibrate for
+                    <input
+                      type="number"
+                      min={1}
+                      max={15}
+                      value={talkKiller.calibrationMinutes}
+                      onChange={(event) =>
+                        talkKiller.setCalibrationMinutes(Number(event.target.value))
+                      }
+                    />
+                    min
+                  </label>
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={talkKiller.startCalibration}
+                    disabled={!isPlaying || !talkKiller.settings.enabled || analysisBlocked}
+                  >
+                    Start calibration
+                  </button>
+                </>
+              )}
+              {talkKiller.activeProfile?.calibration && (
+                <span>
+                  Proposed sensitivity{' '}
+                  {talkKiller.activeProfile.calibration.proposedSensitivity.toFixed(2)}{' '}
+                  <span className="subtle">
+                    recorded{' '}
+                    {new Date(talkKiller.activeProfile.calibration.recordedAt).toLocaleString()}
+                  </span>
+                  <button type="button" className="ghost" onClick={talkKiller.applyCalibration}>
+                    Apply
+                  </button>
+                </span>
+              )}
+            </div>
             <div className="debug">
-              <span>Speech score: {speechScore.toFixed(2)}</span>
-              <span className={speechLabel === 'Speech-ish' ? 'speech' : 'music'}>
-                {speechLabel}
+              <span>Speech score: {talkKiller.speechScore.toFixed(2)}</span>
+              <span className={talkKiller.speechLabel === 'Speech-ish' ? 'speech' : 'music'}>
+                {talkKiller.speechLabel}
               </span>
             </div>
+            <SpeechVisualizer
+              analyserRef={talkKiller.analyserRef}
+              score={talkKiller.speechScore}
+              threshold={talkKiller.tuning.sensitivity}
+              switches={talkKiller.autoSwitches}
+            />
+            {speechFeatures && (
+              <ul className="feature-meter">
+                {(Object.keys(speechFeatureLabels) as (keyof SpeechFeatures)[]).map((key) => (
+                  <li key={key}>
+                    <span>{speechFeatureLabels[key]}</span>
+                    <meter min={0} max={1} value={speechFeatures[key]} />
+                    <span>{speechFeatures[key].toFixed(2)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
+
+          <TalkKillerLogPanel
+            log={talkKiller.talkLog}
+            onMusicFeedback={talkKiller.reportMusicFeedback}
+            onClear={talkKiller.clearLog}
+          />
+
+          <EffectsPanel
+            settings={effects.resolvedEffects}
+            profileName={effects.activeProfile?.name ?? null}
+            canCustomise={Boolean(currentStation && profileKey)}
+            measuredLoudness={effects.measuredLoudness}
+            bypassed={analysisBlocked}
+            onChange={effects.updateEffects}
+            onCustomise={effects.customiseStationEffects}
+            onReset={effects.resetStationEffects}
+          />
+
+          <ScheduleEditor
+            schedule={timers.schedule}
+            activeSlotId={timers.activeSlot?.id ?? null}
+            stationChoices={stationChoices}
+            fallbackChoices={lists.fallbacks.map(({ key, name }) => ({ key, name }))}
+            onChange={timers.setSchedule}
+          />
+
+          <TrackHistoryPanel version={trackHistory.version} />
+
+          <ShortcutSettings
+            bindings={shortcuts.bindings}
+            onChange={shortcuts.updateShortcut}
+            onReset={() => shortcuts.setShortcutOverrides({})}
+          />
         </section>
       </main>
+      {paletteOpen && (
+        <CommandPalette items={buildPaletteItems()} onClose={() => setPaletteOpen(false)} />
+      )}
     </div>
   );
 }
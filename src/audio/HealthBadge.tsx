@@ -0,0 +1,37 @@
+import type { StationHealth } from './streamHealth';
+
+type HealthBadgeProps = {
+  health: StationHealth | null;
+};
+
+const statusLabels = {
+  ok: 'Online',
+  degraded: 'Degraded',
+  dead: 'Offline'
+};
+
+const describeHealth = ({ probe, deadUrls }: StationHealth) =>
+  [
+    probe.codec,
+    probe.bitrate ? `${probe.bitrate} kbps` : null,
+    probe.latencyMs !== null ? `${probe.latencyMs} ms to first byte` : null,
+    probe.icy.name ? `ICY name: ${probe.icy.name}` : null,
+    ...probe.issues,
+    deadUrls > 0 && probe.status !== 'dead' ? `${deadUrls} mirror(s) down` : null,
+    `Checked ${new Date(probe.checkedAt).toLocaleString()}`
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+function HealthBadge({ health }: HealthBadgeProps) {
+  if (!health) {
+    return null;
+  }
+  return (
+    <span className={`health-badge ${health.status}`} title={describeHealth(health)}>
+      {statusLabels[health.status]}
+    </span>
+  );
+}
+
+export default HealthBadge;
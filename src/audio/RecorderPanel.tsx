@@ -0,0 +1,106 @@
+import type { RecorderProgress } from './recorder';
+
+export type SavedRecording = {
+  filename: string;
+  url: string;
+  bytes: number;
+  seconds: number;
+};
+
+type RecorderPanelProps = {
+  progress: RecorderProgress | null;
+  recordings: SavedRecording[];
+  splitOnTitleChange: boolean;
+  disabledReason: string | null;
+  warning: string | null;
+  onStart: () => void;
+  onStop: () => void;
+  onSplitChange: (split: boolean) => void;
+  onClear: () => void;
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDuration = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+};
+
+function RecorderPanel({
+  progress,
+  recordings,
+  splitOnTitleChange,
+  disabledReason,
+  warning,
+  onStart,
+  onStop,
+  onSplitChange,
+  onClear
+}: RecorderPanelProps) {
+  return (
+    <div className="recorder">
+      <div className="timer-row">
+        <h3>Recorder</h3>
+        {progress ? (
+          <>
+            <span className="recording-dot" aria-hidden="true" />
+            <span className="countdown">
+              {formatDuration(progress.seconds)} • {formatBytes(progress.bytes)}
+              {progress.segments > 0 ? ` • ${progress.segments} saved` : ''}
+            </span>
+            <button type="button" className="ghost" onClick={onStop}>
+              Stop
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            className="ghost"
+            onClick={onStart}
+            disabled={Boolean(disabledReason)}
+            title={disabledReason ?? undefined}
+          >
+            Record
+          </button>
+        )}
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={splitOnTitleChange}
+            onChange={(event) => onSplitChange(event.target.checked)}
+          />
+          New file per track
+        </label>
+      </div>
+      {disabledReason && !progress && <div className="hint">{disabledReason}</div>}
+      {warning && <div className="warning">{warning}</div>}
+      {recordings.length > 0 && (
+        <>
+          <ul className="recordings">
+            {recordings.map((recording) => (
+              <li key={recording.url}>
+                <a href={recording.url} download={recording.filename}>
+                  {recording.filename}
+                </a>
+                <span className="subtle">
+                  {formatDuration(recording.seconds)} • {formatBytes(recording.bytes)}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <button type="button" className="ghost" onClick={onClear}>
+            Clear list
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RecorderPanel;
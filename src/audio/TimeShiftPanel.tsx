@@ -0,0 +1,118 @@
+import { formatCountdown } from '../timers/timers';
+import type { TimeShiftStatus } from './timeShift';
+
+type TimeShiftPanelProps = {
+  status: TimeShiftStatus | null;
+  minutes: number;
+  disabledReason: string | null;
+  warning: string | null;
+  onMinutesChange: (minutes: number) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: (seconds: number) => void;
+  onSeekBehind: (seconds: number) => void;
+  onLive: () => void;
+};
+
+const bufferOptions = [0, 2, 5, 10, 20];
+// 16-bit stereo PCM at 48 kHz.
+const bufferBytesPerMinute = 48000 * 2 * 2 * 60;
+const skipSeconds = 30;
+
+function TimeShiftPanel({
+  status,
+  minutes,
+  disabledReason,
+  warning,
+  onMinutesChange,
+  onPause,
+  onResume,
+  onSkip,
+  onSeekBehind,
+  onLive
+}: TimeShiftPanelProps) {
+  const buffered = Math.floor(status?.bufferedSeconds ?? 0);
+  const behind = Math.min(buffered, Math.round(status?.behindSeconds ?? 0));
+  const isLive = !status || (behind === 0 && !status.paused);
+  const controlsDisabled = !status || Boolean(disabledReason);
+
+  return (
+    <div className="time-shift">
+      <div className="timer-row">
+        <h3>Rewind</h3>
+        <select
+          value={minutes}
+          onChange={(event) => onMinutesChange(Number(event.target.value))}
+          aria-label="Rewind buffer length"
+        >
+          {bufferOptions.map((option) => (
+            <option key={option} value={option}>
+              {option === 0
+                ? 'Off'
+                : `${option} min buffer (~${Math.round((option * bufferBytesPerMinute) / 1e6)} MB)`}
+            </option>
+          ))}
+        </select>
+        {minutes > 0 && (
+          <>
+            <button
+              type="button"
+              className="ghost"
+              disabled={controlsDisabled || behind >= buffered}
+              onClick={() => onSkip(-skipSeconds)}
+            >
+              −{skipSeconds} s
+            </button>
+            <button
+              type="button"
+              className="ghost"
+              disabled={controlsDisabled}
+              onClick={status?.paused ? onResume : onPause}
+            >
+              {status?.paused ? 'Resume' : 'Pause live'}
+            </button>
+            <button
+              type="button"
+              className="ghost"
+              disabled={controlsDisabled || isLive}
+              onClick={() => onSkip(skipSeconds)}
+            >
+              +{skipSeconds} s
+            </button>
+            <button
+              type="button"
+              className="ghost"
+              disabled={controlsDisabled || isLive}
+              onClick={onLive}
+            >
+              Go live
+            </button>
+            <span className={`countdown ${isLive ? 'live' : ''}`}>
+              {isLive ? 'Live' : `−${formatCountdown(behind * 1000)}`}
+            </span>
+          </>
+        )}
+      </div>
+      {minutes > 0 && status && !disabledReason && (
+        <label className="scrubber">
+          <span className="subtle">−{formatCountdown(buffered * 1000)}</span>
+          <input
+            type="range"
+            min={-buffered}
+            max={0}
+            step={1}
+            value={-behind}
+            disabled={buffered === 0}
+            onChange={(event) => onSeekBehind(-Number(event.target.value))}
+            aria-label="Position in the rewind buffer"
+          />
+          <span className="subtle">Live</span>
+        </label>
+      )}
+      {disabledReason && minutes > 0 && <div className="hint">{disabledReason}</div>}
+      {warning && minutes > 0 && <div className="warning">{warning}</div>}
+    </div>
+  );
+}
+
+export default TimeShiftPanel;
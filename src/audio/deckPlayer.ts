@@ -0,0 +1,275 @@
+import { attachStream } from './streamSource';
+
+export type PlayerSettings = {
+  crossfadeSeconds: number;
+  /** Switch to the Talk Killer fallback list once every mirror has failed. */
+  failoverToFallbacks: boolean;
+  /** Start a new recording file whenever the now-playing title changes. */
+  splitRecordingsOnTitle: boolean;
+  /**
+   * Length of the rewind buffer; 0 turns time-shift off. The buffer is raw
+   * 16-bit stereo PCM, about 11.5 MB a minute at 48 kHz, so it is opt-in.
+   */
+  timeShiftMinutes: number;
+};
+
+export const defaultPlayerSettings: PlayerSettings = {
+  crossfadeSeconds: 3,
+  failoverToFallbacks: false,
+  splitRecordingsOnTitle: false,
+  timeShiftMinutes: 0
+};
+
+type Deck = {
+  audio: HTMLAudioElement;
+  detach: () => void;
+  source: MediaElementAudioSourceNode | null;
+  gain: GainNode | null;
+};
+
+export type AudioGraph = {
+  audioContext: AudioContext;
+  /** Both decks summed after the crossfade gains, before the volume. */
+  mix: GainNode;
+  /** Sits between `mix` and `output`; muted while time-shifted audio is heard. */
+  live: GainNode;
+  /** Everything audible, live or time-shifted; the effects chain is inserted after it. */
+  output: GainNode;
+  master: GainNode;
+};
+
+export type DeckPlayerOptions = {
+  /** Reported for the active deck and for a deck that is fading in. */
+  onFatalError: (message: string) => void;
+  /** Called once a crossfade hands playback to the other element. */
+  onActiveChange: (audio: HTMLAudioElement) => void;
+};
+
+export type DeckPlayer = {
+  readonly activeAudio: HTMLAudioElement;
+  readonly graph: AudioGraph | null;
+  ensureGraph: () => AudioGraph;
+  addAnalysisTarget: (node: AudioNode) => void;
+  load: (url: string) => void;
+  crossfadeTo: (url: string, seconds: number) => Promise<void>;
+  setVolume: (volume: number) => void;
+  destroy: () => void;
+};
+
+const playTimeoutMs = 15000;
+
+const stopDeck = (deck: Deck) => {
+  deck.audio.pause();
+  deck.detach();
+  deck.detach = () => undefined;
+  deck.audio.removeAttribute('src');
+  deck.audio.load();
+};
+
+/**
+ * Two audio elements feeding one AudioContext through per-deck GainNodes. The
+ * next station is started on the idle deck and faded in over the active one.
+ * Without an audio graph (before the first play) switches are hard cuts.
+ */
+export const createDeckPlayer = (
+  elements: [HTMLAudioElement, HTMLAudioElement],
+  { onFatalError, onActiveChange }: DeckPlayerOptions
+): DeckPlayer => {
+  const decks: Deck[] = elements.map((audio) => ({
+    audio,
+    detach: () => undefined,
+    source: null,
+    gain: null
+  }));
+  let active = 0;
+  let graph: AudioGraph | null = null;
+  let volume = 1;
+  let generation = 0;
+  let pendingFade: { deck: Deck; timer: number } | null = null;
+  let fadingIn: Deck | null = null;
+  const analysisTargets: AudioNode[] = [];
+
+  const idleDeck = () => decks[1 - active];
+
+  const loadDeck = (deck: Deck, url: string) => {
+    deck.detach();
+    deck.detach = attachStream(deck.audio, url, (message) => {
+      if (deck === decks[active] || deck === fadingIn) {
+        onFatalError(message);
+      }
+    });
+  };
+
+  const connectAnalysis = (deck: Deck, node: AudioNode) => {
+    deck.source?.connect(node);
+  };
+
+  const disconnectAnalysis = (deck: Deck) => {
+    analysisTargets.forEach((node) => {
+      try {
+        deck.source?.disconnect(node);
+      } catch {
+        // Not connected to this deck.
+      }
+    });
+  };
+
+  const finishPendingFade = () => {
+    if (!pendingFade) {
+      return;
+    }
+    window.clearTimeout(pendingFade.timer);
+    stopDeck(pendingFade.deck);
+    pendingFade = null;
+  };
+
+  const setDeckGain = (deck: Deck, value: number) => {
+    if (deck.gain && graph) {
+      deck.gain.gain.cancelScheduledValues(graph.audioContext.currentTime);
+      deck.gain.gain.setValueAtTime(value, graph.audioContext.currentTime);
+    }
+  };
+
+  const ensureGraph = () => {
+    if (graph) {
+      return graph;
+    }
+    const audioContext = new AudioContext();
+    const master = audioContext.createGain();
+    master.gain.value = volume;
+    master.connect(audioContext.destination);
+    const output = audioContext.createGain();
+    output.connect(master);
+    const live = audioContext.createGain();
+    live.connect(output);
+    const mix = audioContext.createGain();
+    mix.connect(live);
+    decks.forEach((deck, index) => {
+      deck.source = audioContext.createMediaElementSource(deck.audio);
+      deck.gain = audioContext.createGain();
+      deck.gain.gain.value = index === active ? 1 : 0;
+      deck.source.connect(deck.gain);
+      deck.gain.connect(mix);
+      deck.audio.volume = 1;
+    });
+    graph = { audioContext, mix, live, output, master };
+    analysisTargets.forEach((node) => connectAnalysis(decks[active], node));
+    return graph;
+  };
+
+  const load = (url: string) => {
+    generation += 1;
+    fadingIn = null;
+    finishPendingFade();
+    const incoming = idleDeck();
+    if (incoming.audio.getAttribute('src') || !incoming.audio.paused) {
+      stopDeck(incoming);
+    }
+    setDeckGain(decks[active], 1);
+    loadDeck(decks[active], url);
+  };
+
+  const crossfadeTo = async (url: string, seconds: number) => {
+    if (!graph || seconds <= 0) {
+      load(url);
+      return;
+    }
+    generation += 1;
+    const current = generation;
+    finishPendingFade();
+    const outgoing = decks[active];
+    const incoming = idleDeck();
+    setDeckGain(incoming, 0);
+    fadingIn = incoming;
+    loadDeck(incoming, url);
+
+    let timeout = 0;
+    try {
+      await Promise.race([
+        incoming.audio.play(),
+        new Promise((_resolve, reject) => {
+          timeout = window.setTimeout(
+            () => reject(new Error('Timed out waiting for the next station')),
+            playTimeoutMs
+          );
+        })
+      ]);
+    } catch (err) {
+      if (current === generation) {
+        fadingIn = null;
+        stopDeck(incoming);
+        throw err;
+      }
+      return;
+    } finally {
+      window.clearTimeout(timeout);
+    }
+    if (current !== generation) {
+      return;
+    }
+
+    const { audioContext } = graph;
+    const now = audioContext.currentTime;
+    [outgoing, incoming].forEach((deck) => {
+      deck.gain?.gain.cancelScheduledValues(now);
+      deck.gain?.gain.setValueAtTime(deck.gain.gain.value, now);
+    });
+    outgoing.gain?.gain.linearRampToValueAtTime(0, now + seconds);
+    incoming.gain?.gain.linearRampToValueAtTime(1, now + seconds);
+
+    disconnectAnalysis(outgoing);
+    active = 1 - active;
+    fadingIn = null;
+    analysisTargets.forEach((node) => connectAnalysis(incoming, node));
+    pendingFade = {
+      deck: outgoing,
+      timer: window.setTimeout(() => {
+        pendingFade = null;
+        stopDeck(outgoing);
+      }, seconds * 1000)
+    };
+    onActiveChange(incoming.audio);
+  };
+
+  const addAnalysisTarget = (node: AudioNode) => {
+    if (analysisTargets.includes(node)) {
+      return;
+    }
+    analysisTargets.push(node);
+    if (graph) {
+      connectAnalysis(decks[active], node);
+    }
+  };
+
+  const setVolume = (value: number) => {
+    volume = value;
+    if (graph) {
+      graph.master.gain.setValueAtTime(value, graph.audioContext.currentTime);
+      return;
+    }
+    decks.forEach((deck) => {
+      deck.audio.volume = value;
+    });
+  };
+
+  const destroy = () => {
+    generation += 1;
+    finishPendingFade();
+    decks.forEach((deck) => deck.detach());
+  };
+
+  return {
+    get activeAudio() {
+      return decks[active].audio;
+    },
+    get graph() {
+      return graph;
+    },
+    ensureGraph,
+    addAnalysisTarget,
+    load,
+    crossfadeTo,
+    setVolume,
+    destroy
+  };
+};
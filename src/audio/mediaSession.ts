@@ -0,0 +1,75 @@
+import type { NowPlaying } from '../metadata/nowPlaying';
+
+export type MediaSessionActions = {
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  next: () => void;
+  previous: () => void;
+};
+
+const hasMediaSession = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+/**
+ * Station name stands in for the artist/album when the track is unknown, and
+ * the station logo for missing cover art.
+ */
+export const updateMediaSessionMetadata = (
+  stationName: string | null,
+  nowPlaying: NowPlaying | null,
+  logoUrl?: string
+) => {
+  if (!hasMediaSession()) {
+    return;
+  }
+  if (!stationName) {
+    navigator.mediaSession.metadata = null;
+    return;
+  }
+  const artworkUrl = nowPlaying?.artworkUrl || logoUrl;
+  navigator.mediaSession.metadata = new MediaMetadata({
+    title: nowPlaying?.title ?? stationName,
+    artist: nowPlaying?.artist ?? stationName,
+    album: nowPlaying ? (nowPlaying.album ?? stationName) : 'Raven-Radio',
+    artwork: artworkUrl ? [{ src: artworkUrl }] : []
+  });
+};
+
+export const setMediaSessionPlaybackState = (playing: boolean) => {
+  if (hasMediaSession()) {
+    navigator.mediaSession.playbackState = playing ? 'playing' : 'paused';
+  }
+};
+
+/**
+ * Maps OS media keys, headset buttons and lock screen controls to the player.
+ * Returns a cleanup that unregisters every handler.
+ */
+export const registerMediaSessionActions = (getActions: () => MediaSessionActions | null) => {
+  if (!hasMediaSession()) {
+    return () => undefined;
+  }
+  const handlers: [MediaSessionAction, () => void][] = [
+    ['play', () => getActions()?.play()],
+    ['pause', () => getActions()?.pause()],
+    ['stop', () => getActions()?.stop()],
+    ['nexttrack', () => getActions()?.next()],
+    ['previoustrack', () => getActions()?.previous()]
+  ];
+  handlers.forEach(([action, handler]) => {
+    try {
+      navigator.mediaSession.setActionHandler(action, handler);
+    } catch {
+      // The browser does not support this action.
+    }
+  });
+  return () => {
+    handlers.forEach(([action]) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, null);
+      } catch {
+        // The browser does not support this action.
+      }
+    });
+  };
+};
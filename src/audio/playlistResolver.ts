@@ -0,0 +1,58 @@
+import { isPlaylistUrl, resolvePlaylist } from '../../shared/playlist.js';
+import { buildResolveRequestUrl, shouldUseMetadataProxy } from '../proxy';
+
+type ResolveResponse = {
+  streams?: string[];
+  error?: string;
+};
+
+/** A slow proxy or playlist host should not hold up playback; the raw URL is tried instead. */
+const resolveTimeoutMs = 10000;
+
+const cache = new Map<string, Promise<string[]>>();
+
+const resolveViaProxy = async (url: string) => {
+  const response = await fetch(buildResolveRequestUrl(url), {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(resolveTimeoutMs)
+  });
+  const payload = (await response.json()) as ResolveResponse;
+  if (!response.ok) {
+    throw new Error(payload.error || `Resolve request failed (${response.status})`);
+  }
+  return payload.streams ?? [];
+};
+
+const resolveDirectly = async (url: string) => {
+  const { streams } = await resolvePlaylist(url, {
+    signal: AbortSignal.timeout(resolveTimeoutMs)
+  });
+  return streams;
+};
+
+const resolveOne = (url: string) => {
+  const cached = cache.get(url);
+  if (cached) {
+    return cached;
+  }
+  const pending = (shouldUseMetadataProxy() ? resolveViaProxy(url) : resolveDirectly(url))
+    .then((streams) => (streams.length > 0 ? streams : [url]))
+    .catch((err) => {
+      console.warn('[Player] Unable to resolve playlist, using it as a stream:', url, err);
+      cache.delete(url);
+      return [url];
+    });
+  cache.set(url, pending);
+  return pending;
+};
+
+/**
+ * Expands PLS/M3U/ASX/XSPF playlist URLs into the stream URLs they list, in
+ * order. Other URLs (including HLS manifests) are passed through untouched.
+ */
+export const resolveStreamUrls = async (urls: string[]) => {
+  const expanded = await Promise.all(
+    urls.map((url) => (isPlaylistUrl(url) ? resolveOne(url) : Promise.resolve([url])))
+  );
+  return Array.from(new Set(expanded.flat()));
+};
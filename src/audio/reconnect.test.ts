@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  backoffDelay,
+  defaultReconnectPolicy,
+  initialConnectionState,
+  planReconnect,
+  type ConnectionState
+} from './reconnect';
+
+const policy = defaultReconnectPolicy;
+const noJitter = () => 0;
+
+const retrying = (mirrorIndex: number, attempt: number): ConnectionState => ({
+  status: 'retrying',
+  mirrorIndex,
+  attempt
+});
+
+describe('backoffDelay', () => {
+  it('doubles from the base delay on every attempt', () => {
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, policy, noJitter))).toEqual([
+      1000, 2000, 4000, 8000
+    ]);
+  });
+
+  it('stops growing at the maximum delay', () => {
+    expect(backoffDelay(6, policy, noJitter)).toBe(30000);
+    expect(backoffDelay(20, policy, noJitter)).toBe(30000);
+  });
+
+  it('adds at most a quarter on top as jitter', () => {
+    expect(backoffDelay(2, policy, () => 0.5)).toBe(2250);
+    expect(backoffDelay(20, policy, () => 0.999999)).toBe(37500);
+  });
+
+  it('treats the first attempt and anything below it alike', () => {
+    expect(backoffDelay(0, policy, noJitter)).toBe(1000);
+  });
+});
+
+describe('planReconnect', () => {
+  it('retries the current mirror with a growing delay', () => {
+    expect(planReconnect(initialConnectionState, 2, policy, noJitter)).toEqual({
+      type: 'retry',
+      mirrorIndex: 0,
+      attempt: 1,
+      delayMs: 1000
+    });
+    expect(planReconnect(retrying(0, 2), 2, policy, noJitter)).toEqual({
+      type: 'retry',
+      mirrorIndex: 0,
+      attempt: 3,
+      delayMs: 4000
+    });
+  });
+
+  it('moves to the next mirror straight away once the retries are spent', () => {
+    expect(planReconnect(retrying(0, 3), 2, policy, noJitter)).toEqual({
+      type: 'retry',
+      mirrorIndex: 1,
+      attempt: 0,
+      delayMs: 0
+    });
+  });
+
+  it('gives up after the last mirror', () => {
+    expect(planReconnect(retrying(1, 3), 2, policy, noJitter)).toEqual({ type: 'exhausted' });
+    expect(planReconnect(retrying(0, 3), 1, policy, noJitter)).toEqual({ type: 'exhausted' });
+  });
+
+  it('spends every mirror in turn before giving up', () => {
+    let state: ConnectionState = initialConnectionState;
+    const mirrors: number[] = [];
+    for (;;) {
+      const decision = planReconnect(state, 3, policy, noJitter);
+      if (decision.type === 'exhausted') {
+        break;
+      }
+      mirrors.push(decision.mirrorIndex);
+      state = retrying(decision.mirrorIndex, decision.attempt);
+    }
+    expect(mirrors).toEqual([0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2]);
+  });
+});
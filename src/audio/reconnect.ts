@@ -0,0 +1,123 @@
+export type ReconnectPolicy = {
+  maxAttemptsPerMirror: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  stallTimeoutMs: number;
+};
+
+export const defaultReconnectPolicy: ReconnectPolicy = {
+  maxAttemptsPerMirror: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  stallTimeoutMs: 12000
+};
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'playing' | 'retrying' | 'failed';
+
+export type ConnectionState = {
+  status: ConnectionStatus;
+  mirrorIndex: number;
+  /** Retries already spent on the current mirror. */
+  attempt: number;
+  reason?: string;
+};
+
+export const initialConnectionState: ConnectionState = {
+  status: 'idle',
+  mirrorIndex: 0,
+  attempt: 0
+};
+
+export type ReconnectDecision =
+  | { type: 'retry'; mirrorIndex: number; attempt: number; delayMs: number }
+  | { type: 'exhausted' };
+
+/** Exponential backoff with up to 25% jitter so many listeners do not retry in lockstep. */
+export const backoffDelay = (
+  attempt: number,
+  policy: ReconnectPolicy,
+  random: () => number = Math.random
+) => {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(capped * (1 + random() * 0.25));
+};
+
+/**
+ * Retries the current mirror until its attempts are spent, then moves on to the
+ * next mirror. Returns `exhausted` once every mirror has been tried.
+ */
+export const planReconnect = (
+  state: ConnectionState,
+  mirrorCount: number,
+  policy: ReconnectPolicy,
+  random: () => number = Math.random
+): ReconnectDecision => {
+  if (state.attempt < policy.maxAttemptsPerMirror) {
+    const attempt = state.attempt + 1;
+    return {
+      type: 'retry',
+      mirrorIndex: state.mirrorIndex,
+      attempt,
+      delayMs: backoffDelay(attempt, policy, random)
+    };
+  }
+  if (state.mirrorIndex + 1 < mirrorCount) {
+    return { type: 'retry', mirrorIndex: state.mirrorIndex + 1, attempt: 0, delayMs: 0 };
+  }
+  return { type: 'exhausted' };
+};
+
+/**
+ * Reports a stall when a playing element has not advanced for `timeoutMs`,
+ * whether or not the browser fired `stalled`/`waiting`. Returns a cleanup.
+ */
+export const watchForStalls = (
+  audio: HTMLAudioElement,
+  timeoutMs: number,
+  onStall: () => void
+) => {
+  let lastTime = audio.currentTime;
+  let lastProgress = Date.now();
+  let reported = false;
+
+  const markProgress = () => {
+    lastTime = audio.currentTime;
+    lastProgress = Date.now();
+    reported = false;
+  };
+
+  const handleTimeUpdate = () => {
+    if (audio.currentTime !== lastTime) {
+      markProgress();
+    }
+  };
+
+  const check = () => {
+    if (audio.paused || reported) {
+      return;
+    }
+    if (Date.now() - lastProgress >= timeoutMs) {
+      reported = true;
+      onStall();
+    }
+  };
+
+  const handleBuffering = () => {
+    window.setTimeout(check, timeoutMs);
+  };
+
+  audio.addEventListener('timeupdate', handleTimeUpdate);
+  audio.addEventListener('play', markProgress);
+  audio.addEventListener('stalled', handleBuffering);
+  audio.addEventListener('waiting', handleBuffering);
+  const interval = window.setInterval(check, 1000);
+
+  return () => {
+    window.clearInterval(interval);
+    audio.removeEventListener('timeupdate', handleTimeUpdate);
+    audio.removeEventListener('play', markProgress);
+    audio.removeEventListener('stalled', handleBuffering);
+    audio.removeEventListener('waiting', handleBuffering);
+  };
+};
@@ -0,0 +1,200 @@
+import type { AudioGraph } from './deckPlayer';
+
+export type RecordingSegment = {
+  blob: Blob;
+  filename: string;
+  seconds: number;
+};
+
+export type RecorderProgress = {
+  bytes: number;
+  seconds: number;
+  segments: number;
+};
+
+export type StreamRecorderOptions = {
+  onSegment: (segment: RecordingSegment) => void;
+  onProgress: (progress: RecorderProgress) => void;
+  /** The mix stayed silent while recording, usually because the stream is CORS-tainted. */
+  onSilent: () => void;
+};
+
+export type StreamRecorder = {
+  readonly recording: boolean;
+  /** `name` is the file name without extension for the segment that starts now. */
+  start: (name: string) => void;
+  /**
+   * Closes the current file and continues into a new one. Within five seconds
+   * of the last split it waits out the rest of that time, then uses the latest name.
+   */
+  split: (name: string) => void;
+  stop: () => void;
+};
+
+const mimeTypes = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+  'audio/webm'
+];
+
+const timesliceMs = 1000;
+const silenceCheckMs = 1000;
+const silentChecksBeforeWarning = 5;
+const minSegmentMs = timesliceMs * 5;
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' &&
+  mimeTypes.some((type) => MediaRecorder.isTypeSupported(type));
+
+const extensionFor = (mimeType: string) => {
+  if (mimeType.includes('ogg')) {
+    return 'ogg';
+  }
+  return mimeType.includes('mp4') ? 'm4a' : 'webm';
+};
+
+/** Strips characters that are not allowed in file names on common systems. */
+export const sanitizeFilename = (name: string) =>
+  name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 120) || 'recording';
+
+/**
+ * Records the deck mix (pre-volume) through a MediaStreamAudioDestinationNode.
+ * Each segment gets its own MediaRecorder so every file has valid headers.
+ */
+export const createStreamRecorder = (
+  graph: AudioGraph,
+  { onSegment, onProgress, onSilent }: StreamRecorderOptions
+): StreamRecorder => {
+  const mimeType = mimeTypes.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+  const extension = extensionFor(mimeType);
+  const destination = graph.audioContext.createMediaStreamDestination();
+  const analyser = graph.audioContext.createAnalyser();
+  analyser.fftSize = 2048;
+  const samples = new Float32Array(analyser.fftSize);
+
+  let recorder: MediaRecorder | null = null;
+  let bytes = 0;
+  let segments = 0;
+  let startedAt = 0;
+  let segmentStartedAt = 0;
+  let silentChecks = 0;
+  let silenceTimer: number | null = null;
+  let progressTimer: number | null = null;
+  let splitTimer: number | null = null;
+
+  const reportProgress = () => {
+    onProgress({ bytes, seconds: (Date.now() - startedAt) / 1000, segments });
+  };
+
+  const checkSilence = () => {
+    analyser.getFloatTimeDomainData(samples);
+    const peak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+    silentChecks = peak === 0 ? silentChecks + 1 : 0;
+    if (silentChecks === silentChecksBeforeWarning) {
+      onSilent();
+    }
+  };
+
+  const startSegment = (name: string) => {
+    const chunks: Blob[] = [];
+    const next = new MediaRecorder(destination.stream, mimeType ? { mimeType } : undefined);
+    const filename = `${sanitizeFilename(name)}.${extension}`;
+    const started = Date.now();
+    next.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+        bytes += event.data.size;
+        reportProgress();
+      }
+    };
+    next.onstop = () => {
+      if (chunks.length === 0) {
+        return;
+      }
+      segments += 1;
+      onSegment({
+        blob: new Blob(chunks, { type: next.mimeType || mimeType }),
+        filename,
+        seconds: (Date.now() - started) / 1000
+      });
+      reportProgress();
+    };
+    next.start(timesliceMs);
+    recorder = next;
+    segmentStartedAt = started;
+  };
+
+  const start = (name: string) => {
+    if (recorder) {
+      return;
+    }
+    graph.mix.connect(destination);
+    graph.mix.connect(analyser);
+    bytes = 0;
+    segments = 0;
+    silentChecks = 0;
+    startedAt = Date.now();
+    startSegment(name);
+    silenceTimer = window.setInterval(checkSilence, silenceCheckMs);
+    progressTimer = window.setInterval(reportProgress, timesliceMs);
+    reportProgress();
+  };
+
+  const cancelPendingSplit = () => {
+    if (splitTimer !== null) {
+      window.clearTimeout(splitTimer);
+      splitTimer = null;
+    }
+  };
+
+  const split = (name: string) => {
+    if (!recorder) {
+      return;
+    }
+    cancelPendingSplit();
+    // Hold title changes that come right after a split so a flapping title
+    // cannot produce a string of tiny files; the latest one wins.
+    const wait = segmentStartedAt + minSegmentMs - Date.now();
+    if (wait > 0) {
+      splitTimer = window.setTimeout(() => {
+        splitTimer = null;
+        split(name);
+      }, wait);
+      return;
+    }
+    recorder.stop();
+    startSegment(name);
+  };
+
+  const stop = () => {
+    if (!recorder) {
+      return;
+    }
+    cancelPendingSplit();
+    recorder.stop();
+    recorder = null;
+    [silenceTimer, progressTimer].forEach((timer) => {
+      if (timer !== null) {
+        window.clearInterval(timer);
+      }
+    });
+    silenceTimer = null;
+    progressTimer = null;
+    graph.mix.disconnect(destination);
+    graph.mix.disconnect(analyser);
+  };
+
+  return {
+    get recording() {
+      return recorder !== null;
+    },
+    start,
+    split,
+    stop
+  };
+};
@@ -0,0 +1,112 @@
+import type { StreamHealthStatus, StreamProbe } from '../../shared/probe.js';
+import { buildProbeRequestUrl } from '../proxy';
+
+export type { StreamHealthStatus, StreamProbe };
+
+/** Stream URL → latest probe result. */
+export type StreamHealthCache = Record<string, StreamProbe>;
+
+export type StationHealth = {
+  status: StreamHealthStatus;
+  /** The probe behind `status`: the best of the station's URLs. */
+  probe: StreamProbe;
+  /** How many of the station's URLs were probed dead. */
+  deadUrls: number;
+};
+
+export type HealthChecker = {
+  /** Queues URLs for probing; ones already queued are skipped. */
+  enqueue: (urls: string[]) => void;
+  destroy: () => void;
+};
+
+const okMaxAgeMs = 12 * 60 * 60 * 1000;
+/** Dead or degraded streams are rechecked sooner, they may be back. */
+const failedMaxAgeMs = 60 * 60 * 1000;
+const maxCacheAgeMs = 7 * 24 * 60 * 60 * 1000;
+/** Pause between probes so background checking never competes with playback. */
+const probeGapMs = 1500;
+
+const statusRank: Record<StreamHealthStatus, number> = { ok: 2, degraded: 1, dead: 0 };
+
+export const isHealthFresh = (probe: StreamProbe | undefined, now: number) =>
+  Boolean(probe && now - probe.checkedAt < (probe.status === 'ok' ? okMaxAgeMs : failedMaxAgeMs));
+
+/** Combines a station's probed URLs; null until at least one has been checked. */
+export const stationHealth = (urls: string[], cache: StreamHealthCache): StationHealth | null => {
+  const probes = urls.map((url) => cache[url]).filter((probe): probe is StreamProbe => !!probe);
+  if (probes.length === 0) {
+    return null;
+  }
+  const best = probes.reduce((winner, probe) =>
+    statusRank[probe.status] > statusRank[winner.status] ? probe : winner
+  );
+  return {
+    status: best.status,
+    probe: best,
+    deadUrls: probes.filter((probe) => probe.status === 'dead').length
+  };
+};
+
+export const mergeHealthResult = (cache: StreamHealthCache, probe: StreamProbe) => {
+  const next: StreamHealthCache = { ...cache, [probe.url]: probe };
+  Object.keys(next).forEach((url) => {
+    if (probe.checkedAt - next[url].checkedAt > maxCacheAgeMs) {
+      delete next[url];
+    }
+  });
+  return next;
+};
+
+export const fetchStreamHealth = async (url: string, signal?: AbortSignal) => {
+  const response = await fetch(buildProbeRequestUrl(url), { signal });
+  if (!response.ok) {
+    throw new Error(`Probe request failed (${response.status})`);
+  }
+  return (await response.json()) as StreamProbe;
+};
+
+/**
+ * Probes queued URLs one at a time through the proxy and reports each result.
+ * Proxy failures are logged and skipped; the URL can be queued again later.
+ */
+export const createHealthChecker = (onResult: (probe: StreamProbe) => void): HealthChecker => {
+  const queue: string[] = [];
+  const controller = new AbortController();
+  let running = false;
+
+  const run = async () => {
+    running = true;
+    while (queue.length > 0 && !controller.signal.aborted) {
+      const url = queue[0];
+      try {
+        onResult(await fetchStreamHealth(url, controller.signal));
+      } catch (err) {
+        if (controller.signal.aborted) {
+          break;
+        }
+        console.warn('[Health] Probe failed', url, err);
+      }
+      queue.shift();
+      await new Promise((resolve) => window.setTimeout(resolve, probeGapMs));
+    }
+    running = false;
+  };
+
+  return {
+    enqueue: (urls) => {
+      urls.forEach((url) => {
+        if (url && !queue.includes(url)) {
+          queue.push(url);
+        }
+      });
+      if (!running && queue.length > 0) {
+        run();
+      }
+    },
+    destroy: () => {
+      controller.abort();
+      queue.length = 0;
+    }
+  };
+};
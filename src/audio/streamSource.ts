@@ -0,0 +1,45 @@
+import Hls from 'hls.js';
+
+export const hlsMimeType = 'application/vnd.apple.mpegurl';
+
+export const isHlsUrl = (url: string) => url.toLowerCase().includes('.m3u8');
+
+/**
+ * Points an audio element at a stream URL, using hls.js where the browser has
+ * no native HLS support. Returns a cleanup that tears down the hls.js instance.
+ */
+export const attachStream = (
+  audio: HTMLAudioElement,
+  url: string,
+  onFatalError: (message: string) => void
+) => {
+  audio.crossOrigin = 'anonymous';
+  if (!isHlsUrl(url)) {
+    audio.src = url;
+    audio.load();
+    return () => undefined;
+  }
+  if (Hls.isSupported()) {
+    const hls = new Hls();
+    hls.attachMedia(audio);
+    hls.on(Hls.Events.MEDIA_ATTACHED, () => {
+      hls.loadSource(url);
+    });
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (data.fatal) {
+        const reason = data.reason ? `: ${data.reason}` : '';
+        onFatalError(
+          `Stream failed (${data.type} - ${data.details}${reason}). Try an alternate URL/server.`
+        );
+      }
+    });
+    return () => hls.destroy();
+  }
+  if (audio.canPlayType(hlsMimeType)) {
+    audio.src = url;
+    audio.load();
+    return () => undefined;
+  }
+  onFatalError('HLS stream not supported. Try an alternate URL/server.');
+  return () => undefined;
+};
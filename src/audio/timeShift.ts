@@ -0,0 +1,258 @@
+import timeShiftWorkletUrl from './timeShift.worklet.ts?worker&url';
+import type { AudioGraph } from './deckPlayer';
+import {
+  timeShiftChunkSeconds,
+  timeShiftProcessorName,
+  type TimeShiftChunk,
+  type TimeShiftCommand
+} from './timeShiftMessages';
+
+export type TimeShiftStatus = {
+  /** Seconds of audio held in the buffer. */
+  bufferedSeconds: number;
+  /** How far the audible position is behind live; 0 while live. */
+  behindSeconds: number;
+  paused: boolean;
+};
+
+export type TimeShiftOptions = {
+  maxSeconds: number;
+  /** Chunks arriving while this returns false (e.g. the stream is paused) are dropped. */
+  shouldCapture: () => boolean;
+  onStatus: (status: TimeShiftStatus) => void;
+};
+
+export type TimeShiftBuffer = {
+  /** True while the buffer, not the live decks, is being heard (or paused). */
+  readonly shifted: boolean;
+  pause: () => void;
+  resume: () => void;
+  /** Moves the audible position by `seconds`; negative goes back. */
+  skip: (seconds: number) => void;
+  seekBehind: (seconds: number) => void;
+  goLive: () => void;
+  setMaxSeconds: (seconds: number) => void;
+  destroy: () => void;
+};
+
+const tickMs = 250;
+const lookaheadSeconds = 1;
+const liveFadeSeconds = 0.05;
+
+const moduleLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const loadCaptureModule = (audioContext: BaseAudioContext) => {
+  let load = moduleLoads.get(audioContext);
+  if (!load) {
+    load = audioContext.audioWorklet.addModule(timeShiftWorkletUrl);
+    moduleLoads.set(audioContext, load);
+  }
+  return load;
+};
+
+/**
+ * Keeps a rolling PCM copy of the deck mix and plays it back into the graph
+ * output while the live decks are muted, so the stream stays connected.
+ * Positions are whole chunks counted from the first chunk ever captured.
+ */
+export const createTimeShiftBuffer = async (
+  graph: AudioGraph,
+  { maxSeconds, shouldCapture, onStatus }: TimeShiftOptions
+): Promise<TimeShiftBuffer> => {
+  const { audioContext } = graph;
+  await loadCaptureModule(audioContext);
+  const capture = new AudioWorkletNode(audioContext, timeShiftProcessorName, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 2,
+    channelCountMode: 'explicit'
+  });
+  const output = audioContext.createGain();
+  output.connect(graph.output);
+  graph.mix.connect(capture);
+
+  const chunks: Int16Array[] = [];
+  let limit = maxSeconds;
+  let firstChunk = 0;
+  // Next chunk to schedule while shifted; null while live.
+  let position: number | null = null;
+  let paused = false;
+  let scheduledUntil = 0;
+  let sources: AudioBufferSourceNode[] = [];
+  let lastReport = '';
+
+  const headChunk = () => firstChunk + chunks.length;
+
+  const setLiveGain = (value: number) => {
+    const now = audioContext.currentTime;
+    graph.live.gain.cancelScheduledValues(now);
+    graph.live.gain.setTargetAtTime(value, now, liveFadeSeconds);
+  };
+
+  const stopSources = () => {
+    sources.forEach((source) => {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    });
+    sources = [];
+  };
+
+  const audibleChunk = () => {
+    if (position === null) {
+      return headChunk();
+    }
+    if (paused) {
+      return position;
+    }
+    const ahead = Math.max(0, scheduledUntil - audioContext.currentTime);
+    return Math.max(firstChunk, position - ahead / timeShiftChunkSeconds);
+  };
+
+  const status = (): TimeShiftStatus => ({
+    bufferedSeconds: chunks.length * timeShiftChunkSeconds,
+    behindSeconds: (headChunk() - audibleChunk()) * timeShiftChunkSeconds,
+    paused
+  });
+
+  const report = () => {
+    const next = status();
+    const key = `${Math.floor(next.bufferedSeconds)}:${Math.round(next.behindSeconds)}:${next.paused}`;
+    if (key !== lastReport) {
+      lastReport = key;
+      onStatus(next);
+    }
+  };
+
+  const trim = () => {
+    const maxChunks = Math.max(1, Math.floor(limit / timeShiftChunkSeconds));
+    if (chunks.length > maxChunks) {
+      const dropped = chunks.length - maxChunks;
+      chunks.splice(0, dropped);
+      firstChunk += dropped;
+    }
+    if (position !== null && position < firstChunk) {
+      position = firstChunk;
+    }
+  };
+
+  const toAudioBuffer = (samples: Int16Array) => {
+    const frames = samples.length / 2;
+    const buffer = audioContext.createBuffer(2, frames, audioContext.sampleRate);
+    const left = buffer.getChannelData(0);
+    const right = buffer.getChannelData(1);
+    for (let index = 0; index < frames; index += 1) {
+      left[index] = samples[index * 2] / 32768;
+      right[index] = samples[index * 2 + 1] / 32768;
+    }
+    return buffer;
+  };
+
+  const goLive = () => {
+    stopSources();
+    position = null;
+    paused = false;
+    setLiveGain(1);
+    report();
+  };
+
+  const schedule = () => {
+    if (position === null || paused) {
+      return;
+    }
+    const now = audioContext.currentTime;
+    while (scheduledUntil < now + lookaheadSeconds && position < headChunk()) {
+      const source = audioContext.createBufferSource();
+      source.buffer = toAudioBuffer(chunks[position - firstChunk]);
+      source.connect(output);
+      const startAt = Math.max(scheduledUntil, now);
+      source.start(startAt);
+      source.onended = () => {
+        sources = sources.filter((item) => item !== source);
+      };
+      sources.push(source);
+      scheduledUntil = startAt + source.buffer.duration;
+      position += 1;
+    }
+    // Caught up with the capture: hand back to the decks once the queue drains.
+    if (position >= headChunk() && scheduledUntil <= now) {
+      goLive();
+    }
+  };
+
+  const startPlayback = (chunk: number) => {
+    stopSources();
+    position = Math.max(firstChunk, Math.min(headChunk(), Math.floor(chunk)));
+    setLiveGain(0);
+    if (!paused) {
+      scheduledUntil = audioContext.currentTime;
+      schedule();
+    }
+    report();
+  };
+
+  const seekToChunk = (chunk: number) => {
+    if (chunk >= headChunk() && !paused) {
+      goLive();
+      return;
+    }
+    startPlayback(chunk);
+  };
+
+  capture.port.onmessage = (event: MessageEvent<TimeShiftChunk>) => {
+    if (event.data.type !== 'chunk' || !shouldCapture()) {
+      return;
+    }
+    chunks.push(event.data.samples);
+    trim();
+  };
+
+  const timer = window.setInterval(() => {
+    schedule();
+    report();
+  }, tickMs);
+
+  return {
+    get shifted() {
+      return position !== null;
+    },
+    pause: () => {
+      if (paused) {
+        return;
+      }
+      const chunk = Math.floor(audibleChunk());
+      paused = true;
+      startPlayback(chunk);
+    },
+    resume: () => {
+      if (!paused) {
+        return;
+      }
+      paused = false;
+      startPlayback(position ?? headChunk());
+    },
+    skip: (seconds) => {
+      seekToChunk(audibleChunk() + seconds / timeShiftChunkSeconds);
+    },
+    seekBehind: (seconds) => {
+      seekToChunk(headChunk() - seconds / timeShiftChunkSeconds);
+    },
+    goLive,
+    setMaxSeconds: (seconds) => {
+      limit = seconds;
+      trim();
+      report();
+    },
+    destroy: () => {
+      window.clearInterval(timer);
+      stopSources();
+      setLiveGain(1);
+      capture.port.onmessage = null;
+      const command: TimeShiftCommand = { type: 'dispose' };
+      capture.port.postMessage(command);
+      graph.mix.disconnect(capture);
+      output.disconnect();
+      chunks.length = 0;
+    }
+  };
+};
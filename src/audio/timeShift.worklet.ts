@@ -0,0 +1,61 @@
+import {
+  timeShiftChunkSeconds,
+  timeShiftProcessorName,
+  type TimeShiftChunk,
+  type TimeShiftCommand
+} from './timeShiftMessages';
+
+declare const sampleRate: number;
+
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+declare function registerProcessor(
+  name: string,
+  processorCtor: new () => AudioWorkletProcessor
+): void;
+
+const toInt16 = (value: number) => Math.max(-32768, Math.min(32767, Math.round(value * 32767)));
+
+class TimeShiftCapture extends AudioWorkletProcessor {
+  private chunkFrames = Math.round(sampleRate * timeShiftChunkSeconds);
+  private pending = new Int16Array(this.chunkFrames * 2);
+  private frames = 0;
+  private disposed = false;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<TimeShiftCommand>) => {
+      if (event.data.type === 'dispose') {
+        this.disposed = true;
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]) {
+    if (this.disposed) {
+      return false;
+    }
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      return true;
+    }
+    const left = channels[0];
+    const right = channels[1] ?? left;
+    for (let index = 0; index < left.length; index += 1) {
+      this.pending[this.frames * 2] = toInt16(left[index]);
+      this.pending[this.frames * 2 + 1] = toInt16(right[index]);
+      this.frames += 1;
+      if (this.frames === this.chunkFrames) {
+        const message: TimeShiftChunk = { type: 'chunk', samples: this.pending };
+        this.port.postMessage(message, [this.pending.buffer]);
+        this.pending = new Int16Array(this.chunkFrames * 2);
+        this.frames = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor(timeShiftProcessorName, TimeShiftCapture);
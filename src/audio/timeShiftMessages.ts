@@ -0,0 +1,9 @@
+export const timeShiftProcessorName = 'time-shift-capture';
+
+/** Length of one captured chunk; also the seek granularity. */
+export const timeShiftChunkSeconds = 0.5;
+
+export type TimeShiftCommand = { type: 'dispose' };
+
+/** Interleaved stereo 16-bit PCM at the context sample rate. */
+export type TimeShiftChunk = { type: 'chunk'; samples: Int16Array };
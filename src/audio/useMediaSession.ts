@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+import type { NowPlaying } from '../metadata/nowPlaying';
+import type { PlayableStation } from '../stations';
+import {
+  registerMediaSessionActions,
+  setMediaSessionPlaybackState,
+  updateMediaSessionMetadata,
+  type MediaSessionActions
+} from './mediaSession';
+
+/** Keeps the OS media controls in step with the player; `actions` may change every render. */
+export function useMediaSession(
+  actions: MediaSessionActions,
+  station: PlayableStation | null,
+  nowPlaying: NowPlaying | null,
+  isPlaying: boolean
+) {
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  useEffect(() => {
+    return registerMediaSessionActions(() => actionsRef.current);
+  }, []);
+
+  useEffect(() => {
+    updateMediaSessionMetadata(station?.name ?? null, nowPlaying, station?.logo);
+  }, [station?.name, station?.logo, nowPlaying]);
+
+  useEffect(() => {
+    setMediaSessionPlaybackState(isPlaying);
+  }, [isPlaying]);
+}
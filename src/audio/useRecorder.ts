@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { formatNowPlaying, isSameTrack, type NowPlaying } from '../metadata/nowPlaying';
+import type { DeckPlayer } from './deckPlayer';
+import {
+  createStreamRecorder,
+  isRecordingSupported,
+  type RecorderProgress,
+  type StreamRecorder
+} from './recorder';
+import type { SavedRecording } from './RecorderPanel';
+
+type RecorderOptions = {
+  stationName: string | null;
+  nowPlaying: NowPlaying | null;
+  isPlaying: boolean;
+  /** The stream cannot be captured (CORS). */
+  analysisBlocked: boolean;
+  splitOnTitleChange: boolean;
+};
+
+/** Records the deck mix into downloadable files, one per track when splitting on titles. */
+export function useRecorder(
+  playerRef: RefObject<DeckPlayer | null>,
+  { stationName, nowPlaying, isPlaying, analysisBlocked, splitOnTitleChange }: RecorderOptions
+) {
+  const recorderRef = useRef<StreamRecorder | null>(null);
+  const lastTrackRef = useRef<NowPlaying | null>(null);
+  const [progress, setProgress] = useState<RecorderProgress | null>(null);
+  const [recordings, setRecordings] = useState<SavedRecording[]>([]);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const recordingName = () => {
+    const stamp = new Date().toISOString().slice(0, 16).replace('T', ' ').replace(':', '');
+    const track = nowPlaying ? ` - ${formatNowPlaying(nowPlaying)}` : '';
+    return `${stationName ?? 'Raven-Radio'}${track} ${stamp}`;
+  };
+
+  const disabledReason = !isRecordingSupported()
+    ? 'This browser cannot record audio (MediaRecorder is unavailable).'
+    : analysisBlocked
+      ? 'Recording is unavailable for this station due to stream restrictions.'
+      : !isPlaying && !progress
+        ? 'Start playback to record.'
+        : null;
+
+  const start = () => {
+    const player = playerRef.current;
+    if (!player || recorderRef.current?.recording) {
+      return;
+    }
+    let graph;
+    try {
+      graph = player.ensureGraph();
+    } catch (err) {
+      console.warn('[Recorder] Audio graph unavailable.', err);
+      setWarning('Recording needs Web Audio, which is unavailable for this stream.');
+      return;
+    }
+    setWarning(null);
+    recorderRef.current = createStreamRecorder(graph, {
+      onSegment: ({ blob, filename, seconds }) => {
+        setRecordings((prev) => [
+          { filename, url: URL.createObjectURL(blob), bytes: blob.size, seconds },
+          ...prev
+        ]);
+      },
+      onProgress: setProgress,
+      onSilent: () => {
+        if (!playerRef.current?.activeAudio.paused) {
+          setWarning(
+            'Nothing is being captured: this stream does not allow recording (CORS restrictions).'
+          );
+        }
+      }
+    });
+    recorderRef.current.start(recordingName());
+  };
+
+  const stop = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setProgress(null);
+  };
+
+  const clear = () => {
+    recordings.forEach((recording) => URL.revokeObjectURL(recording.url));
+    setRecordings([]);
+  };
+
+  useEffect(() => {
+    // Metadata polls hand back fresh objects for the same track and drop to null between
+    // titles; only an actual change of track starts a new file.
+    if (!nowPlaying || isSameTrack(lastTrackRef.current, nowPlaying)) {
+      return;
+    }
+    lastTrackRef.current = nowPlaying;
+    if (splitOnTitleChange && recorderRef.current?.recording) {
+      recorderRef.current.split(recordingName());
+    }
+  }, [nowPlaying]);
+
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.stop();
+    };
+  }, []);
+
+  return { progress, recordings, warning, disabledReason, start, stop, clear };
+}
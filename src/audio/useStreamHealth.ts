@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import { shouldUseMetadataProxy } from '../proxy';
+import { useLocalStorage } from '../useLocalStorage';
+import {
+  createHealthChecker,
+  isHealthFresh,
+  mergeHealthResult,
+  type HealthChecker,
+  type StreamHealthCache
+} from './streamHealth';
+
+/** How often stream health is looked at again; only stale results are re-probed. */
+const healthRecheckIntervalMs = 30 * 60 * 1000;
+
+/**
+ * Probes `urls` through the proxy's probe endpoint and caches the results in
+ * `localStorage`. Without the proxy nothing is probed.
+ */
+export function useStreamHealth(urls: string[]) {
+  const [streamHealth, setStreamHealth] = useLocalStorage<StreamHealthCache>(
+    'raven-radio:stream-health',
+    {}
+  );
+  const streamHealthRef = useRef(streamHealth);
+  streamHealthRef.current = streamHealth;
+  const healthCheckerRef = useRef<HealthChecker | null>(null);
+  const urlsKey = Array.from(new Set(urls)).join('\n');
+
+  useEffect(() => {
+    if (!shouldUseMetadataProxy()) {
+      return;
+    }
+    const checker = createHealthChecker((probe) =>
+      setStreamHealth((prev) => mergeHealthResult(prev, probe))
+    );
+    healthCheckerRef.current = checker;
+    return () => {
+      checker.destroy();
+      healthCheckerRef.current = null;
+    };
+  }, [setStreamHealth]);
+
+  useEffect(() => {
+    const unique = urlsKey ? urlsKey.split('\n') : [];
+    const checkStale = () => {
+      const now = Date.now();
+      healthCheckerRef.current?.enqueue(
+        unique.filter((url) => !isHealthFresh(streamHealthRef.current[url], now))
+      );
+    };
+    checkStale();
+    const interval = window.setInterval(checkStale, healthRecheckIntervalMs);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [urlsKey]);
+
+  return streamHealth;
+}
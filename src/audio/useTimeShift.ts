@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useRef, useState, type RefObject } from 'react';
+import type { DeckPlayer } from './deckPlayer';
+import { createTimeShiftBuffer, type TimeShiftBuffer, type TimeShiftStatus } from './timeShift';
+
+/**
+ * The rewind buffer: started once playback runs with `minutes` above zero,
+ * resized when `minutes` changes and torn down when it drops to zero.
+ */
+export function useTimeShift(
+  playerRef: RefObject<DeckPlayer | null>,
+  minutes: number,
+  isPlaying: boolean
+) {
+  const timeShiftRef = useRef<TimeShiftBuffer | null>(null);
+  const timeShiftSetupRef = useRef<Promise<TimeShiftBuffer | null> | null>(null);
+  const [status, setStatus] = useState<TimeShiftStatus | null>(null);
+
+  useEffect(() => {
+    if (minutes <= 0) {
+      timeShiftRef.current?.destroy();
+      timeShiftRef.current = null;
+      timeShiftSetupRef.current = null;
+      setStatus(null);
+      return;
+    }
+    if (timeShiftRef.current) {
+      timeShiftRef.current.setMaxSeconds(minutes * 60);
+      return;
+    }
+    const player = playerRef.current;
+    if (!player || !isPlaying || timeShiftSetupRef.current) {
+      return;
+    }
+    let graph;
+    try {
+      graph = player.ensureGraph();
+    } catch (err) {
+      console.warn('[Time-shift] Audio graph unavailable.', err);
+      return;
+    }
+    const setup = createTimeShiftBuffer(graph, {
+      maxSeconds: minutes * 60,
+      shouldCapture: () => !playerRef.current?.activeAudio.paused,
+      onStatus: setStatus
+    })
+      .then((buffer) => {
+        if (timeShiftSetupRef.current !== setup) {
+          buffer.destroy();
+          return null;
+        }
+        timeShiftRef.current = buffer;
+        return buffer;
+      })
+      .catch((err) => {
+        console.warn('[Time-shift] Unable to start the rewind buffer.', err);
+        return null;
+      });
+    timeShiftSetupRef.current = setup;
+  }, [minutes, isPlaying]);
+
+  useEffect(() => {
+    return () => {
+      timeShiftRef.current?.destroy();
+    };
+  }, []);
+
+  const controls = useMemo(
+    () => ({
+      pause: () => timeShiftRef.current?.pause(),
+      resume: () => timeShiftRef.current?.resume(),
+      skip: (seconds: number) => timeShiftRef.current?.skip(seconds),
+      seekBehind: (seconds: number) => timeShiftRef.current?.seekBehind(seconds),
+      goLive: () => timeShiftRef.current?.goLive()
+    }),
+    []
+  );
+
+  return { status, ...controls };
+}
@@ -0,0 +1,180 @@
+import { useState, type ChangeEvent } from 'react';
+import { downloadText } from '../download';
+import type { RadioBrowserClient } from '../radioBrowser/client';
+import type { FavouriteStation, Station } from '../stations';
+import { localDay } from '../talkKiller/switchLog';
+import {
+  backupSectionLabels,
+  createBackup,
+  parseBackup,
+  type BackupData,
+  type BackupSection
+} from './backup';
+import {
+  parsePlaylistEntries,
+  parseStationUuids,
+  playlistEntryToFavourite,
+  searchStationToFavourite,
+  uuidBatchSize
+} from './stationImport';
+
+type BackupPanelProps = {
+  client: RadioBrowserClient;
+  stations: Station[];
+  getBackupData: () => BackupData;
+  onRestore: (data: Partial<BackupData>) => void;
+  /** Adds stations to the favourites, skipping ones already there; returns how many were new. */
+  onImportFavourites: (stations: FavouriteStation[]) => number;
+};
+
+function BackupPanel({
+  client,
+  stations,
+  getBackupData,
+  onRestore,
+  onImportFavourites
+}: BackupPanelProps) {
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [uuidText, setUuidText] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const report = (text: string | null, failure: string | null = null) => {
+    setMessage(text);
+    setError(failure);
+  };
+
+  const readFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    return file ? file.text() : null;
+  };
+
+  const handleRestore = async (event: ChangeEvent<HTMLInputElement>) => {
+    const text = await readFile(event);
+    if (text === null) {
+      return;
+    }
+    try {
+      const { data, skipped } = parseBackup(text, { stations });
+      const sections = Object.keys(data) as BackupSection[];
+      if (sections.length === 0) {
+        report(null, 'The backup does not contain anything that can be restored.');
+        return;
+      }
+      const names = sections.map((section) => backupSectionLabels[section]).join(', ');
+      if (!window.confirm(`Replace these with the backup?\n\n${names}`)) {
+        return;
+      }
+      onRestore(data);
+      report(`Restored ${names}.` + (skipped.length > 0 ? ` Skipped: ${skipped.join(', ')}.` : ''));
+    } catch (err) {
+      report(null, err instanceof Error ? err.message : 'Unable to read the backup.');
+    }
+  };
+
+  const handlePlaylist = async (event: ChangeEvent<HTMLInputElement>) => {
+    const text = await readFile(event);
+    if (text === null) {
+      return;
+    }
+    try {
+      const entries = parsePlaylistEntries(text);
+      const added = onImportFavourites(entries.map(playlistEntryToFavourite));
+      report(`Added ${added} of ${entries.length} playlist stations to favourites.`);
+    } catch (err) {
+      report(null, err instanceof Error ? err.message : 'Unable to read the playlist.');
+    }
+  };
+
+  const handleUuids = async () => {
+    const uuids = parseStationUuids(uuidText);
+    if (uuids.length === 0) {
+      report(null, 'No Radio Browser station UUIDs found.');
+      return;
+    }
+    setBusy(true);
+    try {
+      const found: FavouriteStation[] = [];
+      for (let start = 0; start < uuids.length; start += uuidBatchSize) {
+        const batch = uuids.slice(start, start + uuidBatchSize);
+        const results = await client.listStations('/json/stations/byuuid', {
+          uuids: batch.join(',')
+        });
+        found.push(...results.map(searchStationToFavourite));
+      }
+      const added = onImportFavourites(found);
+      const missing = uuids.length - found.length;
+      report(
+        `Added ${added} of ${found.length} stations to favourites.` +
+          (missing > 0 ? ` ${missing} UUIDs were not found.` : '')
+      );
+      setUuidText('');
+    } catch (err) {
+      console.error('[Radio Browser] UUID lookup failed', err);
+      report(null, 'We could not reach the Radio Browser service. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <details className="backup-panel">
+      <summary>Backup &amp; import</summary>
+      <p className="hint">
+        A backup holds favourites, fallbacks, custom stations, Talk Killer, player, equalizer,
+        shortcut, alarm and schedule settings, search filters and cached search results.
+      </p>
+      <div className="backup-toolbar">
+        <button
+          type="button"
+          className="ghost"
+          onClick={() =>
+            downloadText(
+              `raven-radio-backup-${localDay(Date.now())}.json`,
+              createBackup(getBackupData()),
+              'application/json'
+            )
+          }
+        >
+          Export backup
+        </button>
+        <label className="ghost file-button">
+          Restore backup
+          <input type="file" accept="application/json,.json" onChange={handleRestore} />
+        </label>
+        <label className="ghost file-button">
+          Import M3U/PLS
+          <input
+            type="file"
+            accept=".m3u,.m3u8,.pls,audio/x-mpegurl,audio/x-scpls"
+            onChange={handlePlaylist}
+          />
+        </label>
+      </div>
+      <label className="uuid-import">
+        Radio Browser station UUIDs
+        <textarea
+          rows={3}
+          value={uuidText}
+          placeholder="One per line, or paste any text containing them"
+          onChange={(event) => setUuidText(event.target.value)}
+        />
+      </label>
+      <div className="backup-toolbar">
+        <button
+          type="button"
+          className="ghost"
+          disabled={busy || !uuidText.trim()}
+          onClick={handleUuids}
+        >
+          {busy ? 'Looking up...' : 'Add to favourites'}
+        </button>
+      </div>
+      {message && <p className="hint">{message}</p>}
+      {error && <div className="error">{error}</div>}
+    </details>
+  );
+}
+
+export default BackupPanel;
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { Station } from '../stations';
+import { backupVersion, createBackup, parseBackup, type BackupData } from './backup';
+import backupV1 from './fixtures/backup-v1.json';
+
+const stations: Station[] = [
+  {
+    id: 'jazz-fm',
+    name: 'Jazz FM',
+    country: 'UK',
+    tags: ['jazz'],
+    url: 'https://stream.example.com/jazz.mp3',
+    codec: 'MP3'
+  }
+];
+
+const jazzFavourite = {
+  key: 'jazz-fm',
+  name: 'Jazz FM',
+  country: 'UK',
+  tags: ['jazz'],
+  url: 'https://stream.example.com/jazz.mp3',
+  codec: 'MP3',
+  source: 'local',
+  localId: 'jazz-fm'
+};
+
+const withVersion = (version: number, data: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: 'raven-radio-backup', version, exportedAt: '', data });
+
+describe('parseBackup', () => {
+  it('upgrades a version 1 backup', () => {
+    const { data, version } = parseBackup(JSON.stringify(backupV1), { stations });
+    expect(version).toBe(1);
+    expect(data.favourites).toEqual([jazzFavourite, backupV1.data.favourites[2]]);
+    expect(data.fallbacks).toEqual([{ ...jazzFavourite, weight: 1 }, backupV1.data.fallbacks[1]]);
+  });
+
+  it('skips unknown sections and sections that fail their checks', () => {
+    const { data, skipped } = parseBackup(JSON.stringify(backupV1), { stations });
+    expect(skipped).toEqual(['Equalizer & loudness', 'theme']);
+    expect(data.effects).toBeUndefined();
+    expect(data.shortcuts).toEqual({ playPause: 'K' });
+  });
+
+  it('skips a schedule that does not parse', () => {
+    const { data, skipped } = parseBackup(
+      withVersion(backupVersion, { schedule: { entries: 'weekly' }, alarm: { enabled: false } }),
+      { stations }
+    );
+    expect(skipped).toEqual(['Programme schedule']);
+    expect(data).toEqual({ alarm: { enabled: false } });
+  });
+
+  it('rejects backups from a newer version', () => {
+    expect(() => parseBackup(withVersion(backupVersion + 1), { stations })).toThrow(
+      `The backup is from a newer version of the app (format ${backupVersion + 1}); update and try again.`
+    );
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackup('{', { stations })).toThrow('The file is not valid JSON.');
+    expect(() => parseBackup('{"format":"other","data":{}}', { stations })).toThrow(
+      'This is not a Raven-Radio backup file.'
+    );
+    expect(() => parseBackup(withVersion(0), { stations })).toThrow(
+      'The backup has no valid version number.'
+    );
+  });
+
+  it('reads back what createBackup writes', () => {
+    const favourites = [{ ...jazzFavourite, source: 'local' as const }];
+    const text = createBackup({ favourites } as unknown as BackupData);
+    expect(parseBackup(text, { stations: [] })).toEqual({
+      data: { favourites },
+      version: backupVersion,
+      skipped: []
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import type { EffectsProfiles, EffectsSettings } from '../effects/settings';
+import type { PlayerSettings } from '../audio/deckPlayer';
+import type { RadioBrowserSearch } from '../radioBrowser/client';
+import type { ShortcutBindings } from '../shortcuts/shortcuts';
+import type { FallbackStation, FavouriteStation, SearchStation, Station } from '../stations';
+import type { TalkKillerProfiles, TalkKillerSettings } from '../talkKiller/settings';
+import { parseScheduleJson, type Schedule } from '../timers/schedule';
+import type { AlarmSettings } from '../timers/timers';
+
+export const backupFormat = 'raven-radio-backup';
+
+/**
+ * 1: favourites and fallbacks could still be bare local station ids.
+ * 2: they are always `FavouriteStation` / `FallbackStation` entries.
+ */
+export const backupVersion = 2;
+
+export type BackupData = {
+  favourites: FavouriteStation[];
+  fallbacks: FallbackStation[];
+  customStations: Station[];
+  settings: TalkKillerSettings;
+  talkKillerProfiles: TalkKillerProfiles;
+  player: PlayerSettings;
+  effects: EffectsSettings;
+  effectsProfiles: EffectsProfiles;
+  shortcuts: Partial<ShortcutBindings>;
+  alarm: AlarmSettings;
+  schedule: Schedule;
+  searchFilters: RadioBrowserSearch;
+  searchCache: { key: string; results: SearchStation[]; cachedAt: number }[];
+};
+
+export type BackupSection = keyof BackupData;
+
+export type Backup = {
+  format: typeof backupFormat;
+  version: number;
+  exportedAt: string;
+  data: Partial<BackupData>;
+};
+
+export const backupSectionLabels: Record<BackupSection, string> = {
+  favourites: 'Favourites',
+  fallbacks: 'Fallback list',
+  customStations: 'Custom stations',
+  settings: 'Talk Killer settings',
+  talkKillerProfiles: 'Talk Killer station profiles',
+  player: 'Player settings',
+  effects: 'Equalizer & loudness',
+  effectsProfiles: 'Equalizer station profiles',
+  shortcuts: 'Keyboard shortcuts',
+  alarm: 'Alarm',
+  schedule: 'Programme schedule',
+  searchFilters: 'Search filters',
+  searchCache: 'Cached search results'
+};
+
+const localFavourite = (station: Station): FavouriteStation => ({
+  key: station.id,
+  name: station.name,
+  country: station.country,
+  tags: station.tags,
+  url: station.url,
+  codec: station.codec,
+  source: 'local',
+  localId: station.id
+});
+
+const isStationEntry = (item: unknown): item is FavouriteStation => {
+  const record = item as Record<string, unknown> | null;
+  return (
+    !!record &&
+    typeof record === 'object' &&
+    typeof record.key === 'string' &&
+    typeof record.name === 'string' &&
+    typeof record.url === 'string'
+  );
+};
+
+/**
+ * Brings a stored favourites list up to date: version 1 kept bare local
+ * station ids, which are looked up in `stations` (unknown ids are dropped).
+ */
+export const migrateFavourites = (value: unknown, stations: Station[]): FavouriteStation[] =>
+  (Array.isArray(value) ? (value as unknown[]) : []).flatMap((item) => {
+    if (typeof item === 'string') {
+      const station = stations.find((entry) => entry.id === item);
+      return station ? [localFavourite(station)] : [];
+    }
+    return isStationEntry(item) ? [item] : [];
+  });
+
+/** Like `migrateFavourites`; entries without a weight get the default of 1. */
+export const migrateFallbacks = (value: unknown, stations: Station[]): FallbackStation[] =>
+  migrateFavourites(value, stations).map((station) => {
+    const weight = (station as Partial<FallbackStation>).weight;
+    return { ...station, weight: typeof weight === 'number' ? weight : 1 };
+  });
+
+export type MigrationContext = {
+  /** The catalog ids in old backups refer to. */
+  stations: Station[];
+};
+
+/** `migrations[n]` upgrades version n data to version n + 1. */
+const migrations: Record<
+  number,
+  (data: Record<string, unknown>, context: MigrationContext) => Record<string, unknown>
+> = {
+  1: (data, { stations }) => ({
+    ...data,
+    ...(data.favourites !== undefined && {
+      favourites: migrateFavourites(data.favourites, stations)
+    }),
+    ...(data.fallbacks !== undefined && {
+      fallbacks: migrateFallbacks(data.fallbacks, stations)
+    })
+  })
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Per-section shape checks; a section that fails is left out of the restore. */
+const sectionCheckers: Record<BackupSection, (value: unknown) => boolean> = {
+  favourites: (value) => Array.isArray(value) && value.every(isStationEntry),
+  fallbacks: (value) => Array.isArray(value) && value.every(isStationEntry),
+  customStations: Array.isArray,
+  settings: isPlainObject,
+  talkKillerProfiles: isPlainObject,
+  player: isPlainObject,
+  effects: (value) => isPlainObject(value) && Array.isArray(value.bands),
+  effectsProfiles: isPlainObject,
+  shortcuts: isPlainObject,
+  alarm: isPlainObject,
+  schedule: (value) => {
+    try {
+      parseScheduleJson(JSON.stringify(value));
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  searchFilters: isPlainObject,
+  searchCache: (value) =>
+    Array.isArray(value) &&
+    value.every((entry) => isPlainObject(entry) && Array.isArray(entry.results))
+};
+
+export const createBackup = (data: BackupData): string =>
+  JSON.stringify(
+    {
+      format: backupFormat,
+      version: backupVersion,
+      exportedAt: new Date().toISOString(),
+      data
+    } satisfies Backup,
+    null,
+    2
+  );
+
+/**
+ * Reads a backup file, upgrading older versions step by step. Sections that
+ * are unknown or fail their shape check are reported in `skipped` rather than
+ * failing the whole restore.
+ */
+export const parseBackup = (
+  text: string,
+  context: MigrationContext
+): { data: Partial<BackupData>; version: number; skipped: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isPlainObject(parsed) || parsed.format !== backupFormat || !isPlainObject(parsed.data)) {
+    throw new Error('This is not a Raven-Radio backup file.');
+  }
+  const version = parsed.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('The backup has no valid version number.');
+  }
+  if (version > backupVersion) {
+    throw new Error(
+      `The backup is from a newer version of the app (format ${version}); update and try again.`
+    );
+  }
+
+  let raw = parsed.data;
+  for (let step = version; step < backupVersion; step += 1) {
+    raw = migrations[step](raw, context);
+  }
+
+  const data: Partial<BackupData> = {};
+  const skipped: string[] = [];
+  Object.entries(raw).forEach(([key, value]) => {
+    const section = key as BackupSection;
+    if (!(section in sectionCheckers)) {
+      skipped.push(key);
+      return;
+    }
+    if (!sectionCheckers[section](value)) {
+      skipped.push(backupSectionLabels[section]);
+      return;
+    }
+    (data as Record<string, unknown>)[section] = value;
+  });
+  return { data, version, skipped };
+};
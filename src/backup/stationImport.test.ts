@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import hlsM3u8 from '../../shared/fixtures/playlists/hls.m3u8?raw';
+import playlistM3u from './fixtures/playlist.m3u?raw';
+import playlistPls from './fixtures/playlist.pls?raw';
+import { parsePlaylistEntries, parseStationUuids } from './stationImport';
+
+describe('parsePlaylistEntries', () => {
+  it('names M3U entries from #EXTINF, keeping the first of duplicate URLs', () => {
+    expect(parsePlaylistEntries(playlistM3u)).toEqual([
+      { name: 'Jazz FM', url: 'https://stream.example.com/jazz.mp3' },
+      { name: 'stream.example.com/rock.aac', url: 'https://stream.example.com/rock.aac' }
+    ]);
+  });
+
+  it('names PLS entries from the matching TitleN line', () => {
+    expect(parsePlaylistEntries(playlistPls)).toEqual([
+      { name: 'Station A', url: 'https://stream.example.com/a.mp3' },
+      { name: 'Station B', url: 'https://stream.example.com/b.mp3' },
+      { name: 'stream.example.com/c.mp3', url: 'https://stream.example.com/c.mp3' }
+    ]);
+  });
+
+  it('rejects HLS playlists and playlists without stream URLs', () => {
+    expect(() => parsePlaylistEntries(hlsM3u8)).toThrow('This is an HLS stream playlist');
+    expect(() => parsePlaylistEntries('#EXTM3U\n')).toThrow('No stream URLs found');
+  });
+});
+
+describe('parseStationUuids', () => {
+  it('finds unique, lowercased UUIDs in any text', () => {
+    expect(
+      parseStationUuids(
+        '["9617A958-0601-11E8-AE97-52543BE04C81", "9617a958-0601-11e8-ae97-52543be04c81"]\nnot-a-uuid'
+      )
+    ).toEqual(['9617a958-0601-11e8-ae97-52543be04c81']);
+  });
+});
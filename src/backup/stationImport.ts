@@ -0,0 +1,96 @@
+import { parseM3u, parsePls } from '../../shared/playlist.js';
+import type { FavouriteStation, SearchStation } from '../stations';
+
+export type PlaylistEntry = {
+  name: string;
+  url: string;
+};
+
+const uuidPattern = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+/** Radio Browser's `byuuid` endpoint takes a comma separated list; keep URLs short. */
+export const uuidBatchSize = 50;
+
+const isHttpUrl = (value: string) => /^https?:\/\//i.test(value);
+
+const nameFromUrl = (url: string) => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return `${hostname}${pathname === '/' ? '' : pathname}`;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Station names keyed by URL: `#EXTINF:-1,Name` names the M3U line after it,
+ * `TitleN=` names the PLS `FileN=` entry.
+ */
+const playlistTitles = (text: string) => {
+  const titles = new Map<string, string>();
+  const files = new Map<string, string>();
+  const plsTitles = new Map<string, string>();
+  let extinf = '';
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    const pls = line.match(/^(File|Title)(\d+)\s*=\s*(.+)$/i);
+    if (pls) {
+      (pls[1].toLowerCase() === 'file' ? files : plsTitles).set(pls[2], pls[3].trim());
+    } else if (line.toUpperCase().startsWith('#EXTINF')) {
+      extinf = line.slice(line.indexOf(',') + 1).trim();
+    } else if (line && !line.startsWith('#')) {
+      if (extinf && !titles.has(line)) {
+        titles.set(line, extinf);
+      }
+      extinf = '';
+    }
+  });
+  files.forEach((url, index) => {
+    const title = plsTitles.get(index);
+    if (title && !titles.has(url)) {
+      titles.set(url, title);
+    }
+  });
+  return titles;
+};
+
+/**
+ * Reads the stations listed in an M3U or PLS playlist, de-duplicated by URL.
+ * HLS media playlists are rejected: they describe one stream, not a list.
+ */
+export const parsePlaylistEntries = (text: string): PlaylistEntry[] => {
+  if (text.includes('#EXT-X-')) {
+    throw new Error('This is an HLS stream playlist; add its URL as a station instead.');
+  }
+  const urls = Array.from(
+    new Set((/^\s*\[playlist\]/i.test(text) ? parsePls(text) : parseM3u(text)).filter(isHttpUrl))
+  );
+  if (urls.length === 0) {
+    throw new Error('No stream URLs found in the playlist.');
+  }
+  const titles = playlistTitles(text);
+  return urls.map((url) => ({ name: titles.get(url) || nameFromUrl(url), url }));
+};
+
+export const playlistEntryToFavourite = (entry: PlaylistEntry): FavouriteStation => ({
+  key: entry.url,
+  name: entry.name,
+  url: entry.url,
+  source: 'search'
+});
+
+/** Every Radio Browser station UUID in the text (one per line, JSON, CSV...), lowercased. */
+export const parseStationUuids = (text: string) =>
+  Array.from(new Set((text.match(uuidPattern) ?? []).map((uuid) => uuid.toLowerCase())));
+
+export const searchStationToFavourite = (station: SearchStation): FavouriteStation => ({
+  key: station.stationuuid || station.url,
+  name: station.name,
+  country: station.country,
+  tags: station.tags,
+  url: station.url,
+  codec: station.codec,
+  bitrate: station.bitrate,
+  stationuuid: station.stationuuid,
+  source: 'search'
+});
@@ -0,0 +1,46 @@
+import { defaultPlayerSettings } from '../audio/deckPlayer';
+import { defaultEffectsSettings } from '../effects/settings';
+import { defaultSearchFilters } from '../radioBrowser/useStationSearch';
+import { defaultSettings, talkKillerSettingsVersion } from '../talkKiller/settings';
+import { defaultAlarmSettings } from '../timers/timers';
+import { backupSectionLabels, type BackupData, type BackupSection } from './backup';
+
+/** The current value of a section and the setter that replaces it. */
+export type BackupSectionState<K extends BackupSection> = readonly [
+  BackupData[K],
+  (value: BackupData[K]) => void
+];
+
+export type BackupSections = { [K in BackupSection]: BackupSectionState<K> };
+
+/** Object sections are merged over the defaults so settings added since the backup get a value. */
+const restoredValue: { [K in BackupSection]?: (value: BackupData[K]) => BackupData[K] } = {
+  // Backups postdate the classifier, so their sensitivity is already a confidence.
+  settings: (value) => ({ ...defaultSettings, ...value, version: talkKillerSettingsVersion }),
+  player: (value) => ({ ...defaultPlayerSettings, ...value }),
+  effects: (value) => ({ ...defaultEffectsSettings, ...value }),
+  alarm: (value) => ({ ...defaultAlarmSettings, ...value }),
+  searchFilters: (value) => ({ ...defaultSearchFilters, ...value })
+};
+
+const backupSections = Object.keys(backupSectionLabels) as BackupSection[];
+
+/** Collects every backed-up section for export and writes restored ones back. */
+export function useBackup(sections: BackupSections) {
+  const getBackupData = () =>
+    Object.fromEntries(backupSections.map((key) => [key, sections[key][0]])) as BackupData;
+
+  const restoreSection = <K extends BackupSection>(key: K, value: BackupData[K] | undefined) => {
+    if (value) {
+      const restore = restoredValue[key];
+      sections[key][1](restore ? restore(value) : value);
+    }
+  };
+
+  /** Replaces each section the backup contains. */
+  const restoreBackup = (data: Partial<BackupData>) => {
+    backupSections.forEach((key) => restoreSection(key, data[key]));
+  };
+
+  return { getBackupData, restoreBackup };
+}
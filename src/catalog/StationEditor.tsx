@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { downloadText } from '../download';
+import { metadataFormats } from '../metadata/adapters';
+import type { Station } from '../stations';
+import {
+  createStationId,
+  draftToStation,
+  emptyStationDraft,
+  stationToDraft,
+  stationsToCatalogJson,
+  type CatalogIssue,
+  type StationDraft
+} from './customStations';
+
+type StationEditorProps = {
+  customStations: Station[];
+  /** Ids of the bundled catalog, which custom stations may not reuse. */
+  bundledIds: string[];
+  issues: CatalogIssue[];
+  onSave: (station: Station, previousId: string | null) => void;
+  onDelete: (id: string) => void;
+};
+
+const codecOptions = ['MP3', 'AAC', 'AAC+', 'OGG', 'OPUS', 'FLAC', 'HLS'];
+
+function StationEditor({
+  customStations,
+  bundledIds,
+  issues,
+  onSave,
+  onDelete
+}: StationEditorProps) {
+  const [draft, setDraft] = useState<StationDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const otherIds = [
+    ...bundledIds,
+    ...customStations.map((station) => station.id).filter((id) => id !== editingId)
+  ];
+
+  const update = (patch: Partial<StationDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const startEditing = (station: Station | null) => {
+    setDraft(station ? stationToDraft(station) : emptyStationDraft);
+    setEditingId(station?.id ?? null);
+    setErrors([]);
+  };
+
+  const close = () => {
+    setDraft(null);
+    setEditingId(null);
+    setErrors([]);
+  };
+
+  const save = () => {
+    if (!draft) {
+      return;
+    }
+    const withId = draft.id.trim()
+      ? draft
+      : { ...draft, id: createStationId(draft.name, otherIds) };
+    const result = draftToStation(withId, otherIds);
+    if (!result.station) {
+      setErrors(result.errors);
+      return;
+    }
+    onSave(result.station, editingId);
+    close();
+  };
+
+  const field = (key: keyof StationDraft, label: string, placeholder = '') => (
+    <label>
+      {label}
+      <input
+        type="text"
+        value={draft?.[key] ?? ''}
+        placeholder={placeholder}
+        onChange={(event) => update({ [key]: event.target.value })}
+      />
+    </label>
+  );
+
+  return (
+    <details className="station-editor">
+      <summary>Custom stations</summary>
+      {issues.length > 0 && (
+        <div className="warning">
+          Some catalog entries have problems
+          {issues.some((issue) => issue.level === 'error') && ' and were skipped'}:
+          <ul>
+            {issues.map((issue, index) => (
+              <li key={index}>
+                <code>{issue.path}</code> {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="station-editor-toolbar">
+        <button type="button" className="ghost" onClick={() => startEditing(null)}>
+          Add station
+        </button>
+        <button
+          type="button"
+          className="ghost"
+          disabled={customStations.length === 0}
+          onClick={() =>
+            downloadText(
+              'stations.custom.json',
+              stationsToCatalogJson(customStations),
+              'application/json'
+            )
+          }
+        >
+          Export as stations.json
+        </button>
+      </div>
+      <ul className="custom-station-list">
+        {customStations.length === 0 && (
+          <li className="empty">No custom stations yet. They are stored in this browser.</li>
+        )}
+        {customStations.map((station) => (
+          <li key={station.id}>
+            <span>
+              {station.name} <span className="subtle">{station.id}</span>
+            </span>
+            <button type="button" className="ghost" onClick={() => startEditing(station)}>
+              Edit
+            </button>
+            <button type="button" className="ghost" onClick={() => onDelete(station.id)}>
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {draft && (
+        <form
+          className="station-form"
+          onSubmit={(event) => {
+            event.preventDefault();
+            save();
+          }}
+        >
+          <h4>{editingId ? `Edit ${draft.name || editingId}` : 'New station'}</h4>
+          {field('name', 'Name')}
+          <label>
+            Id
+            <input
+              type="text"
+              value={draft.id}
+              placeholder={createStationId(draft.name, otherIds)}
+              disabled={editingId !== null}
+              onChange={(event) => update({ id: event.target.value })}
+            />
+          </label>
+          {field('country', 'Country')}
+          {field('tags', 'Tags', 'jazz, news')}
+          {field('url', 'Stream URL', 'https://')}
+          <label>
+            Mirror URLs
+            <textarea
+              rows={2}
+              value={draft.mirrors}
+              placeholder="One per line"
+              onChange={(event) => update({ mirrors: event.target.value })}
+            />
+          </label>
+          <label>
+            Codec
+            <select value={draft.codec} onChange={(event) => update({ codec: event.target.value })}>
+              {!codecOptions.includes(draft.codec) && (
+                <option value={draft.codec}>{draft.codec}</option>
+              )}
+              {codecOptions.map((codec) => (
+                <option key={codec} value={codec}>
+                  {codec}
+                </option>
+              ))}
+            </select>
+          </label>
+          {field('metadataUrl', 'Metadata URL', 'Optional')}
+          <label>
+            Metadata format
+            <select
+              value={draft.metadataFormat}
+              onChange={(event) => update({ metadataFormat: event.target.value })}
+            >
+              <option value="">Detect automatically</option>
+              {metadataFormats.map((format) => (
+                <option key={format} value={format}>
+                  {format}
+                </option>
+              ))}
+            </select>
+          </label>
+          {field('logo', 'Logo URL', 'Optional')}
+          {errors.length > 0 && (
+            <ul className="error">
+              {errors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+          <div className="station-editor-toolbar">
+            <button type="submit">Save</button>
+            <button type="button" className="ghost" onClick={close}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </details>
+  );
+}
+
+export default StationEditor;
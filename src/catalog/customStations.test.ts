@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import stationsJson from '../stations.json?raw';
+import {
+  draftToStation,
+  emptyStationDraft,
+  loadCatalog,
+  stationsToCatalogJson,
+  stationToDraft,
+  type StationDraft
+} from './customStations';
+
+const draft: StationDraft = {
+  ...emptyStationDraft,
+  id: 'jazz-fm',
+  name: 'Jazz FM',
+  country: 'UK',
+  tags: 'jazz, smooth jazz, ',
+  url: ' https://jazz.example.com/live.mp3 ',
+  mirrors: 'https://mirror.example.com/live.mp3\n\nhttps://backup.example.com/live.mp3\n'
+};
+
+describe('draftToStation', () => {
+  it('turns the text fields into a station', () => {
+    expect(draftToStation(draft, [])).toEqual({
+      station: {
+        id: 'jazz-fm',
+        name: 'Jazz FM',
+        country: 'UK',
+        tags: ['jazz', 'smooth jazz'],
+        url: 'https://jazz.example.com/live.mp3',
+        urls: ['https://mirror.example.com/live.mp3', 'https://backup.example.com/live.mp3'],
+        codec: 'MP3'
+      },
+      errors: []
+    });
+  });
+
+  it('reports each problem without the station prefix', () => {
+    expect(draftToStation({ ...draft, url: '', mirrors: 'mirror.example.com' }, [])).toEqual({
+      station: null,
+      errors: [
+        'url must be a non-empty string, got an empty string',
+        'urls[0] must be an http(s) URL, got "mirror.example.com"'
+      ]
+    });
+  });
+
+  it('rejects an id another station already uses', () => {
+    expect(draftToStation(draft, ['soma-groove-salad', 'jazz-fm'])).toEqual({
+      station: null,
+      errors: ['id "jazz-fm" is already used by another station']
+    });
+  });
+
+  it('rejects an unknown metadata format', () => {
+    const { errors } = draftToStation(
+      { ...draft, metadataUrl: 'https://jazz.example.com/status', metadataFormat: 'xml' },
+      []
+    );
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^metadataFormat must be one of .+, got "xml"$/);
+  });
+});
+
+describe('stationsToCatalogJson', () => {
+  it('round-trips a draft through JSON and back through the schema', () => {
+    const { station } = draftToStation({ ...draft, logo: 'https://jazz.example.com/logo.png' }, []);
+    const json = stationsToCatalogJson([station!]);
+    const { stations, issues } = loadCatalog(JSON.parse(json));
+    expect(issues).toEqual([]);
+    expect(stations).toEqual([station]);
+    expect(stationToDraft(stations[0])).toEqual({
+      ...draft,
+      tags: 'jazz, smooth jazz',
+      url: 'https://jazz.example.com/live.mp3',
+      mirrors: 'https://mirror.example.com/live.mp3\nhttps://backup.example.com/live.mp3',
+      logo: 'https://jazz.example.com/logo.png'
+    });
+  });
+
+  it('writes the bundled catalog in the layout of stations.json', () => {
+    const { stations, issues } = loadCatalog(JSON.parse(stationsJson));
+    expect(issues).toEqual([]);
+    expect(stationsToCatalogJson(stations)).toBe(stationsJson);
+  });
+});
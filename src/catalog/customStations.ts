@@ -0,0 +1,139 @@
+import {
+  formatCatalogIssue,
+  stationKeys,
+  validateCatalog,
+  validateStation,
+  type CatalogIssue
+} from '../../shared/catalog.js';
+import { metadataFormats } from '../metadata/adapters';
+import type { Station } from '../stations';
+
+export { formatCatalogIssue, type CatalogIssue };
+
+export type StationCatalog = {
+  stations: Station[];
+  issues: CatalogIssue[];
+};
+
+/** Form state for the station editor; list fields are edited as text. */
+export type StationDraft = {
+  id: string;
+  name: string;
+  country: string;
+  /** Comma separated. */
+  tags: string;
+  url: string;
+  /** One mirror URL per line. */
+  mirrors: string;
+  codec: string;
+  metadataUrl: string;
+  metadataFormat: string;
+  logo: string;
+};
+
+export const emptyStationDraft: StationDraft = {
+  id: '',
+  name: '',
+  country: '',
+  tags: '',
+  url: '',
+  mirrors: '',
+  codec: 'MP3',
+  metadataUrl: '',
+  metadataFormat: '',
+  logo: ''
+};
+
+/** Validates a catalog against the schema, keeping only the usable stations. */
+export const loadCatalog = (
+  data: unknown,
+  options: { name?: string; reservedIds?: string[] } = {}
+): StationCatalog => {
+  const { stations, issues } = validateCatalog(data, { ...options, metadataFormats });
+  // metadataFormat was checked against the adapter list above.
+  return { stations: stations as Station[], issues };
+};
+
+export const stationToDraft = (station: Station): StationDraft => ({
+  id: station.id,
+  name: station.name,
+  country: station.country,
+  tags: station.tags.join(', '),
+  url: station.url,
+  mirrors: (station.urls ?? []).join('\n'),
+  codec: station.codec,
+  metadataUrl: station.metadataUrl ?? '',
+  metadataFormat: station.metadataFormat ?? '',
+  logo: station.logo ?? ''
+});
+
+/** Lowercase, dash-separated id from a name, made unique against `takenIds`. */
+export const createStationId = (name: string, takenIds: string[]) => {
+  const base =
+    name
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'station';
+  let id = base;
+  for (let suffix = 2; takenIds.includes(id); suffix += 1) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+};
+
+/**
+ * Turns a draft into a station, or the list of problems with it. `takenIds`
+ * are the ids of every other station, bundled or custom.
+ */
+export const draftToStation = (
+  draft: StationDraft,
+  takenIds: string[]
+): { station: Station | null; errors: string[] } => {
+  const optional = (value: string) => value.trim() || undefined;
+  const mirrors = draft.mirrors
+    .split(/\s+/)
+    .map((url) => url.trim())
+    .filter(Boolean);
+  const candidate = {
+    id: draft.id.trim(),
+    name: draft.name,
+    country: draft.country,
+    tags: draft.tags.split(','),
+    url: draft.url.trim(),
+    urls: mirrors.length > 0 ? mirrors : undefined,
+    codec: draft.codec,
+    metadataUrl: optional(draft.metadataUrl),
+    metadataFormat: optional(draft.metadataFormat),
+    logo: optional(draft.logo)
+  };
+  const { station, errors } = validateStation(candidate, { path: 'station', metadataFormats });
+  const messages = errors.map(
+    (error) => `${error.path.replace(/^station\.?/, '')} ${error.message}`
+  );
+  if (takenIds.includes(candidate.id)) {
+    messages.push(`id "${candidate.id}" is already used by another station`);
+  }
+  return { station: messages.length > 0 ? null : (station as Station), errors: messages };
+};
+
+const formatStation = (station: Station) => {
+  const record = station as Record<string, unknown>;
+  const lines = stationKeys
+    .filter((key) => record[key] !== undefined)
+    .map((key) => {
+      const value = record[key];
+      // stations.json keeps tags on one line and mirrors one per line.
+      const json =
+        key === 'tags' && Array.isArray(value)
+          ? `[${value.map((tag) => JSON.stringify(tag)).join(', ')}]`
+          : JSON.stringify(value, null, 2).replace(/\n/g, '\n    ');
+      return `    "${key}": ${json}`;
+    });
+  return `  {\n${lines.join(',\n')}\n  }`;
+};
+
+/** Serialises stations in the layout of `src/stations.json`, ready to paste upstream. */
+export const stationsToCatalogJson = (stations: Station[]) =>
+  `[\n${stations.map(formatStation).join(',\n')}\n]\n`;
@@ -0,0 +1,49 @@
+import { useMemo } from 'react';
+import stationsData from '../stations.json';
+import type { Station } from '../stations';
+import { useLocalStorage } from '../useLocalStorage';
+import { formatCatalogIssue, loadCatalog } from './customStations';
+
+const bundledCatalog = loadCatalog(stationsData);
+export const bundledIds = bundledCatalog.stations.map((station) => station.id);
+bundledCatalog.issues.forEach((issue) => console.warn('[Catalog]', formatCatalogIssue(issue)));
+
+/** The bundled catalog plus the listener's own stations, which are kept in `localStorage`. */
+export function useCustomStations() {
+  const [customStations, setCustomStations] = useLocalStorage<Station[]>(
+    'raven-radio:custom-stations',
+    []
+  );
+  // Stored stations are checked again: localStorage may hold an older shape.
+  const customCatalog = useMemo(
+    () => loadCatalog(customStations, { name: 'custom', reservedIds: bundledIds }),
+    [customStations]
+  );
+  const stations = useMemo(
+    () => [...bundledCatalog.stations, ...customCatalog.stations],
+    [customCatalog]
+  );
+
+  const saveCustomStation = (station: Station, previousId: string | null) => {
+    setCustomStations((prev) =>
+      previousId
+        ? prev.map((item) => (item.id === previousId ? station : item))
+        : [...prev, station]
+    );
+  };
+
+  const deleteCustomStation = (id: string) => {
+    setCustomStations((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  return {
+    stations,
+    customStations,
+    setCustomStations,
+    /** Custom stations that passed validation. */
+    validCustomStations: customCatalog.stations,
+    catalogIssues: [...bundledCatalog.issues, ...customCatalog.issues],
+    saveCustomStation,
+    deleteCustomStation
+  };
+}
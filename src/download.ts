@@ -0,0 +1,15 @@
+/** Saves generated text as a file through a temporary object URL. */
+export const downloadText = (filename: string, text: string, type: string) => {
+  downloadBlob(filename, new Blob([text], { type }));
+};
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,223 @@
+import {
+  applyEqPreset,
+  eqGainRange,
+  eqPresets,
+  loudnessTargets,
+  normalizationGainDb,
+  type EffectsSettings,
+  type EqBand
+} from './settings';
+
+type EffectsPanelProps = {
+  settings: EffectsSettings;
+  /** Name of the station profile in use, or null for the global settings. */
+  profileName: string | null;
+  canCustomise: boolean;
+  measuredLoudness: number | null;
+  bypassed: boolean;
+  onChange: (patch: Partial<EffectsSettings>) => void;
+  onCustomise: () => void;
+  onReset: () => void;
+};
+
+const formatFrequency = (frequency: number) =>
+  frequency >= 1000 ? `${frequency / 1000} kHz` : `${frequency} Hz`;
+
+const bandLabels: Record<EqBand['type'], string> = {
+  lowshelf: 'Low shelf',
+  peaking: 'Peak',
+  highshelf: 'High shelf'
+};
+
+function EffectsPanel({
+  settings,
+  profileName,
+  canCustomise,
+  measuredLoudness,
+  bypassed,
+  onChange,
+  onCustomise,
+  onReset
+}: EffectsPanelProps) {
+  const updateBand = (index: number, patch: Partial<EqBand>) => {
+    onChange({
+      preset: 'custom',
+      bands: settings.bands.map((band, item) => (item === index ? { ...band, ...patch } : band))
+    });
+  };
+
+  const normalizationDb = normalizationGainDb(settings, measuredLoudness);
+
+  return (
+    <details className="effects-panel">
+      <summary>Equalizer &amp; loudness</summary>
+      {bypassed && (
+        <div className="warning">
+          Effects are bypassed for this station due to stream restrictions.
+        </div>
+      )}
+      <div className="profile-bar">
+        <span>
+          Profile: <strong>{profileName ?? 'Global defaults'}</strong>
+        </span>
+        {profileName ? (
+          <button type="button" className="ghost" onClick={onReset}>
+            Reset to global defaults
+          </button>
+        ) : (
+          canCustomise && (
+            <button type="button" className="ghost" onClick={onCustomise}>
+              Customise for this station
+            </button>
+          )
+        )}
+      </div>
+      <div className="effects-toolbar">
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(event) => onChange({ enabled: event.target.checked })}
+          />
+          Enabled
+        </label>
+        <label>
+          Preset
+          <select
+            value={settings.preset}
+            onChange={(event) =>
+              onChange({
+                preset: event.target.value,
+                bands: applyEqPreset(settings.bands, event.target.value)
+              })
+            }
+          >
+            {Object.keys(eqPresets).map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+            {settings.preset === 'custom' && <option value="custom">Custom</option>}
+          </select>
+        </label>
+      </div>
+      <ul className="eq-bands">
+        {settings.bands.map((band, index) => (
+          <li key={index}>
+            <span className="subtle">{bandLabels[band.type]}</span>
+            <input
+              type="range"
+              min={-eqGainRange}
+              max={eqGainRange}
+              step={0.5}
+              value={band.gain}
+              onChange={(event) => updateBand(index, { gain: Number(event.target.value) })}
+              aria-label={`${formatFrequency(band.frequency)} gain`}
+            />
+            <span className="eq-gain">
+              {band.gain > 0 ? '+' : ''}
+              {band.gain} dB
+            </span>
+            <label>
+              Hz
+              <input
+                type="number"
+                min={20}
+                max={20000}
+                value={band.frequency}
+                onChange={(event) => updateBand(index, { frequency: Number(event.target.value) })}
+              />
+            </label>
+            {band.type === 'peaking' && (
+              <label>
+                Q
+                <input
+                  type="number"
+                  min={0.1}
+                  max={10}
+                  step={0.1}
+                  value={band.q}
+                  onChange={(event) => updateBand(index, { q: Number(event.target.value) })}
+                />
+              </label>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="effects-toolbar">
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={settings.compressor}
+            onChange={(event) => onChange({ compressor: event.target.checked })}
+          />
+          Compressor
+        </label>
+        <label>
+          Threshold (dB)
+          <input
+            type="number"
+            min={-60}
+            max={0}
+            value={settings.compressorThreshold}
+            disabled={!settings.compressor}
+            onChange={(event) => onChange({ compressorThreshold: Number(event.target.value) })}
+          />
+        </label>
+        <label>
+          Ratio
+          <input
+            type="number"
+            min={1}
+            max={20}
+            step={0.5}
+            value={settings.compressorRatio}
+            disabled={!settings.compressor}
+            onChange={(event) => onChange({ compressorRatio: Number(event.target.value) })}
+          />
+        </label>
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={settings.limiter}
+            onChange={(event) => onChange({ limiter: event.target.checked })}
+          />
+          Limiter
+        </label>
+      </div>
+      <div className="effects-toolbar">
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={settings.normalize}
+            onChange={(event) => onChange({ normalize: event.target.checked })}
+          />
+          Normalize loudness
+        </label>
+        <label>
+          Target
+          <select
+            value={settings.targetLoudness}
+            disabled={!settings.normalize}
+            onChange={(event) => onChange({ targetLoudness: Number(event.target.value) })}
+          >
+            {loudnessTargets.map((target) => (
+              <option key={target} value={target}>
+                {target} LUFS
+              </option>
+            ))}
+          </select>
+        </label>
+        {measuredLoudness !== null && (
+          <span className="subtle">
+            Measured {measuredLoudness.toFixed(1)} LUFS
+            {settings.normalize &&
+              `, ${normalizationDb > 0 ? '+' : ''}${normalizationDb.toFixed(1)} dB`}
+          </span>
+        )}
+      </div>
+    </details>
+  );
+}
+
+export default EffectsPanel;
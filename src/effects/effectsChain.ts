@@ -0,0 +1,169 @@
+import type { AudioGraph } from '../audio/deckPlayer';
+import { normalizationGainDb, type EffectsSettings } from './settings';
+
+export type EffectsChainOptions = {
+  /** Reported after every measured block for the station set with `setStation`. */
+  onLoudness: (stationKey: string, loudness: number) => void;
+};
+
+export type EffectsChain = {
+  apply: (settings: EffectsSettings) => void;
+  /** Routes `output` straight to `master`, e.g. for CORS-blocked streams. */
+  setBypass: (bypass: boolean) => void;
+  /** Starts a station from its remembered loudness, if any. */
+  setStation: (stationKey: string, loudness: number | undefined) => void;
+  destroy: () => void;
+};
+
+const measureMs = 100;
+const blockSeconds = 3;
+/** Blocks quieter than this are pauses or silence and are ignored. */
+const gateLoudness = -50;
+const smoothing = 0.25;
+const gainTimeConstant = 1.5;
+const switchTimeConstant = 0.1;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * EQ bands → compressor → normalization gain → limiter, inserted between the
+ * graph output and the master volume. Loudness is measured on the live mix
+ * through an approximate K-weighting (high shelf plus high-pass), in 3 s blocks.
+ */
+export const createEffectsChain = (
+  graph: AudioGraph,
+  { onLoudness }: EffectsChainOptions
+): EffectsChain => {
+  const { audioContext, output, master } = graph;
+  const bands: BiquadFilterNode[] = [];
+  const compressor = audioContext.createDynamicsCompressor();
+  const limiter = audioContext.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.1;
+  const normalizer = audioContext.createGain();
+
+  const shelf = audioContext.createBiquadFilter();
+  shelf.type = 'highshelf';
+  shelf.frequency.value = 1500;
+  shelf.gain.value = 4;
+  const highpass = audioContext.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = 38;
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 2048;
+  const samples = new Float32Array(analyser.fftSize);
+  graph.mix.connect(shelf);
+  shelf.connect(highpass);
+  highpass.connect(analyser);
+
+  let settings: EffectsSettings | null = null;
+  let bypass = false;
+  let route: AudioNode[] = [];
+  let stationKey = '';
+  let loudness: number | null = null;
+  let blockEnergy = 0;
+  let blockReads = 0;
+
+  const setNormalizerGain = (timeConstant: number) => {
+    const db = settings ? normalizationGainDb(settings, loudness) : 0;
+    const now = audioContext.currentTime;
+    normalizer.gain.cancelScheduledValues(now);
+    normalizer.gain.setTargetAtTime(dbToGain(db), now, timeConstant);
+  };
+
+  const connectRoute = () => {
+    output.disconnect();
+    route.forEach((node) => node.disconnect());
+    route = [];
+    if (!bypass && settings?.enabled) {
+      route = [
+        ...bands,
+        ...(settings.compressor ? [compressor] : []),
+        normalizer,
+        ...(settings.limiter ? [limiter] : [])
+      ];
+    }
+    [output, ...route].reduce((from, to) => {
+      from.connect(to);
+      return to;
+    });
+    (route[route.length - 1] ?? output).connect(master);
+  };
+
+  const measure = () => {
+    if (bypass || !settings?.enabled || !settings.normalize || !stationKey) {
+      return;
+    }
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let index = 0; index < samples.length; index += 1) {
+      sum += samples[index] * samples[index];
+    }
+    blockEnergy += sum / samples.length;
+    blockReads += 1;
+    if (blockReads * measureMs < blockSeconds * 1000) {
+      return;
+    }
+    const block = -0.691 + 10 * Math.log10(blockEnergy / blockReads || 1e-12);
+    blockEnergy = 0;
+    blockReads = 0;
+    if (block < gateLoudness) {
+      return;
+    }
+    loudness = loudness === null ? block : loudness + (block - loudness) * smoothing;
+    setNormalizerGain(gainTimeConstant);
+    onLoudness(stationKey, loudness);
+  };
+
+  const timer = window.setInterval(measure, measureMs);
+
+  return {
+    apply: (next) => {
+      const rebuild =
+        !settings ||
+        settings.enabled !== next.enabled ||
+        settings.compressor !== next.compressor ||
+        settings.limiter !== next.limiter;
+      next.bands.forEach((band, index) => {
+        const node = bands[index] ?? audioContext.createBiquadFilter();
+        bands[index] = node;
+        node.type = band.type;
+        node.frequency.value = band.frequency;
+        node.gain.value = band.gain;
+        node.Q.value = band.q;
+      });
+      compressor.threshold.value = next.compressorThreshold;
+      compressor.ratio.value = next.compressorRatio;
+      settings = next;
+      if (rebuild) {
+        connectRoute();
+      }
+      setNormalizerGain(gainTimeConstant);
+    },
+    setBypass: (next) => {
+      if (next !== bypass) {
+        bypass = next;
+        connectRoute();
+      }
+    },
+    setStation: (key, remembered) => {
+      stationKey = key;
+      loudness = remembered ?? null;
+      blockEnergy = 0;
+      blockReads = 0;
+      setNormalizerGain(switchTimeConstant);
+    },
+    destroy: () => {
+      window.clearInterval(timer);
+      route.forEach((node) => node.disconnect());
+      output.disconnect();
+      output.connect(master);
+      graph.mix.disconnect(shelf);
+      shelf.disconnect();
+      highpass.disconnect();
+    }
+  };
+};
@@ -0,0 +1,97 @@
+export type EqBandType = 'lowshelf' | 'peaking' | 'highshelf';
+
+export type EqBand = {
+  type: EqBandType;
+  frequency: number;
+  /** Boost or cut in dB. */
+  gain: number;
+  /** Only used by peaking bands. */
+  q: number;
+};
+
+export type EffectsSettings = {
+  enabled: boolean;
+  /** Name from `eqPresets`, or `custom` once a band was edited by hand. */
+  preset: string;
+  bands: EqBand[];
+  compressor: boolean;
+  compressorThreshold: number;
+  compressorRatio: number;
+  limiter: boolean;
+  normalize: boolean;
+  /** Loudness (LUFS, approximate) that normalization aims for. */
+  targetLoudness: number;
+};
+
+export type EffectsProfile = {
+  name: string;
+  overrides: Partial<EffectsSettings>;
+};
+
+export type EffectsProfiles = Record<string, EffectsProfile>;
+
+/** Last measured loudness per station key, so a switch is corrected at once. */
+export type LoudnessMemory = Record<string, number>;
+
+export const eqGainRange = 12;
+
+export const defaultEqBands: EqBand[] = [
+  { type: 'lowshelf', frequency: 80, gain: 0, q: 0.7 },
+  { type: 'peaking', frequency: 250, gain: 0, q: 1 },
+  { type: 'peaking', frequency: 1000, gain: 0, q: 1 },
+  { type: 'peaking', frequency: 4000, gain: 0, q: 1 },
+  { type: 'highshelf', frequency: 10000, gain: 0, q: 0.7 }
+];
+
+/** Band gains in dB, in `defaultEqBands` order. */
+export const eqPresets: Record<string, number[]> = {
+  Flat: [0, 0, 0, 0, 0],
+  'Bass boost': [6, 3, 0, 0, 0],
+  Vocal: [-2, -1, 3, 2, 0],
+  Treble: [0, 0, 0, 2, 5],
+  Loudness: [5, 1, -1, 1, 4],
+  Night: [-4, -1, 1, 1, -2]
+};
+
+export const defaultEffectsSettings: EffectsSettings = {
+  enabled: false,
+  preset: 'Flat',
+  bands: defaultEqBands,
+  compressor: false,
+  compressorThreshold: -24,
+  compressorRatio: 3,
+  limiter: true,
+  normalize: true,
+  targetLoudness: -18
+};
+
+export const loudnessTargets = [-23, -18, -16, -14];
+
+const maxBoostDb = 9;
+const maxCutDb = 15;
+
+/** Gain normalization applies for a measured loudness, clamped to avoid pumping up silence. */
+export const normalizationGainDb = (settings: EffectsSettings, loudness: number | null) => {
+  if (!settings.normalize || loudness === null) {
+    return 0;
+  }
+  return Math.max(-maxCutDb, Math.min(maxBoostDb, settings.targetLoudness - loudness));
+};
+
+export const applyEqPreset = (bands: EqBand[], preset: string) => {
+  const gains = eqPresets[preset];
+  if (!gains) {
+    return bands;
+  }
+  return bands.map((band, index) => ({ ...band, gain: gains[index] ?? 0 }));
+};
+
+export const resolveEffectsSettings = (
+  settings: EffectsSettings,
+  profile: EffectsProfile | undefined
+): EffectsSettings => {
+  const resolved = { ...defaultEffectsSettings, ...settings, ...profile?.overrides };
+  return resolved.bands.length === defaultEqBands.length
+    ? resolved
+    : { ...resolved, bands: defaultEqBands };
+};
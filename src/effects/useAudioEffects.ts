@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useRef, type RefObject } from 'react';
+import type { DeckPlayer } from '../audio/deckPlayer';
+import type { PlayableStation } from '../stations';
+import { useLocalStorage } from '../useLocalStorage';
+import { createEffectsChain, type EffectsChain } from './effectsChain';
+import {
+  defaultEffectsSettings,
+  resolveEffectsSettings,
+  type EffectsProfiles,
+  type EffectsSettings,
+  type LoudnessMemory
+} from './settings';
+
+/** Remembered station loudness is only rewritten when it moves this far. */
+const loudnessStoreStepDb = 0.5;
+
+type AudioEffectsOptions = {
+  station: PlayableStation | null;
+  /** `getStationKey` of `station`, or '' when nothing is tuned. */
+  stationKey: string;
+  isPlaying: boolean;
+  /** The stream cannot be processed (CORS), so the chain is bypassed. */
+  analysisBlocked: boolean;
+};
+
+/**
+ * The equalizer and loudness chain: global settings, per-station profiles and
+ * the loudness measured per station, all stored in `localStorage`.
+ */
+export function useAudioEffects(
+  playerRef: RefObject<DeckPlayer | null>,
+  { station, stationKey, isPlaying, analysisBlocked }: AudioEffectsOptions
+) {
+  const effectsRef = useRef<EffectsChain | null>(null);
+  const [effectsSettings, setEffectsSettings] = useLocalStorage<EffectsSettings>(
+    'raven-radio:effects',
+    defaultEffectsSettings
+  );
+  const [effectsProfiles, setEffectsProfiles] = useLocalStorage<EffectsProfiles>(
+    'raven-radio:effects-profiles',
+    {}
+  );
+  const [loudnessMemory, setLoudnessMemory] = useLocalStorage<LoudnessMemory>(
+    'raven-radio:loudness',
+    {}
+  );
+
+  const activeProfile = stationKey ? effectsProfiles[stationKey] : undefined;
+  const resolvedEffects = useMemo(
+    () => resolveEffectsSettings(effectsSettings, activeProfile),
+    [effectsSettings, activeProfile]
+  );
+
+  useEffect(() => {
+    const graph = playerRef.current?.graph;
+    if (effectsRef.current || !isPlaying || !graph) {
+      return;
+    }
+    effectsRef.current = createEffectsChain(graph, {
+      onLoudness: (key, loudness) => {
+        const rounded = Math.round(loudness * 10) / 10;
+        setLoudnessMemory((prev) =>
+          prev[key] !== undefined && Math.abs(prev[key] - rounded) < loudnessStoreStepDb
+            ? prev
+            : { ...prev, [key]: rounded }
+        );
+      }
+    });
+    effectsRef.current.apply(resolvedEffects);
+    effectsRef.current.setBypass(analysisBlocked);
+    effectsRef.current.setStation(stationKey, loudnessMemory[stationKey]);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    effectsRef.current?.apply(resolvedEffects);
+  }, [resolvedEffects]);
+
+  useEffect(() => {
+    effectsRef.current?.setBypass(analysisBlocked);
+  }, [analysisBlocked]);
+
+  useEffect(() => {
+    effectsRef.current?.setStation(stationKey, loudnessMemory[stationKey]);
+  }, [stationKey]);
+
+  useEffect(() => {
+    return () => {
+      effectsRef.current?.destroy();
+    };
+  }, []);
+
+  /** Edits the station profile when there is one, the global settings otherwise. */
+  const updateEffects = (patch: Partial<EffectsSettings>) => {
+    if (!activeProfile) {
+      setEffectsSettings({ ...effectsSettings, ...patch });
+      return;
+    }
+    setEffectsProfiles((prev) => ({
+      ...prev,
+      [stationKey]: {
+        ...activeProfile,
+        overrides: { ...activeProfile.overrides, ...patch }
+      }
+    }));
+  };
+
+  const customiseStationEffects = () => {
+    if (!station || !stationKey) {
+      return;
+    }
+    setEffectsProfiles((prev) => ({
+      ...prev,
+      [stationKey]: { name: station.name, overrides: { ...resolvedEffects } }
+    }));
+  };
+
+  const resetStationEffects = () => {
+    setEffectsProfiles((prev) => {
+      const next = { ...prev };
+      delete next[stationKey];
+      return next;
+    });
+  };
+
+  return {
+    effectsSettings,
+    setEffectsSettings,
+    effectsProfiles,
+    setEffectsProfiles,
+    activeProfile,
+    resolvedEffects,
+    measuredLoudness: stationKey ? (loudnessMemory[stationKey] ?? null) : null,
+    updateEffects,
+    customiseStationEffects,
+    resetStationEffects
+  };
+}
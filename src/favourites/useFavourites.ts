@@ -0,0 +1,223 @@
+import { useEffect, useMemo } from 'react';
+import { migrateFallbacks, migrateFavourites } from '../backup/backup';
+import {
+  getFavouriteKey,
+  getStationKey,
+  getStreamUrls,
+  type FallbackStation,
+  type FavouriteStation,
+  type PlayableStation,
+  type SearchStation,
+  type Station
+} from '../stations';
+import { useLocalStorage } from '../useLocalStorage';
+
+/** Stored lists written by older releases may still hold bare local station ids. */
+const isLegacyList = (list: unknown) =>
+  Array.isArray(list) && list.length > 0 && typeof list[0] === 'string';
+
+/** The favourites and fallback lists, stored in `localStorage` and kept up to date. */
+export function useFavourites(stations: Station[]) {
+  const [storedFavourites, setFavourites] = useLocalStorage<FavouriteStation[] | string[]>(
+    'raven-radio:favourites',
+    []
+  );
+  const [storedFallbacks, setFallbacks] = useLocalStorage<FallbackStation[] | string[]>(
+    'raven-radio:fallbacks',
+    []
+  );
+
+  // Older releases stored bare local station ids; see `migrateFavourites`.
+  const favourites = useMemo(
+    () => migrateFavourites(storedFavourites, stations),
+    [storedFavourites, stations]
+  );
+
+  useEffect(() => {
+    if (isLegacyList(storedFavourites)) {
+      setFavourites(favourites);
+    }
+  }, [storedFavourites, favourites, setFavourites]);
+
+  const fallbacks = useMemo(
+    () => migrateFallbacks(storedFallbacks, stations),
+    [storedFallbacks, stations]
+  );
+
+  useEffect(() => {
+    if (isLegacyList(storedFallbacks)) {
+      setFallbacks(fallbacks);
+    }
+  }, [storedFallbacks, fallbacks, setFallbacks]);
+
+  const updateFavourites = (update: (list: FavouriteStation[]) => FavouriteStation[]) => {
+    setFavourites((prev) => update(isLegacyList(prev) ? favourites : (prev as FavouriteStation[])));
+  };
+
+  const updateFallbacks = (update: (list: FallbackStation[]) => FallbackStation[]) => {
+    setFallbacks((prev) => update(isLegacyList(prev) ? fallbacks : (prev as FallbackStation[])));
+  };
+
+  const isFavourite = (key: string) => favourites.some((item) => item.key === key);
+
+  const isFallback = (key: string) => fallbacks.some((item) => item.key === key);
+
+  const addFavourite = (station: FavouriteStation) => {
+    updateFavourites((list) =>
+      list.some((item) => item.key === station.key) ? list : [station, ...list]
+    );
+  };
+
+  const removeFavourite = (key: string) => {
+    updateFavourites((list) => list.filter((item) => item.key !== key));
+  };
+
+  const toggleFavourite = (station: Station) => {
+    const key = station.id;
+    if (isFavourite(key)) {
+      removeFavourite(key);
+      return;
+    }
+    addFavourite({
+      key,
+      name: station.name,
+      country: station.country,
+      tags: station.tags,
+      url: station.url,
+      codec: station.codec,
+      stationuuid: station.id,
+      source: 'local',
+      localId: station.id
+    });
+  };
+
+  const addSearchFavourite = (station: SearchStation) => {
+    const key = getFavouriteKey(station);
+    if (!key) {
+      return;
+    }
+    addFavourite({
+      key,
+      name: station.name,
+      country: station.country,
+      tags: station.tags,
+      url: station.url,
+      codec: station.codec,
+      bitrate: station.bitrate,
+      stationuuid: station.stationuuid,
+      source: 'search'
+    });
+  };
+
+  /** Adds the stations that are not favourites yet and returns how many were added. */
+  const importFavourites = (list: FavouriteStation[]) => {
+    const known = new Set(favourites.map((item) => item.key));
+    const added = list.filter((item) => !known.has(item.key) && !!known.add(item.key));
+    if (added.length > 0) {
+      setFavourites([...favourites, ...added]);
+    }
+    return added.length;
+  };
+
+  const favouriteStreamUrls = (station: FavouriteStation) => {
+    const local = station.localId ? stations.find((item) => item.id === station.localId) : null;
+    return local ? getStreamUrls(local) : [station.url];
+  };
+
+  const addFallback = (station: FallbackStation) => {
+    updateFallbacks((list) =>
+      list.some((item) => item.key === station.key) ? list : [...list, station]
+    );
+  };
+
+  const removeFallback = (key: string) => {
+    updateFallbacks((list) => list.filter((item) => item.key !== key));
+  };
+
+  const setFallbackWeight = (key: string, weight: number) => {
+    updateFallbacks((list) => list.map((item) => (item.key === key ? { ...item, weight } : item)));
+  };
+
+  const toggleFallback = (station: Station) => {
+    if (isFallback(station.id)) {
+      removeFallback(station.id);
+      return;
+    }
+    addFallback({
+      key: station.id,
+      name: station.name,
+      country: station.country,
+      tags: station.tags,
+      url: station.url,
+      codec: station.codec,
+      source: 'local',
+      localId: station.id,
+      weight: 1
+    });
+  };
+
+  const addSearchFallback = (station: SearchStation) => {
+    addFallback({
+      key: getStationKey(station),
+      name: station.name,
+      country: station.country,
+      tags: station.tags,
+      url: station.url,
+      codec: station.codec,
+      bitrate: station.bitrate,
+      stationuuid: station.stationuuid,
+      source: 'search',
+      weight: 1
+    });
+  };
+
+  const addFavouriteFallback = (station: FavouriteStation) => {
+    addFallback({ ...station, source: 'favourite', weight: 1 });
+  };
+
+  /** Toggles whatever is playing, whether it is a local station or a search result. */
+  const togglePlayableFallback = (station: PlayableStation) => {
+    const local = stations.find((item) => item.id === station.id);
+    if (local) {
+      toggleFallback(local);
+      return;
+    }
+    const key = getStationKey(station);
+    if (isFallback(key)) {
+      removeFallback(key);
+      return;
+    }
+    addFallback({
+      key,
+      name: station.name,
+      country: station.country,
+      tags: station.tags,
+      url: station.url,
+      codec: station.codec,
+      bitrate: station.bitrate,
+      stationuuid: station.stationuuid,
+      source: 'search',
+      weight: 1
+    });
+  };
+
+  return {
+    favourites,
+    fallbacks,
+    setFavourites,
+    setFallbacks,
+    isFavourite,
+    isFallback,
+    removeFavourite,
+    toggleFavourite,
+    addSearchFavourite,
+    importFavourites,
+    favouriteStreamUrls,
+    removeFallback,
+    setFallbackWeight,
+    toggleFallback,
+    addSearchFallback,
+    addFavouriteFallback,
+    togglePlayableFallback
+  };
+}
@@ -0,0 +1,156 @@
+import { useEffect, useMemo, useState } from 'react';
+import { downloadText } from '../download';
+import {
+  clearHistory,
+  historyToCsv,
+  historyToJson,
+  listHistory,
+  type TrackHistoryEntry
+} from './trackHistory';
+
+type TrackHistoryPanelProps = {
+  /** Bumped by the recorder after every write so the list reloads. */
+  version: number;
+};
+
+const dayRange = (day: string) => {
+  if (!day) {
+    return {};
+  }
+  const from = new Date(`${day}T00:00:00`).getTime();
+  return { from, to: from + 24 * 60 * 60 * 1000 - 1 };
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const today = () => {
+  const now = new Date();
+  const offset = now.getTimezoneOffset() * 60 * 1000;
+  return new Date(now.getTime() - offset).toISOString().slice(0, 10);
+};
+
+function TrackHistoryPanel({ version }: TrackHistoryPanelProps) {
+  const [day, setDay] = useState(today);
+  const [stationKey, setStationKey] = useState('all');
+  const [entries, setEntries] = useState<TrackHistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    listHistory(dayRange(day))
+      .then((result) => {
+        if (active) {
+          setEntries(result);
+          setError(null);
+        }
+      })
+      .catch(() => {
+        if (active) {
+          setError('Track history is unavailable in this browser.');
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [day, version]);
+
+  const stationOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    entries.forEach((entry) => names.set(entry.stationKey, entry.stationName));
+    return Array.from(names, ([key, name]) => ({ key, name })).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }, [entries]);
+
+  const visibleEntries =
+    stationKey === 'all' ? entries : entries.filter((entry) => entry.stationKey === stationKey);
+
+  const exportName = `raven-radio-history-${day || 'all'}`;
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete the whole track history?')) {
+      return;
+    }
+    try {
+      await clearHistory();
+      setEntries([]);
+      setError(null);
+    } catch {
+      setError('Could not clear the track history.');
+    }
+  };
+
+  return (
+    <div className="track-history">
+      <div className="talk-header">
+        <h3>Track history</h3>
+        <div className="history-actions">
+          <button
+            type="button"
+            className="ghost"
+            disabled={visibleEntries.length === 0}
+            onClick={() =>
+              downloadText(`${exportName}.csv`, historyToCsv(visibleEntries), 'text/csv')
+            }
+          >
+            CSV
+          </button>
+          <button
+            type="button"
+            className="ghost"
+            disabled={visibleEntries.length === 0}
+            onClick={() =>
+              downloadText(
+                `${exportName}.json`,
+                historyToJson(visibleEntries),
+                'application/json'
+              )
+            }
+          >
+            JSON
+          </button>
+          <button type="button" className="ghost" onClick={handleClear}>
+            Clear
+          </button>
+        </div>
+      </div>
+      <div className="history-filters">
+        <input
+          type="date"
+          value={day}
+          onChange={(event) => setDay(event.target.value)}
+          title="Day (clear to show every day)"
+        />
+        <select value={stationKey} onChange={(event) => setStationKey(event.target.value)}>
+          <option value="all">All stations</option>
+          {stationOptions.map((option) => (
+            <option key={option.key} value={option.key}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      {error && <div className="warning">{error}</div>}
+      <ul>
+        {visibleEntries.length === 0 && <li className="empty">No tracks logged yet.</li>}
+        {visibleEntries.map((entry) => (
+          <li key={entry.id} className="history-item">
+            <span className="time">
+              {formatTime(entry.firstSeen)}–{formatTime(entry.lastSeen)}
+            </span>
+            <span>
+              {entry.artist ? `${entry.artist} - ${entry.title}` : entry.title}
+              <span className="subtle">
+                {entry.stationName}
+                {entry.switchedAway ? ' • Talk Killer switched away' : ''}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default TrackHistoryPanel;
@@ -0,0 +1,89 @@
+import type { NowPlaying } from '../metadata/nowPlaying';
+import {
+  addHistoryEntry,
+  latestEntryForStation,
+  updateHistoryEntry
+} from './trackHistory';
+
+export type HistoryStation = {
+  key: string;
+  name: string;
+};
+
+export type HistoryRecorder = {
+  /** Call whenever the station or the current track changes. */
+  observe: (station: HistoryStation | null, nowPlaying: NowPlaying | null) => void;
+  /** Extends `lastSeen` of the current entry while it keeps playing. */
+  touch: () => void;
+  markSwitchedAway: () => void;
+};
+
+// Coming back to a station within this window continues its last entry
+// instead of logging the same track twice.
+const resumeWindowMs = 10 * 60 * 1000;
+
+/**
+ * Turns now-playing updates into track history entries. Writes are chained so
+ * IndexedDB sees them in the order the updates happened.
+ */
+export const createHistoryRecorder = (onChange: () => void): HistoryRecorder => {
+  let queue: Promise<void> = Promise.resolve();
+  let currentId: number | null = null;
+
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue
+      .then(task)
+      .then(onChange)
+      .catch((err) => console.warn('[History] Unable to update track history.', err));
+  };
+
+  const touch = () => {
+    enqueue(async () => {
+      if (currentId !== null) {
+        await updateHistoryEntry(currentId, { lastSeen: Date.now() });
+      }
+    });
+  };
+
+  const observe = (station: HistoryStation | null, nowPlaying: NowPlaying | null) => {
+    touch();
+    enqueue(async () => {
+      currentId = null;
+      if (!station || !nowPlaying) {
+        return;
+      }
+      const now = Date.now();
+      const latest = await latestEntryForStation(station.key);
+      if (
+        latest?.id !== undefined &&
+        latest.artist === nowPlaying.artist &&
+        latest.title === nowPlaying.title &&
+        now - latest.lastSeen < resumeWindowMs
+      ) {
+        currentId = latest.id;
+        await updateHistoryEntry(latest.id, { lastSeen: now });
+        return;
+      }
+      currentId = await addHistoryEntry({
+        stationKey: station.key,
+        stationName: station.name,
+        artist: nowPlaying.artist,
+        title: nowPlaying.title,
+        album: nowPlaying.album,
+        firstSeen: now,
+        lastSeen: now,
+        switchedAway: false
+      });
+    });
+  };
+
+  const markSwitchedAway = () => {
+    enqueue(async () => {
+      if (currentId !== null) {
+        await updateHistoryEntry(currentId, { switchedAway: true, lastSeen: Date.now() });
+      }
+    });
+  };
+
+  return { observe, touch, markSwitchedAway };
+};
@@ -0,0 +1,148 @@
+export type TrackHistoryEntry = {
+  id?: number;
+  stationKey: string;
+  stationName: string;
+  artist: string | null;
+  title: string;
+  album: string | null;
+  /** Epoch milliseconds. */
+  firstSeen: number;
+  lastSeen: number;
+  /** Talk Killer switched away from the station while this track was current. */
+  switchedAway: boolean;
+};
+
+export type TrackHistoryFilter = {
+  stationKey?: string;
+  /** Inclusive epoch millisecond range on `firstSeen`. */
+  from?: number;
+  to?: number;
+};
+
+const databaseName = 'raven-radio-history';
+const databaseVersion = 1;
+const storeName = 'track-history';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, databaseVersion);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(storeName, {
+          keyPath: 'id',
+          autoIncrement: true
+        });
+        store.createIndex('firstSeen', 'firstSeen');
+        store.createIndex('stationKey', 'stationKey');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      databasePromise = null;
+      throw err;
+    });
+  }
+  return databasePromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const database = await openDatabase();
+  return requestResult(run(database.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const addHistoryEntry = async (entry: Omit<TrackHistoryEntry, 'id'>) => {
+  return Number(await withStore('readwrite', (store) => store.add(entry)));
+};
+
+export const getHistoryEntry = (id: number) =>
+  withStore<TrackHistoryEntry | undefined>('readonly', (store) => store.get(id));
+
+export const updateHistoryEntry = async (id: number, patch: Partial<TrackHistoryEntry>) => {
+  const entry = await getHistoryEntry(id);
+  if (!entry) {
+    return;
+  }
+  await withStore('readwrite', (store) => store.put({ ...entry, ...patch, id }));
+};
+
+/** Newest first. */
+export const listHistory = async ({ stationKey, from, to }: TrackHistoryFilter = {}) => {
+  const range =
+    from !== undefined || to !== undefined
+      ? IDBKeyRange.bound(from ?? 0, to ?? Number.MAX_SAFE_INTEGER)
+      : undefined;
+  const entries = await withStore<TrackHistoryEntry[]>('readonly', (store) =>
+    store.index('firstSeen').getAll(range)
+  );
+  return entries
+    .filter((entry) => !stationKey || entry.stationKey === stationKey)
+    .reverse();
+};
+
+/** The most recent entry for a station, used to continue a track after switching back. */
+export const latestEntryForStation = async (stationKey: string) => {
+  const entries = await withStore<TrackHistoryEntry[]>('readonly', (store) =>
+    store.index('stationKey').getAll(stationKey)
+  );
+  return entries.reduce<TrackHistoryEntry | null>(
+    (latest, entry) => (!latest || entry.lastSeen > latest.lastSeen ? entry : latest),
+    null
+  );
+};
+
+export const clearHistory = () => withStore('readwrite', (store) => store.clear());
+
+const csvColumns: (keyof TrackHistoryEntry)[] = [
+  'firstSeen',
+  'lastSeen',
+  'stationName',
+  'artist',
+  'title',
+  'album',
+  'switchedAway',
+  'stationKey'
+];
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const historyToCsv = (entries: TrackHistoryEntry[]) => {
+  const rows = entries.map((entry) =>
+    csvColumns
+      .map((column) => {
+        const value = entry[column];
+        return csvCell(
+          column === 'firstSeen' || column === 'lastSeen'
+            ? new Date(value as number).toISOString()
+            : value
+        );
+      })
+      .join(',')
+  );
+  return [csvColumns.join(','), ...rows].join('\n');
+};
+
+export const historyToJson = (entries: TrackHistoryEntry[]) => {
+  return JSON.stringify(
+    entries.map(({ id: _id, ...entry }) => ({
+      ...entry,
+      firstSeen: new Date(entry.firstSeen).toISOString(),
+      lastSeen: new Date(entry.lastSeen).toISOString()
+    })),
+    null,
+    2
+  );
+};
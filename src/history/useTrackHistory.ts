@@ -0,0 +1,27 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { NowPlaying } from '../metadata/nowPlaying';
+import { createHistoryRecorder, type HistoryStation } from './historyRecorder';
+
+const historyTouchMs = 60000;
+
+/**
+ * Logs what plays on `station` (null while paused) to the track history.
+ * `version` changes after every write so the history panel can reload.
+ */
+export function useTrackHistory(station: HistoryStation | null, nowPlaying: NowPlaying | null) {
+  const [version, setVersion] = useState(0);
+  const recorder = useMemo(() => createHistoryRecorder(() => setVersion((prev) => prev + 1)), []);
+
+  useEffect(() => {
+    recorder.observe(station, station ? nowPlaying : null);
+    if (!station || !nowPlaying) {
+      return;
+    }
+    const interval = window.setInterval(recorder.touch, historyTouchMs);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [nowPlaying, station?.key, station?.name]);
+
+  return { version, markSwitchedAway: recorder.markSwitchedAway };
+}
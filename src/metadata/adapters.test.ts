@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { findMetadataAdapter, parseMetadataBody, parseNowPlaying } from './adapters';
+import { emptyNowPlaying } from './nowPlaying';
+import azuracast from './fixtures/azuracast.json';
+import generic from './fixtures/generic.json';
+import icecast from './fixtures/icecast.json';
+import radioFrance from './fixtures/radio-france.json';
+import radioParadise from './fixtures/radio-paradise.json';
+import shoutcast from './fixtures/shoutcast.json';
+import shoutcastV1Html from './fixtures/shoutcast-v1.html?raw';
+import shoutcastV1Xml from './fixtures/shoutcast-v1.xml?raw';
+import somafmChannels from './fixtures/somafm-channels.json';
+import somafm from './fixtures/somafm.json';
+
+describe('metadata adapters', () => {
+  it('icecast: picks the mount matching the stream URL', () => {
+    expect(findMetadataAdapter(icecast)?.format).toBe('icecast');
+    expect(
+      parseNowPlaying(icecast, undefined, { streamUrl: 'https://stream.example.org/rock.mp3' })
+    ).toEqual({ ...emptyNowPlaying, artist: 'Led Zeppelin', title: 'Black Dog' });
+  });
+
+  it('icecast: falls back to the first mount and splits its combined title', () => {
+    expect(parseNowPlaying(icecast, 'icecast')).toEqual({
+      ...emptyNowPlaying,
+      artist: 'Miles Davis',
+      title: 'So What'
+    });
+  });
+
+  it('shoutcast: reads v2 JSON stats', () => {
+    expect(findMetadataAdapter(shoutcast)?.format).toBe('shoutcast');
+    expect(parseNowPlaying(shoutcast)).toEqual({
+      ...emptyNowPlaying,
+      artist: 'John Coltrane',
+      title: 'Naima'
+    });
+  });
+
+  it('shoutcast: reads v1 7.html, keeping commas in the title', () => {
+    const data = parseMetadataBody(shoutcastV1Html);
+    expect(findMetadataAdapter(data)?.format).toBe('shoutcast');
+    expect(parseNowPlaying(data)).toEqual({
+      ...emptyNowPlaying,
+      artist: 'Simon & Garfunkel',
+      title: 'Mrs. Robinson, Live'
+    });
+  });
+
+  it('shoutcast: reads the XML stats', () => {
+    const data = parseMetadataBody(shoutcastV1Xml);
+    expect(findMetadataAdapter(data)?.format).toBe('shoutcast');
+    expect(parseNowPlaying(data)).toEqual({
+      ...emptyNowPlaying,
+      artist: 'Dire Straits',
+      title: 'Sultans of Swing'
+    });
+  });
+
+  it('azuracast: reads song details, start time and duration', () => {
+    expect(findMetadataAdapter(azuracast)?.format).toBe('azuracast');
+    expect(parseNowPlaying(azuracast)).toEqual({
+      artist: 'Chris Zabriskie',
+      title: 'Candlepower',
+      album: 'Divider',
+      artworkUrl:
+        'https://demo.azuracast.com/api/station/azuratest_radio/art/9f33bbc912c19603e51be8e0987d076b-1714999000.jpg',
+      startedAt: 1715000000000,
+      durationSeconds: 243
+    });
+  });
+
+  it('radio-paradise: reads artist, album and cover', () => {
+    expect(findMetadataAdapter(radioParadise)?.format).toBe('radio-paradise');
+    expect(parseNowPlaying(radioParadise)).toEqual({
+      ...emptyNowPlaying,
+      artist: 'Pink Floyd',
+      title: 'Breathe (In the Air)',
+      album: 'The Dark Side of the Moon',
+      artworkUrl: 'https://img.radioparadise.com/covers/l/B000024D4P.jpg'
+    });
+  });
+
+  it('somafm: reads the latest song from songs/{channel}.json', () => {
+    expect(findMetadataAdapter(somafm)?.format).toBe('somafm');
+    expect(parseNowPlaying(somafm)).toEqual({
+      ...emptyNowPlaying,
+      artist: 'Bonobo',
+      title: 'Kiara',
+      album: 'Black Sands',
+      artworkUrl: 'https://somafm.com/img/albumart/bonobo-black-sands.jpg',
+      startedAt: 1715000200000
+    });
+  });
+
+  it('somafm: picks the channel matching the stream URL from channels.json', () => {
+    expect(findMetadataAdapter(somafmChannels)?.format).toBe('somafm');
+    expect(
+      parseNowPlaying(somafmChannels, undefined, {
+        streamUrl: 'https://ice1.somafm.com/defcon-128-mp3'
+      })
+    ).toEqual({
+      ...emptyNowPlaying,
+      artist: 'Mr. Robot',
+      title: 'Hello Friend',
+      artworkUrl: 'https://api.somafm.com/img/defcon120.png'
+    });
+  });
+
+  it('radio-france: reads the now block, release and timing', () => {
+    expect(findMetadataAdapter(radioFrance)?.format).toBe('radio-france');
+    expect(parseNowPlaying(radioFrance)).toEqual({
+      artist: 'Nina Simone',
+      title: 'Feeling Good',
+      album: 'I Put A Spell On You',
+      artworkUrl:
+        'https://www.radiofrance.fr/s3/cruiser-production/2024/05/2c1e/200x200_nina-simone.jpg',
+      startedAt: 1715000000000,
+      durationSeconds: 215
+    });
+  });
+
+  it('generic: reads a now_playing string', () => {
+    expect(findMetadataAdapter(generic)?.format).toBe('generic');
+    expect(parseNowPlaying(generic)).toEqual({
+      ...emptyNowPlaying,
+      artist: 'Daft Punk',
+      title: 'Around the World'
+    });
+  });
+
+  it('returns null for text that is not Shoutcast stats', () => {
+    expect(parseNowPlaying(parseMetadataBody('<html><body>Not found</body></html>'))).toBeNull();
+  });
+});
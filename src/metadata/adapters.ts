@@ -0,0 +1,347 @@
+import { emptyNowPlaying, splitArtistTitle, type NowPlaying } from './nowPlaying';
+
+export type MetadataFormat =
+  | 'icecast'
+  | 'shoutcast'
+  | 'azuracast'
+  | 'radio-paradise'
+  | 'somafm'
+  | 'radio-france'
+  | 'generic';
+
+export type MetadataContext = {
+  /** Used to pick the right mount/channel out of multi-station payloads. */
+  streamUrl?: string;
+};
+
+export type MetadataAdapter = {
+  format: MetadataFormat;
+  label: string;
+  detect: (data: unknown) => boolean;
+  parse: (data: unknown, context: MetadataContext) => NowPlaying | null;
+};
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const asRecords = (value: unknown): JsonRecord[] => {
+  if (Array.isArray(value)) {
+    return value.filter(isRecord);
+  }
+  return isRecord(value) ? [value] : [];
+};
+
+const text = (value: unknown) => {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+const number = (value: unknown) => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+};
+
+/** Accepts epoch seconds, epoch milliseconds or an ISO date string. */
+const timestamp = (value: unknown) => {
+  const numeric = number(value);
+  if (numeric !== null) {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const fromCombinedTitle = (combined: string | null, extra: Partial<NowPlaying> = {}) => {
+  if (!combined) {
+    return null;
+  }
+  return { ...emptyNowPlaying, ...splitArtistTitle(combined), ...extra };
+};
+
+const streamPath = (url?: string) => {
+  try {
+    return url ? new URL(url).pathname.replace(/\/+$/, '') : '';
+  } catch {
+    return '';
+  }
+};
+
+/** Icecast `status-json.xsl`: `icestats.source` is one mount or an array of mounts. */
+const icecast: MetadataAdapter = {
+  format: 'icecast',
+  label: 'Icecast status-json.xsl',
+  detect: (data) => isRecord(data) && isRecord(data.icestats),
+  parse: (data, { streamUrl }) => {
+    if (!isRecord(data) || !isRecord(data.icestats)) {
+      return null;
+    }
+    const sources = asRecords(data.icestats.source);
+    const path = streamPath(streamUrl);
+    const source =
+      sources.find((item) => path && streamPath(text(item.listenurl) ?? '') === path) ??
+      sources[0];
+    if (!source) {
+      return null;
+    }
+    const title = text(source.title);
+    const artist = text(source.artist);
+    if (artist && title) {
+      return { ...emptyNowPlaying, artist, title };
+    }
+    return fromCombinedTitle(title ?? text(source.yp_currently_playing));
+  }
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&(apos|#39);/g, "'")
+    .replace(/&amp;/g, '&');
+
+/**
+ * The song title from the text stats: `<SONGTITLE>` in the XML ones
+ * (`admin.cgi?mode=viewxml`, v2 `/stats`), or the last field of v1 `7.html`,
+ * `listeners,status,peak,max,unique,bitrate,song title` (the title may hold commas).
+ */
+const shoutcastTextTitle = (body: string) => {
+  const match =
+    body.match(/<SONGTITLE[^>]*>([\s\S]*?)<\/SONGTITLE>/i) ??
+    body.match(/<body[^>]*>\s*(?:\d+,){6}([\s\S]*?)<\/body>/i);
+  return match ? text(decodeEntities(match[1])) : undefined;
+};
+
+/**
+ * Shoutcast v2 `/stats?json=1` (single stream) and `/statistics?json=1`
+ * (`streams`), plus the v1 `7.html` and XML stats, which arrive as text.
+ */
+const shoutcast: MetadataAdapter = {
+  format: 'shoutcast',
+  label: 'Shoutcast stats',
+  detect: (data) =>
+    typeof data === 'string'
+      ? shoutcastTextTitle(data) !== undefined
+      : isRecord(data) &&
+        ('songtitle' in data || asRecords(data.streams).some((stream) => 'songtitle' in stream)),
+  parse: (data) => {
+    if (typeof data === 'string') {
+      return fromCombinedTitle(shoutcastTextTitle(data) ?? null);
+    }
+    if (!isRecord(data)) {
+      return null;
+    }
+    const stream = 'songtitle' in data ? data : asRecords(data.streams)[0];
+    return stream ? fromCombinedTitle(text(stream.songtitle)) : null;
+  }
+};
+
+/** AzuraCast `/api/nowplaying/{station}` or the all-stations array. */
+const azuracast: MetadataAdapter = {
+  format: 'azuracast',
+  label: 'AzuraCast now playing',
+  detect: (data) =>
+    asRecords(data).some((item) => isRecord(item.now_playing) && isRecord(item.now_playing.song)),
+  parse: (data, { streamUrl }) => {
+    const entries = asRecords(data).filter((item) => isRecord(item.now_playing));
+    const entry =
+      entries.find((item) =>
+        asRecords(isRecord(item.station) ? item.station.mounts : undefined).some(
+          (mount) => streamUrl && text(mount.url) === streamUrl
+        )
+      ) ?? entries[0];
+    const current = entry && isRecord(entry.now_playing) ? entry.now_playing : null;
+    const song = current && isRecord(current.song) ? current.song : null;
+    if (!current || !song) {
+      return null;
+    }
+    const title = text(song.title);
+    const extra: Partial<NowPlaying> = {
+      album: text(song.album),
+      artworkUrl: text(song.art),
+      startedAt: timestamp(current.played_at),
+      durationSeconds: number(current.duration) || null
+    };
+    if (!title) {
+      return fromCombinedTitle(text(song.text), extra);
+    }
+    return { ...emptyNowPlaying, ...extra, artist: text(song.artist), title };
+  }
+};
+
+/** Radio Paradise `api/now_playing`. */
+const radioParadise: MetadataAdapter = {
+  format: 'radio-paradise',
+  label: 'Radio Paradise',
+  detect: (data) => isRecord(data) && 'cover' in data && 'artist' in data && 'title' in data,
+  parse: (data) => {
+    if (!isRecord(data)) {
+      return null;
+    }
+    const title = text(data.title);
+    if (!title) {
+      return null;
+    }
+    return {
+      ...emptyNowPlaying,
+      artist: text(data.artist),
+      title,
+      album: text(data.album),
+      artworkUrl: text(data.cover)
+    };
+  }
+};
+
+/** SomaFM `channels.json` (`lastPlaying` per channel) or `songs/{channel}.json`. */
+const somafm: MetadataAdapter = {
+  format: 'somafm',
+  label: 'SomaFM',
+  detect: (data) =>
+    isRecord(data) &&
+    (asRecords(data.channels).some((channel) => 'lastPlaying' in channel) ||
+      asRecords(data.songs).some((song) => 'albumart' in song || 'date' in song)),
+  parse: (data, { streamUrl }) => {
+    if (!isRecord(data)) {
+      return null;
+    }
+    const songs = asRecords(data.songs);
+    if (songs.length > 0) {
+      const song = songs[0];
+      const title = text(song.title);
+      return title
+        ? {
+            ...emptyNowPlaying,
+            artist: text(song.artist),
+            title,
+            album: text(song.album),
+            artworkUrl: text(song.albumart),
+            startedAt: timestamp(song.date)
+          }
+        : null;
+    }
+    const channels = asRecords(data.channels);
+    const path = streamPath(streamUrl).toLowerCase();
+    const channel =
+      channels.find((item) => {
+        const id = text(item.id)?.toLowerCase();
+        return Boolean(id && path.startsWith(`/${id}`));
+      }) ?? channels[0];
+    if (!channel) {
+      return null;
+    }
+    return fromCombinedTitle(text(channel.lastPlaying), { artworkUrl: text(channel.image) });
+  }
+};
+
+/** Radio France live endpoints: `now.firstLine` is the artist, `now.secondLine` the track. */
+const radioFrance: MetadataAdapter = {
+  format: 'radio-france',
+  label: 'Radio France',
+  detect: (data) => isRecord(data) && isRecord(data.now) && isRecord(data.now.firstLine),
+  parse: (data) => {
+    if (!isRecord(data) || !isRecord(data.now)) {
+      return null;
+    }
+    const now = data.now;
+    const line = (value: unknown) => (isRecord(value) ? text(value.title) : null);
+    const first = line(now.firstLine);
+    const second = line(now.secondLine);
+    const title = second ?? first;
+    if (!title) {
+      return null;
+    }
+    const song = isRecord(now.song) ? now.song : null;
+    const release = song && isRecord(song.release) ? song.release : null;
+    const cover = isRecord(now.cover) ? text(now.cover.src) : null;
+    const visual =
+      isRecord(now.visuals) && isRecord(now.visuals.card) ? text(now.visuals.card.src) : null;
+    const startedAt = timestamp(now.startTime);
+    const endedAt = timestamp(now.endTime);
+    return {
+      ...emptyNowPlaying,
+      artist: second ? first : null,
+      title,
+      album: release ? text(release.title) : null,
+      artworkUrl: cover ?? visual,
+      startedAt,
+      durationSeconds:
+        startedAt !== null && endedAt !== null && endedAt > startedAt
+          ? Math.round((endedAt - startedAt) / 1000)
+          : null
+    };
+  }
+};
+
+/** The shapes the app understood before adapters existed. */
+const generic: MetadataAdapter = {
+  format: 'generic',
+  label: 'Generic JSON',
+  detect: (data) => isRecord(data),
+  parse: (data) => {
+    if (!isRecord(data)) {
+      return null;
+    }
+    const channel = asRecords(data.channels)[0];
+    if (channel) {
+      const combined = text(channel.lastPlaying) ?? text(channel.title);
+      if (combined) {
+        return fromCombinedTitle(combined);
+      }
+    }
+    return fromCombinedTitle(text(data.now_playing) ?? text(data.title));
+  }
+};
+
+/** Checked in order during auto-detection, so the catch-all comes last. */
+export const metadataAdapters: MetadataAdapter[] = [
+  icecast,
+  azuracast,
+  shoutcast,
+  radioFrance,
+  somafm,
+  radioParadise,
+  generic
+];
+
+export const metadataFormats = metadataAdapters.map((adapter) => adapter.format);
+
+/** Metadata bodies are JSON, except text ones such as Shoutcast v1 stats, kept as strings. */
+export const parseMetadataBody = (body: string): unknown => {
+  try {
+    return JSON.parse(body) as unknown;
+  } catch {
+    return body;
+  }
+};
+
+export const findMetadataAdapter = (data: unknown, format?: MetadataFormat) => {
+  if (format) {
+    return metadataAdapters.find((adapter) => adapter.format === format) ?? null;
+  }
+  return metadataAdapters.find((adapter) => adapter.detect(data)) ?? null;
+};
+
+/**
+ * Parses a metadata payload with the declared adapter, or the first adapter
+ * whose `detect` matches when the station does not declare a format.
+ */
+export const parseNowPlaying = (
+  data: unknown,
+  format?: MetadataFormat,
+  context: MetadataContext = {}
+): NowPlaying | null => {
+  const adapter = findMetadataAdapter(data, format);
+  if (!adapter) {
+    return null;
+  }
+  try {
+    return adapter.parse(data, context);
+  } catch (err) {
+    console.warn(`[Metadata] ${adapter.label} adapter failed.`, err);
+    return null;
+  }
+};
@@ -0,0 +1,75 @@
+import { buildIcyRequestUrl, shouldUseIcyEvents } from '../proxy';
+
+export type IcyMetadata = {
+  streamTitle: string | null;
+  artist: string | null;
+  title: string | null;
+  /** `icy-name` header, when the server sends one. */
+  name: string | null;
+  genre: string | null;
+};
+
+export type IcySubscriptionOptions = {
+  pollMs: number;
+  onMetadata: (metadata: IcyMetadata) => void;
+  onError: () => void;
+};
+
+const fetchIcyMetadata = async (streamUrl: string) => {
+  const response = await fetch(buildIcyRequestUrl(streamUrl), {
+    headers: { Accept: 'application/json' }
+  });
+  if (!response.ok) {
+    throw new Error(`ICY request failed (${response.status})`);
+  }
+  return (await response.json()) as IcyMetadata;
+};
+
+const pollIcyMetadata = (streamUrl: string, { pollMs, onMetadata, onError }: IcySubscriptionOptions) => {
+  let active = true;
+  const load = async () => {
+    try {
+      const metadata = await fetchIcyMetadata(streamUrl);
+      if (active) {
+        onMetadata(metadata);
+      }
+    } catch {
+      if (active) {
+        onError();
+      }
+    }
+  };
+  load();
+  const interval = window.setInterval(load, pollMs);
+  return () => {
+    active = false;
+    window.clearInterval(interval);
+  };
+};
+
+/**
+ * Follows a stream's ICY title through the proxy. Uses the proxy's SSE mode
+ * when enabled and falls back to polling if the event stream fails.
+ */
+export const subscribeIcyMetadata = (streamUrl: string, options: IcySubscriptionOptions) => {
+  if (!shouldUseIcyEvents() || typeof EventSource === 'undefined') {
+    return pollIcyMetadata(streamUrl, options);
+  }
+  let stopPolling: (() => void) | null = null;
+  const source = new EventSource(buildIcyRequestUrl(streamUrl, true));
+  const fallBackToPolling = () => {
+    source.close();
+    if (!stopPolling) {
+      stopPolling = pollIcyMetadata(streamUrl, options);
+    }
+  };
+  source.addEventListener('metadata', (event) => {
+    options.onMetadata(JSON.parse((event as MessageEvent<string>).data) as IcyMetadata);
+  });
+  source.addEventListener('end', fallBackToPolling);
+  source.addEventListener('error', fallBackToPolling);
+  return () => {
+    source.close();
+    stopPolling?.();
+  };
+};
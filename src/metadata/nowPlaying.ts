@@ -0,0 +1,49 @@
+import type { IcyMetadata } from './icy';
+
+export type NowPlaying = {
+  artist: string | null;
+  title: string;
+  album: string | null;
+  artworkUrl: string | null;
+  /** Epoch milliseconds when the track started, if the source reports it. */
+  startedAt: number | null;
+  durationSeconds: number | null;
+};
+
+export const emptyNowPlaying: Omit<NowPlaying, 'title'> = {
+  artist: null,
+  album: null,
+  artworkUrl: null,
+  startedAt: null,
+  durationSeconds: null
+};
+
+/** Splits the common "Artist - Title" form; anything else is kept as the title. */
+export const splitArtistTitle = (text: string): Pick<NowPlaying, 'artist' | 'title'> => {
+  const separator = text.indexOf(' - ');
+  if (separator === -1) {
+    return { artist: null, title: text.trim() };
+  }
+  const artist = text.slice(0, separator).trim();
+  const title = text.slice(separator + 3).trim();
+  return artist && title ? { artist, title } : { artist: null, title: text.trim() };
+};
+
+export const formatNowPlaying = (nowPlaying: NowPlaying) => {
+  return nowPlaying.artist ? `${nowPlaying.artist} - ${nowPlaying.title}` : nowPlaying.title;
+};
+
+export const isSameTrack = (a: NowPlaying | null, b: NowPlaying | null) => {
+  return Boolean(a && b && a.artist === b.artist && a.title === b.title);
+};
+
+export const nowPlayingFromIcy = (icy: IcyMetadata): NowPlaying | null => {
+  if (!icy.streamTitle) {
+    return null;
+  }
+  return {
+    ...emptyNowPlaying,
+    artist: icy.artist,
+    title: icy.title || icy.streamTitle
+  };
+};
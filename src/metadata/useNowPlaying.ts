@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { buildMetadataRequestUrl } from '../proxy';
+import type { PlayableStation } from '../stations';
+import { parseMetadataBody, parseNowPlaying } from './adapters';
+import { subscribeIcyMetadata } from './icy';
+import { isSameTrack, nowPlayingFromIcy, type NowPlaying } from './nowPlaying';
+
+const metadataPollMs = 20000;
+
+/**
+ * Polls the station's metadata endpoint, or reads the ICY titles of
+ * `icyStreamUrl` when the station has none.
+ */
+export function useNowPlaying(station: PlayableStation | null, icyStreamUrl: string | null) {
+  const [nowPlaying, setNowPlaying] = useState<NowPlaying | null>(null);
+
+  useEffect(() => {
+    const updateNowPlaying = (next: NowPlaying | null) => {
+      setNowPlaying((prev) => (isSameTrack(prev, next) ? prev : next));
+    };
+    setNowPlaying(null);
+    if (!station) {
+      return;
+    }
+    const { metadataUrl, metadataFormat, url: streamUrl } = station;
+    if (!metadataUrl) {
+      if (!icyStreamUrl) {
+        return;
+      }
+      return subscribeIcyMetadata(icyStreamUrl, {
+        pollMs: metadataPollMs,
+        onMetadata: (icy) => updateNowPlaying(nowPlayingFromIcy(icy)),
+        onError: () => updateNowPlaying(null)
+      });
+    }
+    let mounted = true;
+
+    const loadMetadata = async () => {
+      try {
+        const response = await fetch(buildMetadataRequestUrl(metadataUrl), {
+          headers: {
+            Accept: 'application/json'
+          }
+        });
+        const data = parseMetadataBody(await response.text());
+        const parsed = parseNowPlaying(data, metadataFormat, { streamUrl });
+        if (mounted) {
+          updateNowPlaying(parsed);
+        }
+      } catch {
+        if (mounted) {
+          updateNowPlaying(null);
+        }
+      }
+    };
+
+    loadMetadata();
+    const interval = window.setInterval(loadMetadata, metadataPollMs);
+
+    return () => {
+      mounted = false;
+      window.clearInterval(interval);
+    };
+  }, [station?.url, station?.metadataUrl, station?.metadataFormat, icyStreamUrl]);
+
+  return nowPlaying;
+}
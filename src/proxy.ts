@@ -0,0 +1,38 @@
+export const shouldUseMetadataProxy = () => {
+  return import.meta.env.DEV || import.meta.env.VITE_METADATA_PROXY === 'true';
+};
+
+const buildProxyUrl = (proxyBase: string, targetUrl: string) => {
+  const proxyUrl = new URL(proxyBase, window.location.origin);
+  proxyUrl.searchParams.set('url', targetUrl);
+  return proxyUrl.toString();
+};
+
+export const buildMetadataRequestUrl = (metadataUrl: string) => {
+  if (!shouldUseMetadataProxy()) {
+    return metadataUrl;
+  }
+  return buildProxyUrl(import.meta.env.VITE_METADATA_PROXY_URL || '/api/metadata', metadataUrl);
+};
+
+export const buildResolveRequestUrl = (playlistUrl: string) => {
+  return buildProxyUrl(import.meta.env.VITE_RESOLVE_PROXY_URL || '/api/resolve', playlistUrl);
+};
+
+export const buildProbeRequestUrl = (streamUrl: string) => {
+  return buildProxyUrl(import.meta.env.VITE_PROBE_PROXY_URL || '/api/probe', streamUrl);
+};
+
+export const shouldUseIcyEvents = () => {
+  return import.meta.env.DEV || import.meta.env.VITE_ICY_EVENTS === 'true';
+};
+
+export const buildIcyRequestUrl = (streamUrl: string, events = false) => {
+  const url = new URL(
+    buildProxyUrl(import.meta.env.VITE_ICY_PROXY_URL || '/api/icy', streamUrl)
+  );
+  if (events) {
+    url.searchParams.set('stream', '1');
+  }
+  return url.toString();
+};
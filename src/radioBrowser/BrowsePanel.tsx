@@ -0,0 +1,218 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import type { SearchStation } from '../stations';
+import {
+  browseListLabels,
+  browseRequest,
+  browseViewTitle,
+  countryFlag,
+  parseCountries,
+  parseTags,
+  tagCloudSize,
+  tagWeight,
+  type BrowseView,
+  type RadioBrowserCountry,
+  type RadioBrowserTag
+} from './browse';
+import { defaultPageSize, type RadioBrowserClient } from './client';
+
+type BrowsePanelProps = {
+  client: RadioBrowserClient;
+  /** Used to drop duplicates when a later page overlaps an earlier one. */
+  getStationKey: (station: SearchStation) => string;
+  renderStation: (station: SearchStation) => ReactNode;
+};
+
+const browseErrorMessage =
+  'We could not reach the Radio Browser service. Please check your connection and try again.';
+
+function BrowsePanel({ client, getStationKey, renderStation }: BrowsePanelProps) {
+  const [view, setView] = useState<BrowseView | null>(null);
+  const [stations, setStations] = useState<SearchStation[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [countries, setCountries] = useState<RadioBrowserCountry[]>([]);
+  const [tags, setTags] = useState<RadioBrowserTag[]>([]);
+  const [countryFilter, setCountryFilter] = useState('');
+  const [directoryError, setDirectoryError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all([
+      client.getJson<unknown>('/json/countries', { hidebroken: 'true' }, controller.signal),
+      client.getJson<unknown>(
+        '/json/tags',
+        {
+          hidebroken: 'true',
+          order: 'stationcount',
+          reverse: 'true',
+          limit: String(tagCloudSize)
+        },
+        controller.signal
+      )
+    ])
+      .then(([countryData, tagData]) => {
+        setCountries(parseCountries(countryData));
+        setTags(parseTags(tagData));
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('[Radio Browser] Loading countries and tags failed', err);
+        setDirectoryError(browseErrorMessage);
+      });
+    return () => {
+      controller.abort();
+    };
+  }, [client]);
+
+  useEffect(
+    () => () => {
+      abortRef.current?.abort();
+    },
+    []
+  );
+
+  const loadPage = async (target: BrowseView, offset: number) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setError(null);
+    const { path, params } = browseRequest(target, offset);
+    try {
+      const page = await client.listStations(path, params, controller.signal);
+      setHasMore(page.length === defaultPageSize);
+      setStations((prev) => {
+        if (offset === 0) {
+          return page;
+        }
+        const seen = new Set(prev.map(getStationKey));
+        return [...prev, ...page.filter((station) => !seen.has(getStationKey(station)))];
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      console.error('[Radio Browser] Browsing failed', err);
+      setError(browseErrorMessage);
+    } finally {
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const open = (target: BrowseView) => {
+    setView(target);
+    setStations([]);
+    setHasMore(false);
+    loadPage(target, 0);
+  };
+
+  const back = () => {
+    abortRef.current?.abort();
+    setView(null);
+    setStations([]);
+    setLoading(false);
+    setError(null);
+  };
+
+  if (view) {
+    return (
+      <div className="browse-panel">
+        <div className="browse-header">
+          <button type="button" className="ghost" onClick={back}>
+            ← Browse
+          </button>
+          <h3>{browseViewTitle(view)}</h3>
+        </div>
+        {error && <div className="error">{error}</div>}
+        {!error && !loading && stations.length === 0 && (
+          <div className="empty">No stations here right now.</div>
+        )}
+        <div className="search-results">{stations.map(renderStation)}</div>
+        {loading && <div className="loading">Loading stations...</div>}
+        {hasMore && !error && (
+          <button
+            type="button"
+            className="secondary load-more"
+            disabled={loading}
+            onClick={() => loadPage(view, stations.length)}
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const needle = countryFilter.trim().toLowerCase();
+  const visibleCountries = needle
+    ? countries.filter(
+        (country) =>
+          country.name.toLowerCase().includes(needle) || country.code.toLowerCase() === needle
+      )
+    : countries;
+
+  return (
+    <div className="browse-panel">
+      <div className="browse-lists">
+        {(Object.keys(browseListLabels) as (keyof typeof browseListLabels)[]).map((kind) => (
+          <button key={kind} type="button" onClick={() => open({ kind })}>
+            {browseListLabels[kind]}
+          </button>
+        ))}
+      </div>
+      {directoryError && <div className="error">{directoryError}</div>}
+      <h3>Tags</h3>
+      {tags.length === 0 && !directoryError ? (
+        <div className="loading">Loading tags...</div>
+      ) : (
+        <div className="tag-cloud">
+          {tags.map((tag) => (
+            <button
+              key={tag.name}
+              type="button"
+              style={{ fontSize: `${0.8 + tagWeight(tag, tags) * 0.7}rem` }}
+              title={`${tag.stationCount} stations`}
+              onClick={() => open({ kind: 'tag', name: tag.name })}
+            >
+              {tag.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <h3>Countries</h3>
+      <input
+        type="search"
+        className="country-filter"
+        placeholder="Filter countries"
+        value={countryFilter}
+        onChange={(event) => setCountryFilter(event.target.value)}
+      />
+      {countries.length === 0 && !directoryError ? (
+        <div className="loading">Loading countries...</div>
+      ) : (
+        <ul className="country-list">
+          {visibleCountries.map((country) => (
+            <li key={`${country.code}-${country.name}`}>
+              <button
+                type="button"
+                onClick={() => open({ kind: 'country', code: country.code, name: country.name })}
+              >
+                <span aria-hidden="true">{countryFlag(country.code)}</span>
+                <span>{country.name}</span>
+                <span className="subtle">{country.stationCount}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default BrowsePanel;
@@ -0,0 +1,79 @@
+import type { SearchStation } from '../stations';
+
+type StationCardProps = {
+  station: SearchStation;
+  isFavourite: boolean;
+  isFallback: boolean;
+  voteMessage?: string;
+  onPlay: (station: SearchStation) => void;
+  onFavourite: (station: SearchStation) => void;
+  onFallback: (station: SearchStation) => void;
+  onVote: (station: SearchStation) => void;
+};
+
+function StationCard({
+  station,
+  isFavourite,
+  isFallback,
+  voteMessage,
+  onPlay,
+  onFavourite,
+  onFallback,
+  onVote
+}: StationCardProps) {
+  return (
+    <div className="search-card">
+      <div className="search-card__header">
+        <div>
+          <strong>{station.name}</strong>
+          <div className="search-meta">
+            <span>{station.country}</span>
+            <span>{station.tags.length ? station.tags.join(', ') : 'No tags'}</span>
+            {station.language && <span>{station.language}</span>}
+            {station.votes !== undefined && <span>{station.votes} votes</span>}
+            {station.clickcount !== undefined && <span>{station.clickcount} plays</span>}
+          </div>
+        </div>
+        <span className="codec">
+          {[station.codec, station.bitrate ? `${station.bitrate} kbps` : null]
+            .filter(Boolean)
+            .join(' • ') || 'Codec/bitrate N/A'}
+        </span>
+      </div>
+      <div className="search-actions">
+        <button type="button" onClick={() => onPlay(station)}>
+          Play
+        </button>
+        <button
+          type="button"
+          className={isFavourite ? 'secondary' : ''}
+          onClick={() => onFavourite(station)}
+          disabled={isFavourite}
+        >
+          {isFavourite ? 'In favourites' : 'Add to favourites'}
+        </button>
+        <button
+          type="button"
+          className={isFallback ? 'secondary' : ''}
+          onClick={() => onFallback(station)}
+          disabled={isFallback}
+        >
+          {isFallback ? 'In fallbacks' : 'Add as fallback'}
+        </button>
+        {station.stationuuid && (
+          <button
+            type="button"
+            className="ghost"
+            onClick={() => onVote(station)}
+            disabled={Boolean(voteMessage)}
+          >
+            Vote
+          </button>
+        )}
+        {voteMessage && <span className="subtle">{voteMessage}</span>}
+      </div>
+    </div>
+  );
+}
+
+export default StationCard;
@@ -0,0 +1,118 @@
+import { defaultPageSize } from './client';
+
+export type BrowseView =
+  | { kind: 'top' }
+  | { kind: 'trending' }
+  | { kind: 'recent' }
+  | { kind: 'country'; code: string; name: string }
+  | { kind: 'tag'; name: string };
+
+export type RadioBrowserCountry = {
+  code: string;
+  name: string;
+  stationCount: number;
+};
+
+export type RadioBrowserTag = {
+  name: string;
+  stationCount: number;
+};
+
+export const browseListLabels = {
+  top: 'Top voted',
+  trending: 'Trending',
+  recent: 'Recently changed'
+};
+
+/** How many tags the cloud shows, most used first. */
+export const tagCloudSize = 80;
+
+export const browseViewTitle = (view: BrowseView) => {
+  switch (view.kind) {
+    case 'country':
+      return `${countryFlag(view.code)} ${view.name}`.trim();
+    case 'tag':
+      return `#${view.name}`;
+    default:
+      return browseListLabels[view.kind];
+  }
+};
+
+/** Path and query for one page of a browse list. */
+export const browseRequest = (view: BrowseView, offset: number) => {
+  const params: Record<string, string> = {
+    hidebroken: 'true',
+    limit: String(defaultPageSize),
+    offset: String(offset)
+  };
+  switch (view.kind) {
+    case 'top':
+      return { path: '/json/stations/topvote', params };
+    case 'trending':
+      return {
+        path: '/json/stations/search',
+        params: { ...params, order: 'clicktrend', reverse: 'true' }
+      };
+    case 'recent':
+      return { path: '/json/stations/lastchange', params };
+    case 'country':
+      return {
+        path: `/json/stations/bycountrycodeexact/${encodeURIComponent(view.code)}`,
+        params: { ...params, order: 'votes', reverse: 'true' }
+      };
+    case 'tag':
+      return {
+        path: `/json/stations/bytagexact/${encodeURIComponent(view.name)}`,
+        params: { ...params, order: 'votes', reverse: 'true' }
+      };
+  }
+};
+
+/** Regional-indicator flag emoji for an ISO 3166-1 alpha-2 code; empty for anything else. */
+export const countryFlag = (code: string) =>
+  /^[a-z]{2}$/i.test(code)
+    ? String.fromCodePoint(
+        ...code
+          .toUpperCase()
+          .split('')
+          .map((letter) => 0x1f1e6 + letter.charCodeAt(0) - 65)
+      )
+    : '';
+
+const stationCount = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : 0;
+
+/** Countries with at least one station, by name. */
+export const parseCountries = (data: unknown): RadioBrowserCountry[] =>
+  (Array.isArray(data) ? data : [])
+    .map((item) => {
+      const record = (item ?? {}) as Record<string, unknown>;
+      return {
+        code: typeof record.iso_3166_1 === 'string' ? record.iso_3166_1.toUpperCase() : '',
+        name: typeof record.name === 'string' ? record.name.trim() : '',
+        stationCount: stationCount(record.stationcount)
+      };
+    })
+    .filter((country) => country.code && country.name && country.stationCount > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+/** Tags with at least one station, most used first. */
+export const parseTags = (data: unknown): RadioBrowserTag[] =>
+  (Array.isArray(data) ? data : [])
+    .map((item) => {
+      const record = (item ?? {}) as Record<string, unknown>;
+      return {
+        name: typeof record.name === 'string' ? record.name.trim() : '',
+        stationCount: stationCount(record.stationcount)
+      };
+    })
+    .filter((tag) => tag.name && tag.stationCount > 0)
+    .sort((a, b) => b.stationCount - a.stationCount);
+
+/** Font scale for a tag in the cloud, 0..1 on a log scale between the smallest and largest. */
+export const tagWeight = (tag: RadioBrowserTag, tags: RadioBrowserTag[]) => {
+  const counts = tags.map((item) => Math.log(item.stationCount));
+  const min = Math.min(...counts);
+  const max = Math.max(...counts);
+  return max > min ? (Math.log(tag.stationCount) - min) / (max - min) : 1;
+};
@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildSearchParams, createRadioBrowserClient, parseRadioBrowserStation } from './client';
+
+const discoveryUrl = 'https://all.api.radio-browser.info/json/servers';
+
+type Route = { status: number; body: unknown } | 'offline';
+
+/** Answers by host; records every URL it was asked for. */
+const fakeFetch = (routes: Record<string, Route>) => {
+  const calls: string[] = [];
+  const fetchImpl = (async (input: RequestInfo | URL) => {
+    const url = String(input);
+    calls.push(url);
+    const route = routes[new URL(url).host];
+    if (route === 'offline') {
+      throw new TypeError('Failed to fetch');
+    }
+    if (!route) {
+      return new Response('Not found', { status: 404 });
+    }
+    return new Response(JSON.stringify(route.body), { status: route.status });
+  }) as typeof fetch;
+  return { fetchImpl, calls };
+};
+
+const mirrors = (...names: string[]) => ({ status: 200, body: names.map((name) => ({ name })) });
+
+const station = { name: 'Jazz FM', url: 'https://jazz.example.com/live.mp3', tags: 'jazz' };
+
+beforeEach(() => {
+  vi.stubGlobal('window', { location: { origin: 'http://localhost' } });
+  // Keeps the discovered mirrors in the order they were listed.
+  vi.spyOn(Math, 'random').mockReturnValue(0.99);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createRadioBrowserClient', () => {
+  it('moves on to the next mirror when one answers with a 5xx', async () => {
+    const { fetchImpl, calls } = fakeFetch({
+      'all.api.radio-browser.info': mirrors('down.example', 'up.example'),
+      'down.example': { status: 503, body: { error: 'maintenance' } },
+      'up.example': { status: 200, body: [station] }
+    });
+    const client = createRadioBrowserClient({ fetchImpl });
+
+    const results = await client.search({ name: 'jazz' });
+
+    expect(results.map((result) => result.name)).toEqual(['Jazz FM']);
+    expect(calls.map((url) => new URL(url).host)).toEqual([
+      'all.api.radio-browser.info',
+      'down.example',
+      'up.example'
+    ]);
+    expect(client.currentServer).toBe('https://up.example');
+  });
+
+  it('moves on to the next mirror after a network error and starts there next time', async () => {
+    const { fetchImpl, calls } = fakeFetch({
+      'all.api.radio-browser.info': mirrors('offline.example', 'up.example'),
+      'offline.example': 'offline',
+      'up.example': { status: 200, body: [station] }
+    });
+    const client = createRadioBrowserClient({ fetchImpl });
+
+    await client.search({ name: 'jazz' });
+    await client.search({ name: 'jazz' });
+
+    expect(calls.map((url) => new URL(url).host)).toEqual([
+      'all.api.radio-browser.info',
+      'offline.example',
+      'up.example',
+      'up.example'
+    ]);
+  });
+
+  it('does not retry client errors on other mirrors', async () => {
+    const { fetchImpl, calls } = fakeFetch({
+      'all.api.radio-browser.info': mirrors('first.example', 'second.example'),
+      'first.example': { status: 400, body: { error: 'bad request' } }
+    });
+    const client = createRadioBrowserClient({ fetchImpl });
+
+    await expect(client.search({})).rejects.toThrow('Radio Browser request failed (400)');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('reports the last failure when every mirror is down', async () => {
+    const { fetchImpl } = fakeFetch({
+      'all.api.radio-browser.info': mirrors('a.example', 'b.example'),
+      'a.example': 'offline',
+      'b.example': { status: 502, body: null }
+    });
+    const client = createRadioBrowserClient({ fetchImpl });
+
+    await expect(client.search({})).rejects.toThrow('Radio Browser server error (502)');
+  });
+
+  it('falls back to the seed mirrors when discovery fails', async () => {
+    const { fetchImpl, calls } = fakeFetch({
+      'all.api.radio-browser.info': 'offline',
+      'de1.api.radio-browser.info': 'offline',
+      'de2.api.radio-browser.info': { status: 200, body: [station] }
+    });
+    const client = createRadioBrowserClient({ fetchImpl });
+
+    await expect(client.search({})).resolves.toHaveLength(1);
+    expect(calls[0]).toBe(discoveryUrl);
+    expect(calls.slice(1).map((url) => new URL(url).host)).toEqual([
+      'de1.api.radio-browser.info',
+      'de2.api.radio-browser.info'
+    ]);
+  });
+
+  it('only talks to the fixed server when given a base URL', async () => {
+    const { fetchImpl, calls } = fakeFetch({
+      'local.example': { status: 200, body: [station] }
+    });
+    const client = createRadioBrowserClient({ baseUrl: 'https://local.example/', fetchImpl });
+
+    await client.search({ tag: 'jazz', tagExact: true });
+
+    expect(calls).toHaveLength(1);
+    const url = new URL(calls[0]);
+    expect(url.origin + url.pathname).toBe('https://local.example/json/stations/search');
+    expect(url.searchParams.get('tag')).toBe('jazz');
+    expect(url.searchParams.get('tagExact')).toBe('true');
+  });
+});
+
+describe('buildSearchParams', () => {
+  it('hides broken stations and pages from the start by default', () => {
+    expect(buildSearchParams({})).toEqual({ hidebroken: 'true', limit: '20', offset: '0' });
+  });
+
+  it('trims text filters and drops empty ones', () => {
+    expect(buildSearchParams({ name: '  jazz ', country: ' ', language: 'english' })).toEqual({
+      hidebroken: 'true',
+      limit: '20',
+      offset: '0',
+      name: 'jazz',
+      language: 'english'
+    });
+  });
+
+  it('only asks for an exact tag when there is a tag', () => {
+    expect(buildSearchParams({ tagExact: true })).not.toHaveProperty('tagExact');
+    expect(buildSearchParams({ tag: 'rock', tagExact: true })).toMatchObject({
+      tag: 'rock',
+      tagExact: 'true'
+    });
+  });
+
+  it('maps bitrate, HTTPS and ordering', () => {
+    expect(
+      buildSearchParams({ bitrateMin: 128, httpsOnly: true, order: 'votes', offset: 40, limit: 10 })
+    ).toEqual({
+      hidebroken: 'true',
+      limit: '10',
+      offset: '40',
+      bitrateMin: '128',
+      is_https: 'true',
+      order: 'votes',
+      reverse: 'true'
+    });
+    expect(buildSearchParams({ order: 'name' })).not.toHaveProperty('order');
+  });
+});
+
+describe('parseRadioBrowserStation', () => {
+  it('maps a full record, preferring the resolved URL', () => {
+    expect(
+      parseRadioBrowserStation({
+        stationuuid: 'abc',
+        name: ' Jazz FM ',
+        url: 'https://jazz.example.com/live.pls',
+        url_resolved: 'https://jazz.example.com/live.mp3',
+        country: 'United Kingdom',
+        tags: 'jazz, smooth jazz,',
+        codec: 'MP3',
+        bitrate: 128,
+        language: 'english,welsh',
+        votes: 12,
+        clickcount: 340
+      })
+    ).toEqual({
+      stationuuid: 'abc',
+      name: 'Jazz FM',
+      country: 'United Kingdom',
+      tags: ['jazz', 'smooth jazz'],
+      url: 'https://jazz.example.com/live.mp3',
+      codec: 'MP3',
+      bitrate: 128,
+      language: 'english, welsh',
+      votes: 12,
+      clickcount: 340
+    });
+  });
+
+  it('drops records without a name or a URL', () => {
+    expect(parseRadioBrowserStation(null)).toBeNull();
+    expect(parseRadioBrowserStation('Jazz FM')).toBeNull();
+    expect(parseRadioBrowserStation({ name: '   ', url: 'https://a.example/' })).toBeNull();
+    expect(parseRadioBrowserStation({ name: 'Jazz FM', url: 42 })).toBeNull();
+    expect(parseRadioBrowserStation({ name: 'Jazz FM', url_resolved: '' })).toBeNull();
+  });
+
+  it('ignores fields of the wrong type', () => {
+    expect(
+      parseRadioBrowserStation({
+        name: 'Jazz FM',
+        url: 'https://jazz.example.com/live.mp3',
+        url_resolved: '',
+        stationuuid: 7,
+        country: '',
+        tags: ['jazz'],
+        codec: null,
+        bitrate: 0,
+        language: 3,
+        votes: 'many',
+        clickcount: Number.NaN
+      })
+    ).toEqual({
+      stationuuid: undefined,
+      name: 'Jazz FM',
+      country: 'Unknown',
+      tags: [],
+      url: 'https://jazz.example.com/live.mp3',
+      codec: undefined,
+      bitrate: undefined,
+      language: undefined,
+      votes: undefined,
+      clickcount: undefined
+    });
+  });
+});
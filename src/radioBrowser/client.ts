@@ -0,0 +1,295 @@
+import type { SearchStation } from '../stations';
+
+export type RadioBrowserOrder = 'name' | 'votes' | 'clickcount' | 'bitrate';
+
+export type RadioBrowserSearch = {
+  name?: string;
+  country?: string;
+  tag?: string;
+  /** Match `tag` exactly instead of as a substring. */
+  tagExact?: boolean;
+  codec?: string;
+  bitrateMin?: number;
+  language?: string;
+  httpsOnly?: boolean;
+  order?: RadioBrowserOrder;
+  offset?: number;
+  limit?: number;
+};
+
+export type RadioBrowserVote = {
+  ok: boolean;
+  message: string;
+};
+
+export type RadioBrowserClientOptions = {
+  /** Fixed server (e.g. a local stand-in); disables mirror discovery. */
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+};
+
+export type RadioBrowserClient = {
+  /** The server the next request goes to, once known. */
+  readonly currentServer: string | null;
+  search: (query: RadioBrowserSearch, signal?: AbortSignal) => Promise<SearchStation[]>;
+  /** GET a `/json/...` path and parse the station list it returns. */
+  listStations: (
+    path: string,
+    params?: Record<string, string>,
+    signal?: AbortSignal
+  ) => Promise<SearchStation[]>;
+  /** GET any `/json/...` path; used for countries, tags and similar lists. */
+  getJson: <T>(path: string, params?: Record<string, string>, signal?: AbortSignal) => Promise<T>;
+  /** Counts a play of the station; returns the stream URL the API resolved. */
+  click: (stationuuid: string) => Promise<string | null>;
+  vote: (stationuuid: string) => Promise<RadioBrowserVote>;
+};
+
+export const defaultPageSize = 20;
+
+const discoveryUrl = 'https://all.api.radio-browser.info/json/servers';
+/** Used when discovery itself fails. */
+const seedServers = [
+  'https://de1.api.radio-browser.info',
+  'https://de2.api.radio-browser.info',
+  'https://fi1.api.radio-browser.info',
+  'https://nl1.api.radio-browser.info'
+];
+const defaultTimeoutMs = 10000;
+
+/** Fetches with a timeout, also aborting when `signal` does. */
+const fetchWithTimeout = async (
+  fetchImpl: typeof fetch,
+  url: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = setTimeout(abort, timeoutMs);
+  signal?.addEventListener('abort', abort);
+  try {
+    return await fetchImpl(url, { signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+const shuffle = <T>(items: T[]) => {
+  const copy = [...items];
+  for (let index = copy.length - 1; index > 0; index -= 1) {
+    const other = Math.floor(Math.random() * (index + 1));
+    [copy[index], copy[other]] = [copy[other], copy[index]];
+  }
+  return copy;
+};
+
+const splitList = (value: unknown) =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : [];
+
+const optionalNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/** Maps one Radio Browser station record; null when it has no name or URL. */
+export const parseRadioBrowserStation = (item: unknown): SearchStation | null => {
+  const record = (item ?? {}) as Record<string, unknown>;
+  const name = typeof record.name === 'string' ? record.name.trim() : '';
+  const url =
+    typeof record.url_resolved === 'string' && record.url_resolved
+      ? record.url_resolved
+      : typeof record.url === 'string'
+        ? record.url
+        : '';
+  if (!name || !url) {
+    return null;
+  }
+  return {
+    stationuuid: typeof record.stationuuid === 'string' ? record.stationuuid : undefined,
+    name,
+    country: typeof record.country === 'string' && record.country ? record.country : 'Unknown',
+    tags: splitList(record.tags),
+    url,
+    codec: typeof record.codec === 'string' && record.codec ? record.codec : undefined,
+    bitrate: optionalNumber(record.bitrate) || undefined,
+    language: splitList(record.language).join(', ') || undefined,
+    votes: optionalNumber(record.votes),
+    clickcount: optionalNumber(record.clickcount)
+  };
+};
+
+const parseStationList = (data: unknown) =>
+  Array.isArray(data)
+    ? data
+        .map(parseRadioBrowserStation)
+        .filter((station): station is SearchStation => station !== null)
+    : [];
+
+export const buildSearchParams = ({
+  name,
+  country,
+  tag,
+  tagExact,
+  codec,
+  bitrateMin,
+  language,
+  httpsOnly,
+  order,
+  offset,
+  limit
+}: RadioBrowserSearch) => {
+  const params: Record<string, string> = {
+    hidebroken: 'true',
+    limit: String(limit ?? defaultPageSize),
+    offset: String(offset ?? 0)
+  };
+  const text = { name, country, tag, codec, language };
+  (Object.keys(text) as (keyof typeof text)[]).forEach((key) => {
+    const value = text[key]?.trim();
+    if (value) {
+      params[key] = value;
+    }
+  });
+  if (params.tag && tagExact) {
+    params.tagExact = 'true';
+  }
+  if (bitrateMin) {
+    params.bitrateMin = String(bitrateMin);
+  }
+  if (httpsOnly) {
+    params.is_https = 'true';
+  }
+  if (order && order !== 'name') {
+    params.order = order;
+    params.reverse = 'true';
+  }
+  return params;
+};
+
+/**
+ * Talks to the Radio Browser API. Servers come from the discovery endpoint
+ * (falling back to a seed list) in random order; a request that fails with a
+ * network error or a 5xx moves on to the next server.
+ */
+export const createRadioBrowserClient = ({
+  baseUrl,
+  fetchImpl = (...args) => fetch(...args),
+  timeoutMs = defaultTimeoutMs
+}: RadioBrowserClientOptions = {}): RadioBrowserClient => {
+  let servers: string[] | null = baseUrl ? [baseUrl.replace(/\/+$/, '')] : null;
+  let discovery: Promise<string[]> | null = null;
+
+  const discoverServers = () => {
+    if (servers) {
+      return Promise.resolve(servers);
+    }
+    discovery ??= fetchWithTimeout(fetchImpl, discoveryUrl, timeoutMs)
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data: unknown) => {
+        const names = Array.isArray(data)
+          ? data
+              .map((item) => (item as { name?: unknown }).name)
+              .filter((name): name is string => typeof name === 'string' && name.length > 0)
+          : [];
+        return names.length > 0
+          ? Array.from(new Set(names)).map((name) => `https://${name}`)
+          : seedServers;
+      })
+      .catch((err) => {
+        console.warn('[Radio Browser] Server discovery failed, using the seed list.', err);
+        return seedServers;
+      })
+      .then((found) => {
+        servers = shuffle(found);
+        return servers;
+      });
+    return discovery;
+  };
+
+  /** Moves a failed server to the back so the next request starts elsewhere. */
+  const demote = (server: string) => {
+    if (servers && servers.length > 1 && servers[0] === server) {
+      servers = [...servers.slice(1), server];
+    }
+  };
+
+  const request = async (
+    path: string,
+    params: Record<string, string> = {},
+    signal?: AbortSignal
+  ): Promise<unknown> => {
+    const candidates = [...(await discoverServers())];
+    let lastError: unknown = null;
+    for (const server of candidates) {
+      const url = new URL(`${server}${path}`, window.location.origin);
+      Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+      let response: Response;
+      try {
+        response = await fetchWithTimeout(fetchImpl, url.toString(), timeoutMs, signal);
+      } catch (err) {
+        if (signal?.aborted) {
+          throw err;
+        }
+        lastError = err;
+        console.warn(`[Radio Browser] ${server} failed, trying the next server.`, err);
+        demote(server);
+        continue;
+      }
+      if (response.status >= 500) {
+        lastError = new Error(`Radio Browser server error (${response.status})`);
+        console.warn(
+          `[Radio Browser] ${server} answered ${response.status}, trying the next server.`
+        );
+        demote(server);
+        continue;
+      }
+      if (!response.ok) {
+        // Client errors would be the same on every mirror.
+        throw new Error(`Radio Browser request failed (${response.status})`);
+      }
+      return response.json();
+    }
+    throw lastError instanceof Error
+      ? lastError
+      : new Error('No Radio Browser server could be reached.');
+  };
+
+  const listStations = async (
+    path: string,
+    params?: Record<string, string>,
+    signal?: AbortSignal
+  ) => parseStationList(await request(path, params, signal));
+
+  return {
+    get currentServer() {
+      return servers?.[0] ?? null;
+    },
+    search: (query, signal) =>
+      listStations('/json/stations/search', buildSearchParams(query), signal),
+    listStations,
+    getJson: async <T>(path: string, params?: Record<string, string>, signal?: AbortSignal) =>
+      (await request(path, params, signal)) as T,
+    click: async (stationuuid) => {
+      const data = (await request(`/json/url/${encodeURIComponent(stationuuid)}`)) as {
+        url?: unknown;
+      };
+      return typeof data?.url === 'string' ? data.url : null;
+    },
+    vote: async (stationuuid) => {
+      const data = (await request(`/json/vote/${encodeURIComponent(stationuuid)}`)) as {
+        ok?: unknown;
+        message?: unknown;
+      };
+      return {
+        ok: data?.ok === true,
+        message: typeof data?.message === 'string' ? data.message : ''
+      };
+    }
+  };
+};
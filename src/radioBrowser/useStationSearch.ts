@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type FormEvent } from 'react';
+import { getFavouriteKey, type SearchStation } from '../stations';
+import { useLocalStorage } from '../useLocalStorage';
+import {
+  defaultPageSize,
+  type RadioBrowserClient,
+  type RadioBrowserOrder,
+  type RadioBrowserSearch
+} from './client';
+
+export type SearchFilters = Omit<
+  RadioBrowserSearch,
+  'name' | 'country' | 'tag' | 'offset' | 'limit'
+>;
+
+export type SearchCacheEntry = {
+  key: string;
+  results: SearchStation[];
+  cachedAt: number;
+};
+
+export const defaultSearchFilters: SearchFilters = {
+  order: 'votes',
+  tagExact: false,
+  codec: '',
+  bitrateMin: 0,
+  language: '',
+  httpsOnly: false
+};
+
+export const searchOrderLabels: Record<RadioBrowserOrder, string> = {
+  votes: 'Most voted',
+  clickcount: 'Most played',
+  bitrate: 'Highest bitrate',
+  name: 'Name'
+};
+
+export const searchCodecs = ['MP3', 'AAC', 'AAC+', 'OGG', 'FLAC'];
+export const searchBitrates = [64, 128, 192, 320];
+
+export const hasSearchTerms = ({ name, country, tag, language }: RadioBrowserSearch) =>
+  [name, country, tag, language].some((value) => value?.trim());
+
+const searchCacheKey = (request: RadioBrowserSearch) =>
+  [
+    request.name,
+    request.country,
+    request.tag,
+    request.tagExact ? 'exact' : '',
+    request.codec,
+    request.bitrateMin || '',
+    request.language,
+    request.httpsOnly ? 'https' : '',
+    request.order
+  ]
+    .map((value) => String(value ?? '').trim().toLowerCase())
+    .join('|');
+
+const maxCachedSearches = 20;
+const searchDebounceMs = 400;
+
+/**
+ * Radio Browser search: debounced as the listener types, with the last
+ * searches and the filters kept in `localStorage`.
+ */
+export function useStationSearch(radioBrowser: RadioBrowserClient) {
+  const searchCacheRef = useRef<Map<string, SearchStation[]>>(new Map());
+  const searchAbortRef = useRef<AbortController | null>(null);
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchCountry, setSearchCountry] = useState('');
+  const [searchTag, setSearchTag] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchStation[]>([]);
+  const [searchLoading, setSearchLoading] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [searchHasMore, setSearchHasMore] = useState(false);
+  const [searchFilters, setSearchFilters] = useLocalStorage<SearchFilters>(
+    'raven-radio:search-filters',
+    defaultSearchFilters
+  );
+  const [searchCache, setSearchCache] = useLocalStorage<SearchCacheEntry[]>(
+    'raven-radio:search-cache',
+    []
+  );
+  const [voteMessages, setVoteMessages] = useState<Record<string, string>>({});
+
+  const searchRequest = useMemo<RadioBrowserSearch>(
+    () => ({
+      ...defaultSearchFilters,
+      ...searchFilters,
+      name: searchQuery,
+      country: searchCountry,
+      tag: searchTag
+    }),
+    [searchFilters, searchQuery, searchCountry, searchTag]
+  );
+
+  useEffect(() => {
+    const cacheMap = new Map<string, SearchStation[]>();
+    searchCache.forEach((entry) => {
+      cacheMap.set(entry.key, entry.results);
+    });
+    searchCacheRef.current = cacheMap;
+  }, [searchCache]);
+
+  const updateSearchCache = useCallback(
+    (key: string, results: SearchStation[]) => {
+      searchCacheRef.current.set(key, results);
+      setSearchCache((prev) => {
+        const filtered = prev.filter((entry) => entry.key !== key);
+        const next = [{ key, results, cachedAt: Date.now() }, ...filtered];
+        return next.slice(0, maxCachedSearches);
+      });
+    },
+    [setSearchCache]
+  );
+
+  const performSearch = useCallback(
+    async (request: RadioBrowserSearch, offset = 0) => {
+      if (!hasSearchTerms(request)) {
+        searchAbortRef.current?.abort();
+        setSearchResults([]);
+        setSearchHasMore(false);
+        setSearchError(null);
+        setSearchLoading(false);
+        return;
+      }
+      const key = searchCacheKey(request);
+      const cached = offset === 0 ? searchCacheRef.current.get(key) : undefined;
+      if (cached) {
+        setSearchResults(cached);
+        setSearchHasMore(cached.length === defaultPageSize);
+        setSearchError(null);
+        setSearchLoading(false);
+        return;
+      }
+
+      searchAbortRef.current?.abort();
+      const controller = new AbortController();
+      searchAbortRef.current = controller;
+      setSearchLoading(true);
+      setSearchError(null);
+
+      try {
+        const results = await radioBrowser.search(
+          { ...request, offset, limit: defaultPageSize },
+          controller.signal
+        );
+        setSearchHasMore(results.length === defaultPageSize);
+        if (offset > 0) {
+          setSearchResults((prev) => {
+            const seen = new Set(prev.map(getFavouriteKey));
+            return [...prev, ...results.filter((station) => !seen.has(getFavouriteKey(station)))];
+          });
+          return;
+        }
+        setSearchResults(results);
+        updateSearchCache(key, results);
+      } catch (err) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('Radio Browser search failed', err);
+        if (offset === 0) {
+          setSearchResults([]);
+        }
+        setSearchError(
+          'We could not reach the Radio Browser service. Please check your connection and try again.'
+        );
+      } finally {
+        if (!controller.signal.aborted) {
+          setSearchLoading(false);
+        }
+      }
+    },
+    [radioBrowser, updateSearchCache]
+  );
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => {
+      performSearch(searchRequest);
+    }, searchDebounceMs);
+    return () => {
+      window.clearTimeout(timeout);
+    };
+  }, [performSearch, searchRequest]);
+
+  const handleSearchSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    performSearch(searchRequest);
+  };
+
+  const loadMore = () => {
+    performSearch(searchRequest, searchResults.length);
+  };
+
+  const updateSearchFilters = (patch: Partial<SearchFilters>) => {
+    setSearchFilters({ ...searchFilters, ...patch });
+  };
+
+  const voteForStation = async (station: SearchStation) => {
+    const uuid = station.stationuuid;
+    if (!uuid) {
+      return;
+    }
+    setVoteMessages((prev) => ({ ...prev, [uuid]: 'Voting…' }));
+    try {
+      const result = await radioBrowser.vote(uuid);
+      setVoteMessages((prev) => ({
+        ...prev,
+        [uuid]: result.ok ? 'Thanks for voting' : result.message || 'Vote not accepted'
+      }));
+    } catch (err) {
+      console.warn('[Radio Browser] Vote failed', err);
+      setVoteMessages((prev) => ({ ...prev, [uuid]: 'Vote failed, try again later' }));
+    }
+  };
+
+  return {
+    searchQuery,
+    setSearchQuery,
+    searchCountry,
+    setSearchCountry,
+    searchTag,
+    setSearchTag,
+    searchRequest,
+    searchResults,
+    searchLoading,
+    searchError,
+    searchHasMore,
+    searchFilters,
+    setSearchFilters,
+    updateSearchFilters,
+    searchCache,
+    setSearchCache,
+    handleSearchSubmit,
+    loadMore,
+    voteMessages,
+    voteForStation
+  };
+}
@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { fuzzyFilter } from './fuzzy';
+
+export type PaletteItem = {
+  key: string;
+  label: string;
+  detail?: string;
+  group: string;
+  run: () => void;
+};
+
+type CommandPaletteProps = {
+  items: PaletteItem[];
+  onClose: () => void;
+};
+
+const maxResults = 50;
+
+function CommandPalette({ items, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const listRef = useRef<HTMLUListElement | null>(null);
+
+  const results = useMemo(
+    () =>
+      fuzzyFilter(items, query, (item) => `${item.label} ${item.detail ?? ''}`).slice(
+        0,
+        maxResults
+      ),
+    [items, query]
+  );
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-index="${selected}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) {
+      return;
+    }
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setSelected((prev) => Math.min(results.length - 1, prev + 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setSelected((prev) => Math.max(0, prev - 1));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      runItem(results[selected]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="palette-backdrop" onMouseDown={onClose}>
+      <div
+        className="palette"
+        role="dialog"
+        aria-label="Command palette"
+        onMouseDown={(event) => event.stopPropagation()}
+      >
+        <input
+          ref={inputRef}
+          type="search"
+          placeholder="Jump to a station, favourite or search result"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleKeyDown}
+          aria-activedescendant={results[selected] ? `palette-${selected}` : undefined}
+        />
+        <ul ref={listRef} role="listbox">
+          {results.length === 0 && <li className="empty">Nothing matches.</li>}
+          {results.map((item, index) => (
+            <li
+              key={`${item.group}-${item.key}`}
+              id={`palette-${index}`}
+              data-index={index}
+              role="option"
+              aria-selected={index === selected}
+              className={index === selected ? 'selected' : ''}
+              onMouseEnter={() => setSelected(index)}
+              onClick={() => runItem(item)}
+            >
+              <span>
+                {item.label}
+                {item.detail && <span className="subtle">{item.detail}</span>}
+              </span>
+              <span className="group">{item.group}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default CommandPalette;
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import {
+  defaultShortcutBindings,
+  formatComboLabel,
+  formatKeyCombo,
+  shortcutActionLabels,
+  type ShortcutAction,
+  type ShortcutBindings
+} from './shortcuts';
+
+type ShortcutSettingsProps = {
+  bindings: ShortcutBindings;
+  onChange: (action: ShortcutAction, combo: string) => void;
+  onReset: () => void;
+};
+
+function ShortcutSettings({ bindings, onChange, onReset }: ShortcutSettingsProps) {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    if (!recording) {
+      return;
+    }
+    // Capture phase so the global shortcut handler never sees the key being bound.
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const combo = formatKeyCombo(event);
+      if (combo) {
+        onChange(recording, combo);
+        setRecording(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [recording, onChange]);
+
+  const actions = Object.keys(shortcutActionLabels) as ShortcutAction[];
+
+  return (
+    <details className="shortcut-settings">
+      <summary>Keyboard shortcuts</summary>
+      <ul>
+        {actions.map((action) => {
+          const conflict = actions.some(
+            (other) => other !== action && bindings[other] === bindings[action]
+          );
+          return (
+            <li key={action}>
+              <span>{shortcutActionLabels[action]}</span>
+              <button
+                type="button"
+                className={`ghost ${conflict ? 'conflict' : ''}`}
+                onClick={() => setRecording(recording === action ? null : action)}
+                title={conflict ? 'Bound to more than one action' : 'Click, then press a key'}
+              >
+                {recording === action ? 'Press a key…' : formatComboLabel(bindings[action])}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        type="button"
+        className="ghost"
+        onClick={onReset}
+        disabled={actions.every((action) => bindings[action] === defaultShortcutBindings[action])}
+      >
+        Reset to defaults
+      </button>
+    </details>
+  );
+}
+
+export default ShortcutSettings;
@@ -0,0 +1,45 @@
+/**
+ * Scores `text` against a subsequence query. Consecutive matches and matches
+ * at word starts score higher; returns null when not every character matches.
+ */
+export const fuzzyScore = (query: string, text: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return 0;
+  }
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of needle) {
+    if (char === ' ') {
+      continue;
+    }
+    const index = haystack.indexOf(char, position);
+    if (index === -1) {
+      return null;
+    }
+    score += 1;
+    if (index === previous + 1) {
+      score += 2;
+    }
+    if (index === 0 || /[\s\-_/(]/.test(haystack[index - 1])) {
+      score += 3;
+    }
+    previous = index;
+    position = index + 1;
+  }
+  // Prefer shorter texts when the match quality is otherwise equal.
+  return score - haystack.length * 0.01;
+};
+
+export const fuzzyFilter = <T>(items: T[], query: string, toText: (item: T) => string) => {
+  if (!query.trim()) {
+    return items;
+  }
+  return items
+    .map((item, index) => ({ item, index, score: fuzzyScore(query, toText(item)) }))
+    .filter((entry): entry is { item: T; index: number; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.item);
+};
@@ -0,0 +1,130 @@
+export type ShortcutAction =
+  | 'playPause'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'nextFavourite'
+  | 'previousFavourite'
+  | 'toggleTalkKiller'
+  | 'toggleFallback'
+  | 'focusSearch'
+  | 'commandPalette';
+
+/** Key combos such as `Space`, `Shift+N` or `Mod+K` (Mod is Ctrl, or Cmd on macOS). */
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const shortcutActionLabels: Record<ShortcutAction, string> = {
+  playPause: 'Play / pause',
+  volumeUp: 'Volume up',
+  volumeDown: 'Volume down',
+  nextFavourite: 'Next favourite',
+  previousFavourite: 'Previous favourite',
+  toggleTalkKiller: 'Toggle Talk Killer',
+  toggleFallback: 'Mark station as fallback',
+  focusSearch: 'Focus search',
+  commandPalette: 'Command palette'
+};
+
+/** Space and the arrow keys are left alone so the keyboard can still scroll the page. */
+export const defaultShortcutBindings: ShortcutBindings = {
+  playPause: 'K',
+  volumeUp: '+',
+  volumeDown: '-',
+  nextFavourite: 'N',
+  previousFavourite: 'P',
+  toggleTalkKiller: 'T',
+  toggleFallback: 'F',
+  focusSearch: '/',
+  commandPalette: 'Mod+K'
+};
+
+const modifierKeys = ['Control', 'Meta', 'Shift', 'Alt'];
+
+const keyName = (key: string) => {
+  if (key === ' ') {
+    return 'Space';
+  }
+  return key.length === 1 ? key.toUpperCase() : key;
+};
+
+/** Normalises a keydown into a combo string; null for a bare modifier press. */
+export const formatKeyCombo = (
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+) => {
+  if (modifierKeys.includes(event.key)) {
+    return null;
+  }
+  const name = keyName(event.key);
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) {
+    parts.push('Mod');
+  }
+  if (event.altKey) {
+    parts.push('Alt');
+  }
+  // Shifted symbols (`?`, `/` on some layouts) already encode Shift in the key.
+  if (event.shiftKey && (name.length > 1 || /[A-Z0-9]/.test(name))) {
+    parts.push('Shift');
+  }
+  parts.push(name);
+  return parts.join('+');
+};
+
+export const resolveShortcutBindings = (overrides: Partial<ShortcutBindings>) => ({
+  ...defaultShortcutBindings,
+  ...overrides
+});
+
+export const matchShortcut = (combo: string, bindings: ShortcutBindings) => {
+  const actions = Object.keys(bindings) as ShortcutAction[];
+  return actions.find((action) => bindings[action] === combo) ?? null;
+};
+
+/** Input types that take typed text; checkboxes, radios and sliders do not. */
+const textInputTypes = [
+  'text',
+  'search',
+  'email',
+  'url',
+  'tel',
+  'password',
+  'number',
+  'date',
+  'time',
+  'datetime-local',
+  'month',
+  'week'
+];
+
+/**
+ * Single-key shortcuts must not fire while the listener is typing: text
+ * fields, selects and editable content take the keys for themselves.
+ */
+export const isFormControlTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return (
+    target.isContentEditable ||
+    (target instanceof HTMLInputElement && textInputTypes.includes(target.type)) ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+};
+
+/** Space or Enter on a focused button, link or checkbox activates it instead of a shortcut. */
+export const activatesTarget = (target: EventTarget | null, combo: string) => {
+  return (
+    (combo === 'Space' || combo === 'Enter') &&
+    target instanceof HTMLElement &&
+    Boolean(
+      target.closest(
+        'button, summary, a[href], [role="button"], [role="option"], input[type="checkbox"], input[type="radio"]'
+      )
+    )
+  );
+};
+
+export const formatComboLabel = (combo: string) => {
+  const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+  return combo.replace('Mod', isMac ? '⌘' : 'Ctrl');
+};
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useLocalStorage } from '../useLocalStorage';
+import {
+  activatesTarget,
+  formatKeyCombo,
+  isFormControlTarget,
+  matchShortcut,
+  resolveShortcutBindings,
+  type ShortcutAction,
+  type ShortcutBindings
+} from './shortcuts';
+
+/**
+ * Runs `actions` from the keyboard using the listener's bindings, which are
+ * stored in `localStorage`. `actions` may change every render.
+ */
+export function useShortcuts(actions: Record<ShortcutAction, () => void>) {
+  const [shortcutOverrides, setShortcutOverrides] = useLocalStorage<Partial<ShortcutBindings>>(
+    'raven-radio:shortcuts',
+    {}
+  );
+  const bindings = resolveShortcutBindings(shortcutOverrides);
+  const shortcutsRef = useRef({ bindings, actions });
+  shortcutsRef.current = { bindings, actions };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcuts = shortcutsRef.current;
+      const combo = formatKeyCombo(event);
+      if (!combo || event.defaultPrevented) {
+        return;
+      }
+      const action = matchShortcut(combo, shortcuts.bindings);
+      if (
+        !action ||
+        (isFormControlTarget(event.target) && !combo.startsWith('Mod+')) ||
+        activatesTarget(event.target, combo)
+      ) {
+        return;
+      }
+      event.preventDefault();
+      shortcuts.actions[action]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  const updateShortcut = useCallback(
+    (action: ShortcutAction, combo: string) => {
+      setShortcutOverrides((prev) => ({ ...prev, [action]: combo }));
+    },
+    [setShortcutOverrides]
+  );
+
+  return { bindings, shortcutOverrides, setShortcutOverrides, updateShortcut };
+}
@@ -0,0 +1,98 @@
+import type { MetadataFormat } from './metadata/adapters';
+
+export type Station = {
+  id: string;
+  name: string;
+  country: string;
+  tags: string[];
+  url: string;
+  /** Mirror stream URLs tried after `url` when it keeps failing. */
+  urls?: string[];
+  codec: string;
+  metadataUrl?: string;
+  /** Adapter for `metadataUrl`; detected from the payload when omitted. */
+  metadataFormat?: MetadataFormat;
+  logo?: string;
+};
+
+export type SearchStation = {
+  stationuuid?: string;
+  name: string;
+  country: string;
+  tags: string[];
+  url: string;
+  codec?: string;
+  bitrate?: number;
+  language?: string;
+  /** Radio Browser popularity counters. */
+  votes?: number;
+  clickcount?: number;
+};
+
+export type PlayableStation = {
+  id?: string;
+  stationuuid?: string;
+  name: string;
+  country?: string;
+  tags?: string[];
+  url: string;
+  urls?: string[];
+  codec?: string;
+  bitrate?: number;
+  metadataUrl?: string;
+  metadataFormat?: MetadataFormat;
+  logo?: string;
+};
+
+export type FavouriteStation = {
+  key: string;
+  name: string;
+  country?: string;
+  tags?: string[];
+  url: string;
+  codec?: string;
+  bitrate?: number;
+  stationuuid?: string;
+  source: 'local' | 'search';
+  localId?: string;
+};
+
+export type FallbackStation = Omit<FavouriteStation, 'source'> & {
+  source: FavouriteStation['source'] | 'favourite';
+  /** 1..5, higher is preferred by the fallback selector. */
+  weight: number;
+};
+
+/** A local station or favourite offered in a picker, keyed like `getStationKey`. */
+export type StationChoice = {
+  key: string;
+  name: string;
+  group: string;
+};
+
+/** Local stations are keyed by id, everything else like its favourite entry. */
+export const getStationKey = (station: { id?: string; stationuuid?: string; url: string }) => {
+  return station.id || station.stationuuid || station.url;
+};
+
+export const getStreamUrls = (station: { url: string; urls?: string[] }) => {
+  return Array.from(new Set([station.url, ...(station.urls ?? [])].filter(Boolean)));
+};
+
+/** Favourites and search results are keyed by Radio Browser uuid, then URL. */
+export const getFavouriteKey = (station: { stationuuid?: string; url?: string; id?: string }) => {
+  return station.stationuuid || station.url || station.id || '';
+};
+
+export const fallbackToPlayable = (
+  station: Omit<FallbackStation, 'source' | 'weight'>
+): PlayableStation => ({
+  id: station.localId,
+  stationuuid: station.stationuuid,
+  name: station.name,
+  country: station.country,
+  tags: station.tags,
+  url: station.url,
+  codec: station.codec,
+  bitrate: station.bitrate
+});
@@ -0,0 +1,264 @@
+import { useEffect, useRef, type RefObject } from 'react';
+
+export type AutoSwitchMarker = {
+  at: number;
+  to: string;
+};
+
+type SpeechVisualizerProps = {
+  analyserRef: RefObject<AnalyserNode | null>;
+  /** Latest detector confidence, 0..1. */
+  score: number;
+  /** Confidence at or above which the detector counts speech. */
+  threshold: number;
+  switches: AutoSwitchMarker[];
+};
+
+const timelineSeconds = 60;
+const sampleMs = 250;
+const minFrequency = 40;
+const maxFrequency = 16000;
+const speechBand: [number, number] = [300, 3000];
+
+const colors = {
+  grid: '#e5e7eb',
+  band: 'rgba(67, 56, 202, 0.08)',
+  bar: '#94a3b8',
+  speechBar: '#4338ca',
+  score: '#16a34a',
+  speech: '#dc2626',
+  threshold: '#f59e0b',
+  label: '#475569',
+  wave: '#4338ca'
+};
+
+type Sample = { at: number; score: number };
+
+/** Matches the backing store to the CSS size so lines stay sharp on HiDPI screens. */
+const prepareCanvas = (canvas: HTMLCanvasElement) => {
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.round(canvas.clientWidth * ratio);
+  const height = Math.round(canvas.clientHeight * ratio);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const context = canvas.getContext('2d');
+  context?.setTransform(ratio, 0, 0, ratio, 0, 0);
+  return context ? { context, width: canvas.clientWidth, height: canvas.clientHeight } : null;
+};
+
+const frequencyToX = (frequency: number, width: number) =>
+  (Math.log(frequency / minFrequency) / Math.log(maxFrequency / minFrequency)) * width;
+
+/** `bins` holds the latest byte frequency data; `binHz` is null without an analyser. */
+const drawSpectrum = (canvas: HTMLCanvasElement, bins: Uint8Array, binHz: number | null) => {
+  const prepared = prepareCanvas(canvas);
+  if (!prepared) {
+    return;
+  }
+  const { context, width, height } = prepared;
+  context.clearRect(0, 0, width, height);
+
+  const bandStart = frequencyToX(speechBand[0], width);
+  const bandEnd = frequencyToX(speechBand[1], width);
+  context.fillStyle = colors.band;
+  context.fillRect(bandStart, 0, bandEnd - bandStart, height);
+  context.fillStyle = colors.label;
+  context.font = '10px system-ui, sans-serif';
+  context.fillText('speech band', bandStart + 4, 12);
+
+  if (binHz === null) {
+    return;
+  }
+  let previousX = -1;
+  for (let index = 1; index < bins.length; index += 1) {
+    const frequency = index * binHz;
+    if (frequency < minFrequency || frequency > maxFrequency) {
+      continue;
+    }
+    const x = Math.floor(frequencyToX(frequency, width));
+    // Several high bins share one pixel column; draw each column once.
+    if (x === previousX) {
+      continue;
+    }
+    previousX = x;
+    const barHeight = (bins[index] / 255) * height;
+    const inBand = frequency >= speechBand[0] && frequency <= speechBand[1];
+    context.fillStyle = inBand ? colors.speechBar : colors.bar;
+    context.fillRect(x, height - barHeight, 2, barHeight);
+  }
+};
+
+/** The raw signal of the last analyser frame, 128 being silence. */
+const drawWaveform = (canvas: HTMLCanvasElement, wave: Uint8Array, active: boolean) => {
+  const prepared = prepareCanvas(canvas);
+  if (!prepared) {
+    return;
+  }
+  const { context, width, height } = prepared;
+  context.clearRect(0, 0, width, height);
+
+  context.strokeStyle = colors.grid;
+  context.lineWidth = 1;
+  context.beginPath();
+  context.moveTo(0, height / 2);
+  context.lineTo(width, height / 2);
+  context.stroke();
+
+  if (!active || wave.length === 0) {
+    return;
+  }
+  context.strokeStyle = colors.wave;
+  context.lineWidth = 1.5;
+  context.beginPath();
+  for (let index = 0; index < wave.length; index += 1) {
+    const x = (index / (wave.length - 1)) * width;
+    const y = (1 - wave[index] / 255) * height;
+    if (index === 0) {
+      context.moveTo(x, y);
+    } else {
+      context.lineTo(x, y);
+    }
+  }
+  context.stroke();
+};
+
+const drawTimeline = (
+  canvas: HTMLCanvasElement,
+  samples: Sample[],
+  threshold: number,
+  switches: AutoSwitchMarker[],
+  now: number
+) => {
+  const prepared = prepareCanvas(canvas);
+  if (!prepared) {
+    return;
+  }
+  const { context, width, height } = prepared;
+  const toX = (at: number) => width - ((now - at) / (timelineSeconds * 1000)) * width;
+  const toY = (score: number) => height - score * height;
+  context.clearRect(0, 0, width, height);
+
+  context.strokeStyle = colors.grid;
+  context.lineWidth = 1;
+  for (let seconds = 10; seconds < timelineSeconds; seconds += 10) {
+    const x = toX(now - seconds * 1000);
+    context.beginPath();
+    context.moveTo(x, 0);
+    context.lineTo(x, height);
+    context.stroke();
+  }
+
+  context.strokeStyle = colors.threshold;
+  context.setLineDash([4, 4]);
+  context.beginPath();
+  context.moveTo(0, toY(threshold));
+  context.lineTo(width, toY(threshold));
+  context.stroke();
+  context.setLineDash([]);
+
+  context.lineWidth = 1.5;
+  for (let index = 1; index < samples.length; index += 1) {
+    const from = samples[index - 1];
+    const to = samples[index];
+    context.strokeStyle = to.score >= threshold ? colors.speech : colors.score;
+    context.beginPath();
+    context.moveTo(toX(from.at), toY(from.score));
+    context.lineTo(toX(to.at), toY(to.score));
+    context.stroke();
+  }
+
+  context.fillStyle = colors.speech;
+  context.strokeStyle = colors.speech;
+  context.font = '10px system-ui, sans-serif';
+  switches.forEach((marker) => {
+    const x = toX(marker.at);
+    if (x < 0) {
+      return;
+    }
+    context.beginPath();
+    context.moveTo(x, 0);
+    context.lineTo(x, height);
+    context.stroke();
+    context.fillText(`→ ${marker.to}`, Math.min(x + 3, width - 60), 10);
+  });
+};
+
+function SpeechVisualizer({ analyserRef, score, threshold, switches }: SpeechVisualizerProps) {
+  const spectrumRef = useRef<HTMLCanvasElement | null>(null);
+  const waveformRef = useRef<HTMLCanvasElement | null>(null);
+  const timelineRef = useRef<HTMLCanvasElement | null>(null);
+  const latestRef = useRef({ score, threshold, switches });
+  latestRef.current = { score, threshold, switches };
+
+  useEffect(() => {
+    let frame = 0;
+    let lastSample = 0;
+    let bins = new Uint8Array(0);
+    let wave = new Uint8Array(0);
+    const samples: Sample[] = [];
+
+    const render = () => {
+      frame = window.requestAnimationFrame(render);
+      const now = Date.now();
+      const latest = latestRef.current;
+      if (now - lastSample >= sampleMs) {
+        lastSample = now;
+        samples.push({ at: now, score: latest.score });
+        while (samples.length > 0 && now - samples[0].at > timelineSeconds * 1000) {
+          samples.shift();
+        }
+      }
+      const analyser = analyserRef.current;
+      if (analyser) {
+        if (bins.length !== analyser.frequencyBinCount) {
+          bins = new Uint8Array(analyser.frequencyBinCount);
+        }
+        if (wave.length !== analyser.fftSize) {
+          wave = new Uint8Array(analyser.fftSize);
+        }
+        analyser.getByteFrequencyData(bins);
+        analyser.getByteTimeDomainData(wave);
+      }
+      if (spectrumRef.current) {
+        drawSpectrum(
+          spectrumRef.current,
+          bins,
+          analyser ? analyser.context.sampleRate / analyser.fftSize : null
+        );
+      }
+      if (waveformRef.current) {
+        drawWaveform(waveformRef.current, wave, !!analyser);
+      }
+      if (timelineRef.current) {
+        drawTimeline(timelineRef.current, samples, latest.threshold, latest.switches, now);
+      }
+    };
+
+    frame = window.requestAnimationFrame(render);
+    return () => {
+      window.cancelAnimationFrame(frame);
+    };
+  }, [analyserRef]);
+
+  return (
+    <div className="visualizer">
+      <canvas ref={spectrumRef} className="spectrum" aria-label="Live spectrum" />
+      <canvas ref={waveformRef} className="waveform" aria-label="Live waveform" />
+      <canvas
+        ref={timelineRef}
+        className="score-timeline"
+        aria-label={`Speech score over the last ${timelineSeconds} seconds`}
+      />
+      <div className="visualizer-legend">
+        <span className="music">Music</span>
+        <span className="speech">Speech</span>
+        <span className="threshold">Sensitivity {threshold.toFixed(2)}</span>
+        <span className="subtle">Last {timelineSeconds} s</span>
+      </div>
+    </div>
+  );
+}
+
+export default SpeechVisualizer;
@@ -0,0 +1,173 @@
+import { useMemo, useState } from 'react';
+import { downloadText } from '../download';
+import {
+  recentDays,
+  summarizeLog,
+  talkKillerLogToJson,
+  type SwitchEvent,
+  type TalkKillerLog
+} from './switchLog';
+
+type TalkKillerLogPanelProps = {
+  log: TalkKillerLog;
+  onMusicFeedback: (event: SwitchEvent) => void;
+  onClear: () => void;
+};
+
+const rangeOptions = [7, 30];
+const dailyColumns = 7;
+const visibleEvents = 25;
+
+const formatWhen = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 10 ? minutes.toFixed(0) : minutes.toFixed(1);
+
+function TalkKillerLogPanel({ log, onMusicFeedback, onClear }: TalkKillerLogPanelProps) {
+  const [rangeDays, setRangeDays] = useState(7);
+  const today = recentDays(Date.now(), 1)[0];
+  const days = useMemo(() => recentDays(Date.now(), rangeDays), [today, rangeDays]);
+  const columns = days.slice(-dailyColumns);
+  const summary = useMemo(() => summarizeLog(log, days), [log, days]);
+  const events = log.events.slice(-visibleEvents).reverse();
+
+  const totals = summary.reduce(
+    (sum, row) => ({
+      switches: sum.switches + row.switches,
+      falsePositives: sum.falsePositives + row.falsePositives
+    }),
+    { switches: 0, falsePositives: 0 }
+  );
+
+  return (
+    <details className="talk-log">
+      <summary>Talk Killer log</summary>
+      <div className="talk-log-toolbar">
+        <select
+          value={rangeDays}
+          onChange={(event) => setRangeDays(Number(event.target.value))}
+          aria-label="Summary range"
+        >
+          {rangeOptions.map((option) => (
+            <option key={option} value={option}>
+              Last {option} days
+            </option>
+          ))}
+        </select>
+        <span className="subtle">
+          {totals.switches} switches
+          {totals.switches > 0 &&
+            `, ${Math.round((totals.falsePositives / totals.switches) * 100)}% marked as music`}
+        </span>
+        <button
+          type="button"
+          className="ghost"
+          disabled={log.events.length === 0}
+          onClick={() =>
+            downloadText(
+              'raven-radio-talk-killer-log.json',
+              talkKillerLogToJson(log),
+              'application/json'
+            )
+          }
+        >
+          JSON
+        </button>
+        <button
+          type="button"
+          className="ghost"
+          disabled={log.events.length === 0 && Object.keys(log.talk).length === 0}
+          onClick={onClear}
+        >
+          Clear
+        </button>
+      </div>
+
+      {summary.length === 0 ? (
+        <p className="empty">No talk detected in this range.</p>
+      ) : (
+        <div className="talk-log-tables">
+          <table>
+            <thead>
+              <tr>
+                <th>Station</th>
+                <th>Switches</th>
+                <th>Overridden</th>
+                <th>False positives</th>
+                <th>Talk min</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.map((row) => (
+                <tr key={row.key}>
+                  <td>{row.name}</td>
+                  <td>{row.switches}</td>
+                  <td>{row.overridden}</td>
+                  <td>
+                    {row.falsePositiveRate === null
+                      ? '–'
+                      : `${Math.round(row.falsePositiveRate * 100)}%`}
+                  </td>
+                  <td>{formatMinutes(row.talkMinutes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <table>
+            <caption>Talk minutes per day</caption>
+            <thead>
+              <tr>
+                <th>Station</th>
+                {columns.map((day) => (
+                  <th key={day}>{day.slice(5)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {summary.map((row) => (
+                <tr key={row.key}>
+                  <td>{row.name}</td>
+                  {columns.map((day) => {
+                    const seconds = log.talk[day]?.[row.key]?.seconds ?? 0;
+                    return <td key={day}>{seconds > 0 ? formatMinutes(seconds / 60) : ''}</td>;
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ul className="talk-log-events">
+        {events.length === 0 && <li className="empty">No automatic switches yet.</li>}
+        {events.map((event) => (
+          <li key={event.id}>
+            <span className="subtle">{formatWhen(event.at)}</span>
+            <span>
+              <strong>{event.fromName}</strong> → {event.toName}
+            </span>
+            <span className="subtle">
+              score {event.score.toFixed(2)} / {event.sensitivity.toFixed(2)},{' '}
+              {Math.round(event.speechSeconds)} s of speech
+            </span>
+            {event.overridden && <span className="talk-log-flag">Overridden</span>}
+            {event.feedback === 'music' ? (
+              <span className="talk-log-flag">Marked as music</span>
+            ) : (
+              <button type="button" className="ghost" onClick={() => onMusicFeedback(event)}>
+                That was music
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+export default TalkKillerLogPanel;
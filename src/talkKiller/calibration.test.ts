@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { calibrationBins, histogramPercentile, proposeSensitivity } from './calibration';
+
+/** A calibration histogram with the given counts at the given bin indexes. */
+const histogram = (counts: Record<number, number>) =>
+  Array.from({ length: calibrationBins }, (_, index) => counts[index] ?? 0);
+
+describe('histogramPercentile', () => {
+  it('returns the upper edge of the bin the percentile falls in', () => {
+    const scores = histogram({ 8: 50, 9: 30, 10: 15, 11: 5 });
+    expect(histogramPercentile(scores, 0.5)).toBe(0.45);
+    expect(histogramPercentile(scores, 0.95)).toBe(0.55);
+    expect(histogramPercentile(scores, 1)).toBe(0.6);
+  });
+
+  it('is zero for an empty histogram', () => {
+    expect(histogramPercentile(histogram({}), 0.95)).toBe(0);
+  });
+});
+
+describe('proposeSensitivity', () => {
+  it('splits right above the music mode when talk was heard too', () => {
+    const scores = histogram({ 7: 40, 8: 60, 9: 30, 16: 20, 17: 35, 18: 15 });
+    // The 95th-percentile path would land in the talk mode instead.
+    expect(histogramPercentile(scores, 0.95)).toBe(0.95);
+    expect(proposeSensitivity(scores)).toBe(0.5);
+  });
+
+  it('ignores a second mode too close to the first', () => {
+    expect(proposeSensitivity(histogram({ 7: 50, 10: 50 }))).toBe(0.6);
+  });
+
+  it('sits just above the 95th percentile of a music-only baseline', () => {
+    expect(proposeSensitivity(histogram({ 8: 50, 9: 30, 10: 15, 11: 5 }))).toBe(0.6);
+  });
+
+  it('stays within the usable range', () => {
+    expect(proposeSensitivity(histogram({ 0: 100 }))).toBe(0.3);
+    expect(proposeSensitivity(histogram({}))).toBe(0.3);
+    expect(proposeSensitivity(histogram({ 18: 60, 19: 40 }))).toBe(0.95);
+  });
+});
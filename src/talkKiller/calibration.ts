@@ -0,0 +1,69 @@
+export const calibrationBins = 20;
+
+const minSensitivity = 0.3;
+const maxSensitivity = 0.95;
+const margin = 0.05;
+
+const clampSensitivity = (value: number) =>
+  Math.round(Math.min(maxSensitivity, Math.max(minSensitivity, value)) * 100) / 100;
+
+const binCentre = (index: number, bins: number) => (index + 0.5) / bins;
+
+export const histogramPercentile = (histogram: number[], percentile: number) => {
+  const total = histogram.reduce((acc, count) => acc + count, 0);
+  if (total === 0) {
+    return 0;
+  }
+  let seen = 0;
+  for (let index = 0; index < histogram.length; index += 1) {
+    seen += histogram[index];
+    if (seen / total >= percentile) {
+      return (index + 1) / histogram.length;
+    }
+  }
+  return 1;
+};
+
+/** Otsu split of the score histogram; returns null unless both classes are well separated. */
+const bimodalThreshold = (histogram: number[]) => {
+  const bins = histogram.length;
+  const total = histogram.reduce((acc, count) => acc + count, 0);
+  const weightedTotal = histogram.reduce(
+    (acc, count, index) => acc + count * binCentre(index, bins),
+    0
+  );
+  let lowCount = 0;
+  let lowSum = 0;
+  let best: { threshold: number; variance: number; gap: number } | null = null;
+  for (let index = 0; index < bins - 1; index += 1) {
+    lowCount += histogram[index];
+    lowSum += histogram[index] * binCentre(index, bins);
+    const highCount = total - lowCount;
+    if (lowCount === 0 || highCount === 0) {
+      continue;
+    }
+    const lowMean = lowSum / lowCount;
+    const highMean = (weightedTotal - lowSum) / highCount;
+    const variance = lowCount * highCount * (lowMean - highMean) ** 2;
+    if (!best || variance > best.variance) {
+      best = { threshold: (index + 1) / bins, variance, gap: highMean - lowMean };
+    }
+  }
+  if (!best || best.gap < 0.3) {
+    return null;
+  }
+  return best.threshold;
+};
+
+/**
+ * Proposes a sensitivity from recorded speech confidences. A bimodal
+ * distribution (talk was heard) splits between the two modes; otherwise the
+ * threshold sits just above the 95th percentile of the station's music baseline.
+ */
+export const proposeSensitivity = (histogram: number[]) => {
+  const split = bimodalThreshold(histogram);
+  if (split !== null) {
+    return clampSensitivity(split);
+  }
+  return clampSensitivity(histogramPercentile(histogram, 0.95) + margin);
+};
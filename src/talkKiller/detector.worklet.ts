@@ -0,0 +1,208 @@
+import { calibrationBins } from './calibration';
+import { magnitudeSpectrum } from './fft';
+import { createSpeechClassifier } from './speechClassifier';
+import {
+  defaultDetectorConfig,
+  detectorProcessorName,
+  type DetectorCommand,
+  type DetectorConfig,
+  type DetectorEvent,
+  type SpeechLabel
+} from './detectorMessages';
+
+declare const sampleRate: number;
+
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+declare function registerProcessor(
+  name: string,
+  processorCtor: new () => AudioWorkletProcessor
+): void;
+
+const fftSize = 2048;
+const hopSeconds = 0.05;
+const metricsSeconds = 0.25;
+const silenceRms = 1e-4;
+
+const isSilent = (samples: Float32Array) => {
+  let sum = 0;
+  for (let index = 0; index < samples.length; index += 1) {
+    sum += samples[index] * samples[index];
+  }
+  return Math.sqrt(sum / samples.length) < silenceRms;
+};
+
+class TalkKillerDetector extends AudioWorkletProcessor {
+  private config: DetectorConfig = { ...defaultDetectorConfig };
+  private classifier = createSpeechClassifier();
+  private ring = new Float32Array(fftSize);
+  private writeIndex = 0;
+  private processedSamples = 0;
+  private samplesSinceHop = 0;
+  private hopSamples = Math.round(sampleRate * hopSeconds);
+  private speechSeconds = 0;
+  private musicSeconds = 0;
+  private settled = false;
+  private cooldownRemaining = 0;
+  private secondsSinceMetrics = 0;
+  private label: SpeechLabel = 'music';
+  private disposed = false;
+  private calibration: { histogram: number[]; seconds: number; remaining: number } | null = null;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<DetectorCommand>) => {
+      const command = event.data;
+      if (command.type === 'configure') {
+        this.config = { ...this.config, ...command.config };
+      } else if (command.type === 'reset') {
+        this.reset();
+      } else if (command.type === 'dispose') {
+        this.disposed = true;
+      } else if (command.type === 'calibrate') {
+        this.calibration =
+          command.seconds > 0
+            ? {
+                histogram: new Array<number>(calibrationBins).fill(0),
+                seconds: command.seconds,
+                remaining: command.seconds
+              }
+            : null;
+      }
+    };
+  }
+
+  private post(message: DetectorEvent) {
+    this.port.postMessage(message);
+  }
+
+  private reset() {
+    this.classifier.reset();
+    this.ring.fill(0);
+    this.samplesSinceHop = 0;
+    this.speechSeconds = 0;
+    this.musicSeconds = 0;
+    this.settled = false;
+    this.calibration = null;
+    this.updateLabel('music', 0);
+  }
+
+  private updateLabel(label: SpeechLabel, confidence: number) {
+    if (label === this.label) {
+      return;
+    }
+    this.label = label;
+    this.post({ type: 'state', label, confidence });
+  }
+
+  private recordCalibration(confidence: number, elapsed: number) {
+    const calibration = this.calibration;
+    if (!calibration) {
+      return;
+    }
+    const bin = Math.min(calibrationBins - 1, Math.floor(confidence * calibrationBins));
+    calibration.histogram[bin] += 1;
+    calibration.remaining -= elapsed;
+    if (calibration.remaining <= 0) {
+      this.calibration = null;
+      this.post({
+        type: 'calibration',
+        histogram: calibration.histogram,
+        seconds: calibration.seconds
+      });
+    }
+  }
+
+  private trackMusic(isSpeech: boolean, audible: boolean, elapsed: number) {
+    if (isSpeech) {
+      this.musicSeconds = 0;
+      this.settled = false;
+      return;
+    }
+    if (!audible) {
+      return;
+    }
+    this.musicSeconds += elapsed;
+    const hold = this.config.musicHoldSeconds;
+    if (hold > 0 && !this.settled && this.musicSeconds >= hold) {
+      this.settled = true;
+      this.post({ type: 'settled', musicSeconds: this.musicSeconds });
+    }
+  }
+
+  private analyse(elapsed: number) {
+    const samples = new Float32Array(fftSize);
+    samples.set(this.ring.subarray(this.writeIndex));
+    samples.set(this.ring.subarray(0, this.writeIndex), fftSize - this.writeIndex);
+
+    const result = this.classifier.push({
+      time: this.processedSamples / sampleRate,
+      sampleRate,
+      spectrum: magnitudeSpectrum(samples),
+      samples
+    });
+    const isSpeech = result.ready && result.confidence >= this.config.sensitivity;
+
+    this.speechSeconds = isSpeech ? this.speechSeconds + elapsed : 0;
+    this.trackMusic(isSpeech, result.ready && !isSilent(samples), elapsed);
+    this.cooldownRemaining = Math.max(0, this.cooldownRemaining - elapsed);
+    this.updateLabel(isSpeech ? 'speech' : 'music', result.confidence);
+
+    if (this.speechSeconds >= this.config.speechSeconds && this.cooldownRemaining <= 0) {
+      this.post({
+        type: 'trigger',
+        confidence: result.confidence,
+        speechSeconds: this.speechSeconds
+      });
+      this.cooldownRemaining = this.config.cooldownSeconds;
+      this.speechSeconds = 0;
+    }
+
+    if (result.ready) {
+      this.recordCalibration(result.confidence, elapsed);
+    }
+
+    this.secondsSinceMetrics += elapsed;
+    if (this.config.reportMetrics && this.secondsSinceMetrics >= metricsSeconds) {
+      this.secondsSinceMetrics = 0;
+      this.post({
+        type: 'metrics',
+        confidence: result.confidence,
+        features: result.ready ? result.features : null,
+        speechSeconds: this.speechSeconds
+      });
+    }
+  }
+
+  process(inputs: Float32Array[][]) {
+    if (this.disposed) {
+      return false;
+    }
+    const channels = inputs[0];
+    if (!this.config.active || !channels || channels.length === 0) {
+      return true;
+    }
+    const frameLength = channels[0].length;
+    for (let index = 0; index < frameLength; index += 1) {
+      let sum = 0;
+      for (let channel = 0; channel < channels.length; channel += 1) {
+        sum += channels[channel][index];
+      }
+      this.ring[this.writeIndex] = sum / channels.length;
+      this.writeIndex = (this.writeIndex + 1) % fftSize;
+    }
+    this.processedSamples += frameLength;
+    this.samplesSinceHop += frameLength;
+
+    if (this.samplesSinceHop >= this.hopSamples) {
+      const elapsed = this.samplesSinceHop / sampleRate;
+      this.samplesSinceHop = 0;
+      this.analyse(elapsed);
+    }
+    return true;
+  }
+}
+
+registerProcessor(detectorProcessorName, TalkKillerDetector);
@@ -0,0 +1,43 @@
+import type { SpeechFeatures } from './speechClassifier';
+
+export const detectorProcessorName = 'talk-killer-detector';
+
+export type SpeechLabel = 'speech' | 'music';
+
+export type DetectorConfig = {
+  active: boolean;
+  sensitivity: number;
+  speechSeconds: number;
+  cooldownSeconds: number;
+  /** Continuous audible music needed before a `settled` event; 0 disables it. */
+  musicHoldSeconds: number;
+  /** Whether to stream debug metrics; off while the tab is hidden. */
+  reportMetrics: boolean;
+};
+
+export const defaultDetectorConfig: DetectorConfig = {
+  active: false,
+  sensitivity: 0.6,
+  speechSeconds: 6,
+  cooldownSeconds: 12,
+  musicHoldSeconds: 0,
+  reportMetrics: true
+};
+
+export type DetectorCommand =
+  | { type: 'configure'; config: Partial<DetectorConfig> }
+  | { type: 'reset' }
+  | { type: 'dispose' }
+  | { type: 'calibrate'; seconds: number };
+
+export type DetectorEvent =
+  | { type: 'state'; label: SpeechLabel; confidence: number }
+  | {
+      type: 'metrics';
+      confidence: number;
+      features: SpeechFeatures | null;
+      speechSeconds: number;
+    }
+  | { type: 'trigger'; confidence: number; speechSeconds: number }
+  | { type: 'calibration'; histogram: number[]; seconds: number }
+  | { type: 'settled'; musicSeconds: number };
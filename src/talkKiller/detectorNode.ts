@@ -0,0 +1,25 @@
+import detectorWorkletUrl from './detector.worklet.ts?worker&url';
+import { detectorProcessorName, type DetectorCommand } from './detectorMessages';
+
+const moduleLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const loadDetectorModule = (audioContext: BaseAudioContext) => {
+  let load = moduleLoads.get(audioContext);
+  if (!load) {
+    load = audioContext.audioWorklet.addModule(detectorWorkletUrl);
+    moduleLoads.set(audioContext, load);
+  }
+  return load;
+};
+
+export const createDetectorNode = async (audioContext: BaseAudioContext) => {
+  await loadDetectorModule(audioContext);
+  return new AudioWorkletNode(audioContext, detectorProcessorName, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0
+  });
+};
+
+export const sendDetectorCommand = (node: AudioWorkletNode | null, command: DetectorCommand) => {
+  node?.port.postMessage(command);
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { FallbackStation } from '../stations';
+import { rankFallbacks, selectFallback, type FallbackSelection } from './fallbackSelector';
+
+const minute = 60 * 1000;
+const now = 1_700_000_000_000;
+
+const fallback = (key: string, weight = 3, tags: string[] = []): FallbackStation => ({
+  key,
+  name: key.toUpperCase(),
+  url: `https://${key}.example.com/live.mp3`,
+  tags,
+  source: 'local',
+  weight
+});
+
+const selection = (overrides: Partial<FallbackSelection> = {}): FallbackSelection => ({
+  currentKey: 'b',
+  matchTags: false,
+  observations: {},
+  now,
+  ...overrides
+});
+
+const keys = (fallbacks: FallbackStation[], overrides?: Partial<FallbackSelection>) =>
+  rankFallbacks(fallbacks, selection(overrides)).map(({ station }) => station.key);
+
+describe('rankFallbacks', () => {
+  it('keeps rotation order after the current station on a tie', () => {
+    const stations = ['a', 'b', 'c', 'd'].map((key) => fallback(key));
+    expect(keys(stations)).toEqual(['c', 'd', 'a']);
+    expect(keys(stations, { currentKey: 'elsewhere' })).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('prefers higher weights', () => {
+    expect(keys([fallback('a', 2), fallback('b'), fallback('c', 1), fallback('d', 5)])).toEqual([
+      'd',
+      'a',
+      'c'
+    ]);
+  });
+
+  it('drops stations that failed within the cooldown', () => {
+    const stations = ['a', 'b', 'c', 'd'].map((key) => fallback(key));
+    const observations = {
+      c: { failedAt: now - 4 * minute },
+      d: { failedAt: now - 6 * minute }
+    };
+    expect(keys(stations, { observations })).toEqual(['d', 'a']);
+  });
+
+  it('remembers speech and music labels for fifteen minutes', () => {
+    const stations = ['a', 'b', 'c', 'd'].map((key) => fallback(key));
+    const fresh = {
+      c: { label: 'speech' as const, labelAt: now - 10 * minute },
+      a: { label: 'music' as const, labelAt: now - 10 * minute }
+    };
+    expect(rankFallbacks(stations, selection({ observations: fresh }))).toEqual([
+      { station: stations[0], score: 5 },
+      { station: stations[3], score: 3 },
+      { station: stations[2], score: 0 }
+    ]);
+
+    const stale = {
+      c: { label: 'speech' as const, labelAt: now - 16 * minute },
+      a: { label: 'music' as const, labelAt: now - 16 * minute }
+    };
+    expect(keys(stations, { observations: stale })).toEqual(['c', 'd', 'a']);
+  });
+
+  it('weights tag overlap by Jaccard similarity when matching tags', () => {
+    const stations = [
+      fallback('a', 3, ['jazz']),
+      fallback('b', 3, ['jazz', 'soul']),
+      fallback('c', 3, ['Jazz', 'soul', 'funk']),
+      fallback('d', 3, ['rock'])
+    ];
+    const options = { currentTags: ['jazz', 'soul'], matchTags: true };
+    expect(
+      rankFallbacks(stations, selection(options)).map(({ station, score }) => [station.key, score])
+    ).toEqual([
+      ['c', 3 + 3 * (2 / 3)],
+      ['a', 3 + 3 * (1 / 2)],
+      ['d', 3]
+    ]);
+    expect(keys(stations, { ...options, matchTags: false })).toEqual(['c', 'd', 'a']);
+  });
+});
+
+describe('selectFallback', () => {
+  it('returns null when every other station is cooling down', () => {
+    const stations = [fallback('a'), fallback('b')];
+    expect(selectFallback(stations, selection({ observations: { a: { failedAt: now } } }))).toBe(
+      null
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import type { FallbackStation } from '../stations';
+import type { SpeechLabel } from './detectorMessages';
+
+export type StationObservation = {
+  label?: SpeechLabel;
+  labelAt?: number;
+  failedAt?: number;
+};
+
+export type StationObservations = Record<string, StationObservation>;
+
+export type FallbackSelection = {
+  currentKey: string;
+  currentTags?: string[];
+  matchTags: boolean;
+  observations: StationObservations;
+  now: number;
+};
+
+export type RankedFallback = {
+  station: FallbackStation;
+  score: number;
+};
+
+const errorCooldownMs = 5 * 60 * 1000;
+const labelMemoryMs = 15 * 60 * 1000;
+
+const normalizeTags = (tags: string[] | undefined) =>
+  new Set((tags ?? []).map((tag) => tag.trim().toLowerCase()).filter(Boolean));
+
+const tagSimilarity = (left: string[] | undefined, right: string[] | undefined) => {
+  const a = normalizeTags(left);
+  const b = normalizeTags(right);
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const shared = Array.from(a).filter((tag) => b.has(tag)).length;
+  return shared / (a.size + b.size - shared);
+};
+
+const recentlyFailed = (observation: StationObservation | undefined, now: number) =>
+  observation?.failedAt !== undefined && now - observation.failedAt < errorCooldownMs;
+
+const labelScore = (observation: StationObservation | undefined, now: number) => {
+  if (!observation?.label || observation.labelAt === undefined) {
+    return 0;
+  }
+  if (now - observation.labelAt > labelMemoryMs) {
+    return 0;
+  }
+  return observation.label === 'music' ? 2 : -3;
+};
+
+/**
+ * Orders usable fallbacks from best to worst. Stations that errored recently
+ * are dropped; the rest are scored by weight, last known speech/music state
+ * and, optionally, tag overlap with the station being left. Ties keep the
+ * list's rotation order starting after the current station.
+ */
+export const rankFallbacks = (
+  fallbacks: FallbackStation[],
+  { currentKey, currentTags, matchTags, observations, now }: FallbackSelection
+): RankedFallback[] => {
+  const currentIndex = fallbacks.findIndex((station) => station.key === currentKey);
+  const rotated =
+    currentIndex === -1
+      ? fallbacks
+      : [...fallbacks.slice(currentIndex + 1), ...fallbacks.slice(0, currentIndex)];
+
+  return rotated
+    .filter((station) => station.key !== currentKey)
+    .filter((station) => !recentlyFailed(observations[station.key], now))
+    .map((station) => ({
+      station,
+      score:
+        station.weight +
+        labelScore(observations[station.key], now) +
+        (matchTags ? 3 * tagSimilarity(currentTags, station.tags) : 0)
+    }))
+    .map((entry, order) => ({ entry, order }))
+    .sort((a, b) => b.entry.score - a.entry.score || a.order - b.order)
+    .map(({ entry }) => entry);
+};
+
+export const selectFallback = (fallbacks: FallbackStation[], selection: FallbackSelection) =>
+  rankFallbacks(fallbacks, selection)[0]?.station ?? null;
@@ -0,0 +1,67 @@
+const hannWindows = new Map<number, Float32Array>();
+
+const hannWindow = (size: number) => {
+  let window = hannWindows.get(size);
+  if (!window) {
+    window = new Float32Array(size);
+    for (let index = 0; index < size; index += 1) {
+      window[index] = 0.5 * (1 - Math.cos((2 * Math.PI * index) / (size - 1)));
+    }
+    hannWindows.set(size, window);
+  }
+  return window;
+};
+
+/** Hann-windowed magnitude spectrum (DC up to Nyquist) of a power-of-two length block. */
+export const magnitudeSpectrum = (samples: Float32Array) => {
+  const size = samples.length;
+  if (size < 2 || (size & (size - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${size}`);
+  }
+  const window = hannWindow(size);
+  const real = new Float32Array(size);
+  const imaginary = new Float32Array(size);
+  for (let index = 0; index < size; index += 1) {
+    real[index] = samples[index] * window[index];
+  }
+
+  for (let index = 1, swap = 0; index < size; index += 1) {
+    let bit = size >> 1;
+    for (; swap & bit; bit >>= 1) {
+      swap ^= bit;
+    }
+    swap ^= bit;
+    if (index < swap) {
+      [real[index], real[swap]] = [real[swap], real[index]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepReal = Math.cos(angle);
+    const stepImaginary = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let twiddleReal = 1;
+      let twiddleImaginary = 0;
+      for (let offset = 0; offset < length / 2; offset += 1) {
+        const even = start + offset;
+        const odd = even + length / 2;
+        const oddReal = real[odd] * twiddleReal - imaginary[odd] * twiddleImaginary;
+        const oddImaginary = real[odd] * twiddleImaginary + imaginary[odd] * twiddleReal;
+        real[odd] = real[even] - oddReal;
+        imaginary[odd] = imaginary[even] - oddImaginary;
+        real[even] += oddReal;
+        imaginary[even] += oddImaginary;
+        const nextReal = twiddleReal * stepReal - twiddleImaginary * stepImaginary;
+        twiddleImaginary = twiddleReal * stepImaginary + twiddleImaginary * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+
+  const magnitudes = new Float32Array(size / 2);
+  for (let index = 0; index < magnitudes.length; index += 1) {
+    magnitudes[index] = Math.hypot(real[index], imaginary[index]) / size;
+  }
+  return magnitudes;
+};
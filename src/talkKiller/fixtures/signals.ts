@@ -0,0 +1,193 @@
+/**
+ * Seeded PCM fixtures for the speech classifier: mono Float32 samples in the
+ * -1..1 range, built from the acoustic traits the classifier keys on, so the
+ * tests are reproducible without shipping audio files.
+ *
+ * - speech: formant-shaped voiced syllables at ~4 per second, fricative
+ *   onsets, gliding pitch and pauses between phrases.
+ * - music: a chord pad with a bass line and a kick drum on every beat (120 BPM).
+ * - song: the music with a sustained, sung vowel melody on top.
+ * - talkOverBed: the speech with the music ducked about 12 dB underneath, as
+ *   in a DJ link.
+ */
+
+export const fixtureSampleRate = 44100;
+
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const vowels: [number, number][] = [
+  [730, 1090],
+  [270, 2290],
+  [530, 1840],
+  [570, 840],
+  [440, 1020]
+];
+
+/** Harmonic amplitudes of a voiced sound with formants at `f1` and `f2`. */
+const formantWeights = (f0: number, [f1, f2]: [number, number], sampleRate: number) => {
+  const weights: number[] = [];
+  for (let harmonic = 1; harmonic * f0 < Math.min(4500, sampleRate / 2); harmonic += 1) {
+    const frequency = harmonic * f0;
+    weights.push(
+      (Math.exp(-(((frequency - f1) / 140) ** 2)) +
+        0.6 * Math.exp(-(((frequency - f2) / 200) ** 2)) +
+        0.04) /
+        Math.sqrt(harmonic)
+    );
+  }
+  return weights;
+};
+
+const normalise = (samples: Float32Array, peak: number) => {
+  const max = samples.reduce((acc, value) => Math.max(acc, Math.abs(value)), 0);
+  if (max > 0) {
+    for (let index = 0; index < samples.length; index += 1) {
+      samples[index] = (samples[index] / max) * peak;
+    }
+  }
+  return samples;
+};
+
+export const speech = (seconds: number, sampleRate = fixtureSampleRate, seed = 12) => {
+  const random = createRandom(seed);
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  let time = 0.1;
+  let syllable = 0;
+  while (time < seconds) {
+    const length = 0.12 + random() * 0.1;
+    const vowel = vowels[Math.floor(random() * vowels.length)];
+    const basePitch = 105 + random() * 40;
+    const start = Math.round(time * sampleRate);
+    const count = Math.round(length * sampleRate);
+
+    if (random() < 0.5) {
+      // Fricative onset: high-passed noise just before the vowel.
+      const noiseCount = Math.round((0.03 + random() * 0.04) * sampleRate);
+      let previous = 0;
+      for (let index = 0; index < noiseCount; index += 1) {
+        const target = start - noiseCount + index;
+        const noise = random() * 2 - 1;
+        if (target >= 0 && target < samples.length) {
+          samples[target] += 0.25 * (noise - previous);
+        }
+        previous = noise;
+      }
+    }
+
+    let phase = 0;
+    for (let index = 0; index < count && start + index < samples.length; index += 1) {
+      const progress = index / count;
+      const pitch = basePitch * (1 + 0.15 * Math.sin(Math.PI * progress) - 0.1 * progress);
+      const weights = formantWeights(pitch, vowel, sampleRate);
+      phase += (2 * Math.PI * pitch) / sampleRate;
+      const envelope = Math.sin(Math.PI * progress) ** 2;
+      let value = 0;
+      weights.forEach((weight, harmonic) => {
+        value += weight * Math.sin((harmonic + 1) * phase);
+      });
+      samples[start + index] += envelope * value;
+    }
+
+    syllable += 1;
+    time += length + 0.04 + random() * 0.08;
+    if (syllable % (6 + Math.floor(random() * 4)) === 0) {
+      time += 0.3 + random() * 0.3;
+    }
+  }
+  return normalise(samples, 0.8);
+};
+
+const noteFrequency = (midi: number) => 440 * 2 ** ((midi - 69) / 12);
+
+const chords = [
+  [57, 60, 64],
+  [53, 57, 60],
+  [48, 52, 55],
+  [55, 59, 62]
+];
+
+export const music = (seconds: number, sampleRate = fixtureSampleRate, seed = 2) => {
+  const random = createRandom(seed);
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  const beatSeconds = 0.5;
+  for (let index = 0; index < samples.length; index += 1) {
+    const time = index / sampleRate;
+    const chord = chords[Math.floor(time / 2) % chords.length];
+    let value = 0;
+    chord.forEach((note) => {
+      const frequency = noteFrequency(note);
+      for (let harmonic = 1; harmonic <= 6; harmonic += 1) {
+        value += (0.12 / harmonic) * Math.sin(2 * Math.PI * frequency * harmonic * time);
+      }
+    });
+
+    const beatTime = time % beatSeconds;
+    const bass = noteFrequency(chord[0] - 24);
+    value += 0.5 * Math.exp(-beatTime * 4) * Math.sin(2 * Math.PI * bass * time);
+    // Kick: a decaying sine sweeping down from 120 Hz.
+    const kickFrequency = 50 + 70 * Math.exp(-beatTime * 30);
+    value += 1.2 * Math.exp(-beatTime * 18) * Math.sin(2 * Math.PI * kickFrequency * beatTime);
+    // Hi-hat on the off-beat.
+    const offBeat = (time + beatSeconds / 2) % beatSeconds;
+    value += 0.05 * Math.exp(-offBeat * 80) * (random() * 2 - 1);
+
+    samples[index] = value;
+  }
+  return normalise(samples, 0.8);
+};
+
+const melody = [69, 72, 74, 72, 69, 67, 64, 67];
+
+/** A sung line: one held vowel per beat, following the chord changes. */
+const vocalLine = (seconds: number, sampleRate: number) => {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  let phase = 0;
+  for (let index = 0; index < samples.length; index += 1) {
+    const time = index / sampleRate;
+    const beat = Math.floor(time / 0.5);
+    const pitch =
+      noteFrequency(melody[beat % melody.length] - 12) *
+      (1 + 0.006 * Math.sin(2 * Math.PI * 5.5 * time));
+    phase += (2 * Math.PI * pitch) / sampleRate;
+    const weights = formantWeights(pitch, vowels[beat % vowels.length], sampleRate);
+    let value = 0;
+    weights.forEach((weight, harmonic) => {
+      value += weight * Math.sin((harmonic + 1) * phase);
+    });
+    const withinBeat = (time % 0.5) / 0.5;
+    samples[index] = value * Math.min(1, withinBeat * 10, (1 - withinBeat) * 10);
+  }
+  return normalise(samples, 1);
+};
+
+const mix = (parts: [Float32Array, number][]) => {
+  const length = Math.min(...parts.map(([samples]) => samples.length));
+  const mixed = new Float32Array(length);
+  parts.forEach(([samples, gain]) => {
+    for (let index = 0; index < length; index += 1) {
+      mixed[index] += samples[index] * gain;
+    }
+  });
+  return normalise(mixed, 0.8);
+};
+
+export const song = (seconds: number, sampleRate = fixtureSampleRate) =>
+  mix([
+    [music(seconds, sampleRate, 5), 1],
+    [vocalLine(seconds, sampleRate), 0.5]
+  ]);
+
+export const talkOverBed = (seconds: number, sampleRate = fixtureSampleRate) =>
+  mix([
+    [speech(seconds, sampleRate), 1],
+    [music(seconds, sampleRate, 9), 0.25]
+  ]);
@@ -0,0 +1,93 @@
+import { attachStream } from '../audio/streamSource';
+import type { DetectorEvent } from './detectorMessages';
+import { createDetectorNode, sendDetectorCommand } from './detectorNode';
+
+export type HomeMonitorOptions = {
+  audioContext: AudioContext;
+  url: string;
+  sensitivity: number;
+  musicSeconds: number;
+  onMusicResumed: () => void;
+  onError: (message: string) => void;
+};
+
+export type HomeMonitor = {
+  stop: () => void;
+};
+
+/**
+ * Plays the home station on a second, analysis-only audio element. Its source
+ * feeds a dedicated detector and is never connected to the speakers.
+ */
+export const startHomeMonitor = ({
+  audioContext,
+  url,
+  sensitivity,
+  musicSeconds,
+  onMusicResumed,
+  onError
+}: HomeMonitorOptions): HomeMonitor => {
+  const audio = new Audio();
+  let stopped = false;
+  let source: MediaElementAudioSourceNode | null = null;
+  let node: AudioWorkletNode | null = null;
+
+  const fail = (message: string) => {
+    if (!stopped) {
+      onError(message);
+    }
+  };
+
+  const detach = attachStream(audio, url, fail);
+
+  createDetectorNode(audioContext)
+    .then((created) => {
+      if (stopped) {
+        return;
+      }
+      node = created;
+      source = audioContext.createMediaElementSource(audio);
+      source.connect(node);
+      node.port.onmessage = (event: MessageEvent<DetectorEvent>) => {
+        if (!stopped && event.data.type === 'settled') {
+          onMusicResumed();
+        }
+      };
+      sendDetectorCommand(node, {
+        type: 'configure',
+        config: {
+          active: true,
+          sensitivity,
+          musicHoldSeconds: musicSeconds,
+          reportMetrics: false
+        }
+      });
+      return audio.play();
+    })
+    .catch((err) => {
+      console.warn('[Talk Killer] Unable to monitor home station.', err);
+      fail('Unable to monitor the home station in the background.');
+    });
+
+  audio.addEventListener('error', () => {
+    fail('The home station stream failed while being monitored.');
+  });
+
+  const stop = () => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+    audio.pause();
+    detach();
+    audio.removeAttribute('src');
+    audio.load();
+    source?.disconnect();
+    if (node) {
+      node.port.onmessage = null;
+      sendDetectorCommand(node, { type: 'dispose' });
+    }
+  };
+
+  return { stop };
+};
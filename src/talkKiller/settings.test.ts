@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSettings, migrateTalkKillerSettings, talkKillerSettingsVersion } from './settings';
+
+describe('migrateTalkKillerSettings', () => {
+  it('resets an energy-ratio sensitivity from unversioned settings', () => {
+    expect(
+      migrateTalkKillerSettings({ enabled: false, speechSeconds: 9, sensitivity: 0.35 })
+    ).toEqual({
+      ...defaultSettings,
+      enabled: false,
+      speechSeconds: 9,
+      version: talkKillerSettingsVersion
+    });
+  });
+
+  it('keeps a confidence sensitivity from current settings', () => {
+    const current = { ...defaultSettings, sensitivity: 0.72 };
+    expect(migrateTalkKillerSettings(current)).toEqual(current);
+  });
+
+  it('falls back to the defaults for anything else', () => {
+    expect(migrateTalkKillerSettings(null)).toEqual(defaultSettings);
+    expect(migrateTalkKillerSettings([0.4])).toEqual(defaultSettings);
+  });
+});
@@ -0,0 +1,74 @@
+export type TalkKillerSettings = {
+  /** See `talkKillerSettingsVersion`. */
+  version: number;
+  enabled: boolean;
+  speechSeconds: number;
+  sensitivity: number;
+  cooldownSeconds: number;
+  /** Monitor the original station after a switch and go back once it plays music. */
+  returnHome: boolean;
+  returnAfterMusicSeconds: number;
+  /** Prefer fallbacks that share tags with the station being left. */
+  matchFallbackTags: boolean;
+};
+
+export type TalkKillerTuning = Pick<
+  TalkKillerSettings,
+  'speechSeconds' | 'sensitivity' | 'cooldownSeconds'
+>;
+
+export type CalibrationResult = {
+  histogram: number[];
+  proposedSensitivity: number;
+  recordedAt: number;
+};
+
+export type TalkKillerProfile = {
+  name: string;
+  overrides: Partial<TalkKillerTuning>;
+  calibration?: CalibrationResult;
+};
+
+export type TalkKillerProfiles = Record<string, TalkKillerProfile>;
+
+/**
+ * 1 (unversioned): `sensitivity` was a threshold on the mid-band share of the
+ * spectrum energy. 2: it is a threshold on the speech classifier confidence.
+ */
+export const talkKillerSettingsVersion = 2;
+
+export const defaultSettings: TalkKillerSettings = {
+  version: talkKillerSettingsVersion,
+  enabled: true,
+  speechSeconds: 6,
+  sensitivity: 0.6,
+  cooldownSeconds: 12,
+  returnHome: false,
+  returnAfterMusicSeconds: 30,
+  matchFallbackTags: false
+};
+
+export const resolveTalkKillerSettings = (
+  settings: TalkKillerSettings,
+  profile: TalkKillerProfile | undefined
+): TalkKillerSettings => {
+  return { ...defaultSettings, ...settings, ...profile?.overrides };
+};
+
+/**
+ * Brings stored settings up to date. An energy ratio says nothing about the
+ * classifier confidence, so a version 1 `sensitivity` goes back to the default.
+ */
+export const migrateTalkKillerSettings = (value: unknown): TalkKillerSettings => {
+  const stored =
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Partial<TalkKillerSettings>)
+      : {};
+  const version = typeof stored.version === 'number' ? stored.version : 1;
+  return {
+    ...defaultSettings,
+    ...stored,
+    ...(version < 2 && { sensitivity: defaultSettings.sensitivity }),
+    version: talkKillerSettingsVersion
+  };
+};
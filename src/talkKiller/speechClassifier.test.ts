@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { magnitudeSpectrum } from './fft';
+import { fixtureSampleRate, music, song, speech, talkOverBed } from './fixtures/signals';
+import { defaultSettings } from './settings';
+import { createSpeechClassifier, type SpeechClassification } from './speechClassifier';
+
+// The detector worklet's framing.
+const fftSize = 2048;
+const hopSeconds = 0.05;
+
+/** Runs PCM through the classifier the way the worklet does; returns one result per hop. */
+const classify = (samples: Float32Array, sampleRate = fixtureSampleRate) => {
+  const classifier = createSpeechClassifier();
+  const hop = Math.round(sampleRate * hopSeconds);
+  const results: (SpeechClassification & { time: number })[] = [];
+  for (let end = fftSize; end <= samples.length; end += hop) {
+    const frame = samples.slice(end - fftSize, end);
+    const time = end / sampleRate;
+    const result = classifier.push({
+      time,
+      sampleRate,
+      spectrum: magnitudeSpectrum(frame),
+      samples: frame
+    });
+    results.push({ ...result, time });
+  }
+  return results;
+};
+
+/** Results once the 3 s window is full, labelled with the default sensitivity. */
+const settled = (samples: Float32Array) => {
+  const results = classify(samples).filter((result) => result.ready && result.time >= 4);
+  const speechShare =
+    results.filter((result) => result.confidence >= defaultSettings.sensitivity).length /
+    results.length;
+  const meanConfidence =
+    results.reduce((acc, result) => acc + result.confidence, 0) / results.length;
+  return { results, speechShare, meanConfidence };
+};
+
+describe('createSpeechClassifier', () => {
+  it('labels speech as speech', () => {
+    const { speechShare, meanConfidence } = settled(speech(10));
+    expect(meanConfidence).toBeGreaterThanOrEqual(defaultSettings.sensitivity);
+    expect(speechShare).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('labels music with a beat as music', () => {
+    const { speechShare, meanConfidence } = settled(music(10));
+    expect(speechShare).toBe(0);
+    expect(meanConfidence).toBeLessThan(0.2);
+  });
+
+  it('labels a song with vocals as music', () => {
+    const { speechShare, meanConfidence } = settled(song(10));
+    expect(speechShare).toBe(0);
+    expect(meanConfidence).toBeLessThan(0.2);
+  });
+
+  it('labels a presenter talking over a music bed as speech', () => {
+    const { results, speechShare, meanConfidence } = settled(talkOverBed(10));
+    expect(meanConfidence).toBeGreaterThanOrEqual(defaultSettings.sensitivity);
+    expect(speechShare).toBeGreaterThanOrEqual(0.6);
+    // The bed's beat still registers; the syllables on top of it outweigh it.
+    const features = results[results.length - 1].features;
+    expect(features.lowFrequencyRhythm).toBeGreaterThan(0);
+    expect(features.voiceOverBed).toBeGreaterThan(0.3);
+  });
+
+  it('tells the two apart by syllabic modulation and low-end rhythm', () => {
+    const last = (samples: Float32Array) => {
+      const { results } = settled(samples);
+      return results[results.length - 1].features;
+    };
+    const speechFeatures = last(speech(10));
+    const musicFeatures = last(music(10));
+    expect(speechFeatures.syllabicModulation).toBeGreaterThan(musicFeatures.syllabicModulation);
+    expect(musicFeatures.lowFrequencyRhythm).toBeGreaterThan(speechFeatures.lowFrequencyRhythm);
+  });
+
+  it('is not ready until the window holds enough frames', () => {
+    const results = classify(speech(2));
+    expect(results.slice(0, 19).every((result) => !result.ready)).toBe(true);
+    expect(results[results.length - 1].ready).toBe(true);
+  });
+
+  it('starts over when the clock goes backwards', () => {
+    const classifier = createSpeechClassifier({ minFrames: 2 });
+    const samples = speech(1).slice(0, fftSize);
+    const frame = (time: number) => ({
+      time,
+      sampleRate: fixtureSampleRate,
+      spectrum: magnitudeSpectrum(samples),
+      samples
+    });
+    classifier.push(frame(1));
+    expect(classifier.push(frame(1.05)).ready).toBe(true);
+    expect(classifier.push(frame(0)).ready).toBe(false);
+  });
+});
@@ -0,0 +1,334 @@
+export type AnalysisFrame = {
+  /** Seconds on the audio clock when the frame was captured. */
+  time: number;
+  sampleRate: number;
+  /** Linear magnitudes from DC up to Nyquist. */
+  spectrum: Float32Array;
+  /** Time-domain samples in the -1..1 range. */
+  samples: Float32Array;
+};
+
+export type SpeechFeatures = {
+  spectralFlux: number;
+  zeroCrossingRate: number;
+  syllabicModulation: number;
+  spectralFlatness: number;
+  lowFrequencyRhythm: number;
+  voiceOverBed: number;
+};
+
+export type SpeechClassification = {
+  /** 0..1 likelihood that the window is speech rather than music. */
+  confidence: number;
+  /** Per-feature evidence in the 0..1 range (higher = more speech-like, except rhythm). */
+  features: SpeechFeatures;
+  ready: boolean;
+};
+
+export type SpeechClassifierOptions = {
+  windowSeconds: number;
+  minFrames: number;
+};
+
+export type SpeechClassifier = {
+  push: (frame: AnalysisFrame) => SpeechClassification;
+  reset: () => void;
+};
+
+type FrameStats = {
+  time: number;
+  flux: number;
+  zcr: number;
+  flatness: number;
+  speechEnergy: number;
+  lowRatio: number;
+};
+
+export const speechFeatureLabels: Record<keyof SpeechFeatures, string> = {
+  spectralFlux: 'Spectral flux',
+  zeroCrossingRate: 'Zero crossings',
+  syllabicModulation: '4 Hz modulation',
+  spectralFlatness: 'Flatness',
+  lowFrequencyRhythm: 'Low-end rhythm',
+  voiceOverBed: 'Voice over bed'
+};
+
+const defaultOptions: SpeechClassifierOptions = {
+  windowSeconds: 3,
+  minFrames: 20
+};
+
+// Rhythm is evidence for music, so it pulls the confidence down. Syllables riding on a
+// bed win it back: sung lines and instrumentals do not modulate at 3-5 Hz like talk.
+const featureWeights: SpeechFeatures = {
+  spectralFlux: 1.5,
+  zeroCrossingRate: 1.5,
+  syllabicModulation: 2.5,
+  spectralFlatness: 1,
+  lowFrequencyRhythm: -3,
+  voiceOverBed: 3
+};
+
+const bias = -2.5;
+
+const syllabicFrequencies = [3, 4, 5];
+
+const emptyFeatures: SpeechFeatures = {
+  spectralFlux: 0,
+  zeroCrossingRate: 0,
+  syllabicModulation: 0,
+  spectralFlatness: 0,
+  lowFrequencyRhythm: 0,
+  voiceOverBed: 0
+};
+
+const epsilon = 1e-12;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const scale = (value: number, low: number, high: number) => clamp01((value - low) / (high - low));
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((acc, value) => acc + value, 0) / values.length;
+
+const standardDeviation = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - avg) ** 2)));
+};
+
+const binIndex = (frequency: number, sampleRate: number, binCount: number) => {
+  const nyquist = sampleRate / 2;
+  return Math.min(binCount - 1, Math.max(0, Math.round((frequency / nyquist) * binCount)));
+};
+
+const bandEnergy = (spectrum: Float32Array, start: number, end: number) => {
+  let energy = 0;
+  for (let index = start; index <= end; index += 1) {
+    energy += spectrum[index] * spectrum[index];
+  }
+  return energy;
+};
+
+export const zeroCrossingRate = (samples: Float32Array) => {
+  if (samples.length < 2) {
+    return 0;
+  }
+  let crossings = 0;
+  for (let index = 1; index < samples.length; index += 1) {
+    if (samples[index - 1] >= 0 !== samples[index] >= 0) {
+      crossings += 1;
+    }
+  }
+  return crossings / (samples.length - 1);
+};
+
+export const spectralFlatness = (spectrum: Float32Array, start: number, end: number) => {
+  let logSum = 0;
+  let sum = 0;
+  const count = end - start + 1;
+  if (count <= 0) {
+    return 0;
+  }
+  for (let index = start; index <= end; index += 1) {
+    const power = spectrum[index] * spectrum[index] + epsilon;
+    logSum += Math.log(power);
+    sum += power;
+  }
+  return Math.exp(logSum / count) / (sum / count);
+};
+
+/** Share of the envelope variance that sits at the given modulation frequencies. */
+export const modulationRatio = (times: number[], values: number[], frequencies: number[]) => {
+  const count = values.length;
+  if (count < 4) {
+    return 0;
+  }
+  const avg = mean(values);
+  const centred = values.map((value) => value - avg);
+  const variance = mean(centred.map((value) => value * value));
+  if (variance <= epsilon) {
+    return 0;
+  }
+  const energy = frequencies.reduce((acc, frequency) => {
+    let real = 0;
+    let imaginary = 0;
+    centred.forEach((value, index) => {
+      const phase = 2 * Math.PI * frequency * times[index];
+      real += value * Math.cos(phase);
+      imaginary -= value * Math.sin(phase);
+    });
+    return acc + (2 * (real * real + imaginary * imaginary)) / (count * count);
+  }, 0);
+  return energy / variance;
+};
+
+/** Strongest normalised autocorrelation for beat periods between 0.3 s and 1 s. */
+const beatPeriodicity = (times: number[], values: number[]) => {
+  const count = values.length;
+  if (count < 8) {
+    return 0;
+  }
+  const frameSeconds = (times[count - 1] - times[0]) / (count - 1);
+  if (frameSeconds <= 0) {
+    return 0;
+  }
+  const avg = mean(values);
+  const centred = values.map((value) => value - avg);
+  const energy = centred.reduce((acc, value) => acc + value * value, 0);
+  if (energy <= epsilon) {
+    return 0;
+  }
+  const minLag = Math.max(1, Math.round(0.3 / frameSeconds));
+  const maxLag = Math.min(count - 2, Math.round(1 / frameSeconds));
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag += 1) {
+    let sum = 0;
+    for (let index = lag; index < count; index += 1) {
+      sum += centred[index] * centred[index - lag];
+    }
+    best = Math.max(best, sum / energy);
+  }
+  return best;
+};
+
+export function createSpeechClassifier(
+  options: Partial<SpeechClassifierOptions> = {}
+): SpeechClassifier {
+  const { windowSeconds, minFrames } = { ...defaultOptions, ...options };
+  let history: FrameStats[] = [];
+  let previousSpectrum: Float32Array | null = null;
+
+  const reset = () => {
+    history = [];
+    previousSpectrum = null;
+  };
+
+  const measureFrame = (frame: AnalysisFrame): FrameStats => {
+    const { spectrum, sampleRate } = frame;
+    const binCount = spectrum.length;
+    const total = bandEnergy(spectrum, 0, binCount - 1);
+
+    const normalized = new Float32Array(binCount);
+    const magnitudeSum = spectrum.reduce((acc, value) => acc + value, 0);
+    if (magnitudeSum > epsilon) {
+      for (let index = 0; index < binCount; index += 1) {
+        normalized[index] = spectrum[index] / magnitudeSum;
+      }
+    }
+    let flux = 0;
+    if (previousSpectrum && previousSpectrum.length === binCount) {
+      for (let index = 0; index < binCount; index += 1) {
+        flux += Math.max(0, normalized[index] - previousSpectrum[index]);
+      }
+    }
+    previousSpectrum = normalized;
+
+    const speechEnergy = bandEnergy(
+      spectrum,
+      binIndex(300, sampleRate, binCount),
+      binIndex(3000, sampleRate, binCount)
+    );
+    const lowEnergy = bandEnergy(
+      spectrum,
+      binIndex(30, sampleRate, binCount),
+      binIndex(150, sampleRate, binCount)
+    );
+
+    return {
+      time: frame.time,
+      flux,
+      zcr: zeroCrossingRate(frame.samples),
+      flatness: spectralFlatness(
+        spectrum,
+        binIndex(100, sampleRate, binCount),
+        binIndex(5000, sampleRate, binCount)
+      ),
+      speechEnergy: Math.sqrt(speechEnergy),
+      lowRatio: total > epsilon ? lowEnergy / total : 0
+    };
+  };
+
+  const push = (frame: AnalysisFrame): SpeechClassification => {
+    const latest = history[history.length - 1];
+    if (latest && frame.time < latest.time) {
+      reset();
+    }
+    history.push(measureFrame(frame));
+    history = history.filter((item) => item.time >= frame.time - windowSeconds);
+
+    if (history.length < minFrames) {
+      return { confidence: 0, features: emptyFeatures, ready: false };
+    }
+
+    const times = history.map((item) => item.time);
+    const fluxes = history.slice(1).map((item) => item.flux);
+    const fluxVariation = standardDeviation(fluxes) / (mean(fluxes) + epsilon);
+
+    const zcrs = history.map((item) => item.zcr);
+    const zcrMean = mean(zcrs);
+    const highZcrShare = zcrs.filter((value) => value > zcrMean * 1.5).length / zcrs.length;
+
+    const lowRatios = history.map((item) => item.lowRatio);
+    const lowShare = scale(mean(lowRatios), 0.05, 0.3);
+
+    const syllabicModulation = scale(
+      modulationRatio(
+        times,
+        history.map((item) => item.speechEnergy),
+        syllabicFrequencies
+      ),
+      0.1,
+      0.5
+    );
+
+    const features: SpeechFeatures = {
+      spectralFlux: scale(fluxVariation, 0.4, 1.2),
+      zeroCrossingRate: scale(highZcrShare, 0.05, 0.3),
+      syllabicModulation,
+      spectralFlatness: scale(
+        standardDeviation(history.map((item) => item.flatness)),
+        0.02,
+        0.12
+      ),
+      lowFrequencyRhythm: lowShare * clamp01(beatPeriodicity(times, lowRatios)),
+      // Talk on top of a bed: syllable-rate modulation while the low end is busy.
+      voiceOverBed: syllabicModulation * lowShare
+    };
+
+    const score = (Object.keys(features) as (keyof SpeechFeatures)[]).reduce(
+      (acc, key) => acc + features[key] * featureWeights[key],
+      bias
+    );
+
+    return { confidence: sigmoid(score), features, ready: true };
+  };
+
+  return { push, reset };
+}
+
+export type AnalyserFrameReader = (time: number) => AnalysisFrame;
+
+/** Reads linear spectrum and waveform buffers from an analyser into reusable arrays. */
+export function createAnalyserFrameReader(
+  analyser: Pick<
+    AnalyserNode,
+    'frequencyBinCount' | 'fftSize' | 'getFloatFrequencyData' | 'getFloatTimeDomainData'
+  >,
+  sampleRate: number
+): AnalyserFrameReader {
+  const decibels = new Float32Array(analyser.frequencyBinCount);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return (time: number) => {
+    analyser.getFloatFrequencyData(decibels);
+    analyser.getFloatTimeDomainData(samples);
+    const spectrum = new Float32Array(decibels.length);
+    for (let index = 0; index < decibels.length; index += 1) {
+      const value = decibels[index];
+      spectrum[index] = Number.isFinite(value) ? 10 ** (value / 20) : 0;
+    }
+    return { time, sampleRate, spectrum, samples };
+  };
+}
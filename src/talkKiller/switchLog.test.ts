@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addTalkSeconds,
+  emptyTalkKillerLog,
+  localDay,
+  sensitivityAfterMusicFeedback,
+  summarizeLog,
+  type SwitchEvent,
+  type TalkKillerLog
+} from './switchLog';
+
+const day = 24 * 60 * 60 * 1000;
+
+/** Local wall-clock time, so the tests hold in any time zone. */
+const at = (date: number, hours: number, minutes = 0) =>
+  new Date(2026, 9, date, hours, minutes).getTime();
+
+const switchEvent = (overrides: Partial<SwitchEvent>): SwitchEvent => ({
+  id: `switch-${overrides.at}`,
+  at: at(19, 12),
+  fromKey: 'talk-fm',
+  fromName: 'Talk FM',
+  toKey: 'jazz-fm',
+  toName: 'Jazz FM',
+  score: 0.8,
+  speechSeconds: 12,
+  sensitivity: 0.6,
+  overridden: false,
+  feedback: null,
+  ...overrides
+});
+
+describe('localDay', () => {
+  it('buckets by the local calendar day', () => {
+    expect(localDay(at(19, 0, 0))).toBe('2026-10-19');
+    expect(localDay(at(19, 23, 59))).toBe('2026-10-19');
+    expect(localDay(at(20, 0, 1))).toBe('2026-10-20');
+  });
+});
+
+describe('addTalkSeconds', () => {
+  it('adds up talk per local day and station', () => {
+    let log = emptyTalkKillerLog;
+    log = addTalkSeconds(log, { key: 'talk-fm', name: 'Talk FM', seconds: 30, at: at(19, 23, 50) });
+    log = addTalkSeconds(log, { key: 'talk-fm', name: 'Talk FM', seconds: 15, at: at(19, 8) });
+    log = addTalkSeconds(log, { key: 'talk-fm', name: 'Talk FM', seconds: 20, at: at(20, 0, 10) });
+    log = addTalkSeconds(log, { key: 'news', name: 'News', seconds: 5, at: at(20, 9) });
+    expect(log.talk).toEqual({
+      '2026-10-19': { 'talk-fm': { name: 'Talk FM', seconds: 45 } },
+      '2026-10-20': {
+        'talk-fm': { name: 'Talk FM', seconds: 20 },
+        news: { name: 'News', seconds: 5 }
+      }
+    });
+  });
+
+  it('ignores empty keys and non-positive durations', () => {
+    const log = emptyTalkKillerLog;
+    expect(addTalkSeconds(log, { key: '', name: 'x', seconds: 5, at: at(19, 8) })).toBe(log);
+    expect(addTalkSeconds(log, { key: 'a', name: 'A', seconds: 0, at: at(19, 8) })).toBe(log);
+  });
+
+  it('keeps only the last 60 days', () => {
+    let log = emptyTalkKillerLog;
+    const start = at(1, 12);
+    for (let index = 0; index < 62; index += 1) {
+      log = addTalkSeconds(log, { key: 'a', name: 'A', seconds: 1, at: start + index * day });
+    }
+    const days = Object.keys(log.talk).sort();
+    expect(days).toHaveLength(60);
+    expect(days[0]).toBe(localDay(start + 2 * day));
+    expect(days[59]).toBe(localDay(start + 61 * day));
+  });
+});
+
+describe('summarizeLog', () => {
+  const log: TalkKillerLog = {
+    events: [
+      switchEvent({ at: at(19, 9), feedback: 'music' }),
+      switchEvent({ at: at(19, 10), overridden: true }),
+      switchEvent({ at: at(19, 11) }),
+      switchEvent({ at: at(19, 12), feedback: 'music' }),
+      switchEvent({ at: at(18, 23, 59), fromKey: 'news', fromName: 'News' })
+    ],
+    talk: {
+      '2026-10-18': { news: { name: 'News', seconds: 600 } },
+      '2026-10-19': {
+        'talk-fm': { name: 'Talk FM', seconds: 90 },
+        quiet: { name: 'Quiet', seconds: 30 }
+      }
+    }
+  };
+
+  it('counts switches, overrides and false positives over the given days', () => {
+    expect(summarizeLog(log, ['2026-10-19'])).toEqual([
+      {
+        key: 'talk-fm',
+        name: 'Talk FM',
+        switches: 4,
+        overridden: 1,
+        falsePositives: 2,
+        falsePositiveRate: 0.5,
+        talkMinutes: 1.5
+      },
+      {
+        key: 'quiet',
+        name: 'Quiet',
+        switches: 0,
+        overridden: 0,
+        falsePositives: 0,
+        falsePositiveRate: null,
+        talkMinutes: 0.5
+      }
+    ]);
+  });
+
+  it('leaves out events and talk from other days', () => {
+    const rows = summarizeLog(log, ['2026-10-18']);
+    expect(rows.map((row) => [row.key, row.switches, row.talkMinutes])).toEqual([['news', 1, 10]]);
+  });
+});
+
+describe('sensitivityAfterMusicFeedback', () => {
+  it('raises the sensitivity a step, up to a ceiling', () => {
+    expect(sensitivityAfterMusicFeedback(0.6)).toBe(0.63);
+    expect(sensitivityAfterMusicFeedback(0.94)).toBe(0.95);
+    expect(sensitivityAfterMusicFeedback(0.95)).toBe(0.95);
+  });
+});
@@ -0,0 +1,143 @@
+export type SwitchEvent = {
+  id: string;
+  at: number;
+  fromKey: string;
+  fromName: string;
+  toKey: string;
+  toName: string;
+  /** Detector confidence when the switch fired. */
+  score: number;
+  /** Continuous speech the detector had counted before switching. */
+  speechSeconds: number;
+  sensitivity: number;
+  /** The listener went back to `fromKey` by hand shortly after the switch. */
+  overridden: boolean;
+  /** Set by the "that was music" button; marks a false positive. */
+  feedback: 'music' | null;
+};
+
+export type TalkTally = Record<string, Record<string, { name: string; seconds: number }>>;
+
+export type TalkKillerLog = {
+  events: SwitchEvent[];
+  /** Local day (`YYYY-MM-DD`) → station key → seconds labelled as speech. */
+  talk: TalkTally;
+};
+
+export type StationLogSummary = {
+  key: string;
+  name: string;
+  switches: number;
+  overridden: number;
+  falsePositives: number;
+  /** Share of switches marked "that was music"; null without switches. */
+  falsePositiveRate: number | null;
+  talkMinutes: number;
+};
+
+export const emptyTalkKillerLog: TalkKillerLog = { events: [], talk: {} };
+
+/** Going back to the original station within this window counts as an override. */
+export const overrideWindowMs = 2 * 60 * 1000;
+
+const maxEvents = 500;
+const maxTallyDays = 60;
+const feedbackSensitivityStep = 0.03;
+const maxFeedbackSensitivity = 0.95;
+
+export const localDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(timestamp - offset).toISOString().slice(0, 10);
+};
+
+/** The last `count` local days, oldest first. */
+export const recentDays = (now: number, count: number) =>
+  Array.from({ length: count }, (_, index) =>
+    localDay(now - (count - 1 - index) * 24 * 60 * 60 * 1000)
+  );
+
+export const createSwitchEventId = (at: number) =>
+  `switch-${at.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const appendSwitchEvent = (log: TalkKillerLog, event: SwitchEvent): TalkKillerLog => ({
+  ...log,
+  events: [...log.events, event].slice(-maxEvents)
+});
+
+export const updateSwitchEvent = (
+  log: TalkKillerLog,
+  id: string,
+  patch: Partial<SwitchEvent>
+): TalkKillerLog => ({
+  ...log,
+  events: log.events.map((event) => (event.id === id ? { ...event, ...patch } : event))
+});
+
+export const addTalkSeconds = (
+  log: TalkKillerLog,
+  { key, name, seconds, at }: { key: string; name: string; seconds: number; at: number }
+): TalkKillerLog => {
+  if (!key || seconds <= 0) {
+    return log;
+  }
+  const day = localDay(at);
+  const stations = log.talk[day] ?? {};
+  const current = stations[key]?.seconds ?? 0;
+  const talk = { ...log.talk, [day]: { ...stations, [key]: { name, seconds: current + seconds } } };
+  const days = Object.keys(talk).sort();
+  days.slice(0, Math.max(0, days.length - maxTallyDays)).forEach((old) => {
+    delete talk[old];
+  });
+  return { ...log, talk };
+};
+
+/** Per-station totals over `days` (local `YYYY-MM-DD` keys), most switches first. */
+export const summarizeLog = (log: TalkKillerLog, days: string[]): StationLogSummary[] => {
+  const daySet = new Set(days);
+  const rows = new Map<string, StationLogSummary>();
+  const row = (key: string, name: string) => {
+    let entry = rows.get(key);
+    if (!entry) {
+      entry = {
+        key,
+        name,
+        switches: 0,
+        overridden: 0,
+        falsePositives: 0,
+        falsePositiveRate: null,
+        talkMinutes: 0
+      };
+      rows.set(key, entry);
+    }
+    return entry;
+  };
+
+  log.events
+    .filter((event) => daySet.has(localDay(event.at)))
+    .forEach((event) => {
+      const entry = row(event.fromKey, event.fromName);
+      entry.switches += 1;
+      entry.overridden += event.overridden ? 1 : 0;
+      entry.falsePositives += event.feedback === 'music' ? 1 : 0;
+    });
+  days.forEach((day) => {
+    Object.entries(log.talk[day] ?? {}).forEach(([key, tally]) => {
+      row(key, tally.name).talkMinutes += tally.seconds / 60;
+    });
+  });
+
+  return Array.from(rows.values())
+    .map((entry) => ({
+      ...entry,
+      falsePositiveRate: entry.switches > 0 ? entry.falsePositives / entry.switches : null
+    }))
+    .sort((a, b) => b.switches - a.switches || b.talkMinutes - a.talkMinutes);
+};
+
+/** Sensitivity after a "that was music" report: a little harder to trigger next time. */
+export const sensitivityAfterMusicFeedback = (sensitivity: number) =>
+  Math.min(maxFeedbackSensitivity, Math.round((sensitivity + feedbackSensitivityStep) * 100) / 100);
+
+export const talkKillerLogToJson = (log: TalkKillerLog) =>
+  JSON.stringify({ version: 1, ...log }, null, 2);
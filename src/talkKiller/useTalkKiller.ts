@@ -0,0 +1,562 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import type { DeckPlayer } from '../audio/deckPlayer';
+import { resolveStreamUrls } from '../audio/playlistResolver';
+import {
+  fallbackToPlayable,
+  getStationKey,
+  type FallbackStation,
+  type PlayableStation
+} from '../stations';
+import { useLocalStorage } from '../useLocalStorage';
+import { proposeSensitivity } from './calibration';
+import type { DetectorEvent, SpeechLabel } from './detectorMessages';
+import { createDetectorNode, sendDetectorCommand } from './detectorNode';
+import {
+  selectFallback,
+  type StationObservation,
+  type StationObservations
+} from './fallbackSelector';
+import { startHomeMonitor, type HomeMonitor } from './homeMonitor';
+import {
+  defaultSettings,
+  migrateTalkKillerSettings,
+  resolveTalkKillerSettings,
+  type TalkKillerProfiles,
+  type TalkKillerSettings,
+  type TalkKillerTuning
+} from './settings';
+import type { SpeechFeatures } from './speechClassifier';
+import type { AutoSwitchMarker } from './SpeechVisualizer';
+import {
+  addTalkSeconds,
+  appendSwitchEvent,
+  createSwitchEventId,
+  emptyTalkKillerLog,
+  overrideWindowMs,
+  sensitivityAfterMusicFeedback,
+  updateSwitchEvent,
+  type SwitchEvent,
+  type TalkKillerLog
+} from './switchLog';
+
+type AutoSwitchTrigger = {
+  confidence: number;
+  speechSeconds: number;
+};
+
+const maxSwitchMarkers = 20;
+
+type TalkKillerOptions = {
+  station: PlayableStation | null;
+  /** `getStationKey` of `station`, or '' when nothing is tuned. */
+  stationKey: string;
+  isPlaying: boolean;
+  fallbacks: FallbackStation[];
+  /** Limits the fallbacks to these keys when not empty (the active schedule slot's list). */
+  fallbackKeys: string[];
+  tuneTo: (station: PlayableStation) => void;
+  /** Called when an auto-switch leaves the current station. */
+  onSwitchedAway: () => void;
+  /** The stream cannot be analysed, usually because of CORS. */
+  onAnalysisBlocked: () => void;
+};
+
+/**
+ * Talk Killer: runs the speech detector on the deck mix, switches to a
+ * fallback when talk goes on too long and, optionally, returns home once the
+ * original station plays music again. Settings, station profiles and the
+ * switch log are stored in `localStorage`.
+ */
+export function useTalkKiller(
+  playerRef: RefObject<DeckPlayer | null>,
+  {
+    station,
+    stationKey,
+    isPlaying,
+    fallbacks,
+    fallbackKeys,
+    tuneTo,
+    onSwitchedAway,
+    onAnalysisBlocked
+  }: TalkKillerOptions
+) {
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const detectorRef = useRef<AudioWorkletNode | null>(null);
+  const detectorSetupRef = useRef<Promise<AudioWorkletNode> | null>(null);
+  const triggerAutoSwitchRef = useRef<(trigger: AutoSwitchTrigger) => void>(() => undefined);
+  const speechLabelRef = useRef<(label: SpeechLabel) => void>(() => undefined);
+  const speechStartRef = useRef<{ key: string; name: string; at: number } | null>(null);
+  const pendingOverrideRef = useRef<{ id: string; fromKey: string; at: number } | null>(null);
+  const calibrationDoneRef = useRef<(histogram: number[]) => void>(() => undefined);
+  const returnHomeRef = useRef<() => void>(() => undefined);
+  const awayTargetUrlRef = useRef<string | null>(null);
+  const stationKeyRef = useRef('');
+  stationKeyRef.current = stationKey;
+  const recordObservationRef = useRef<(key: string, observation: StationObservation) => void>(
+    () => undefined
+  );
+
+  const [settings, setSettings] = useLocalStorage<TalkKillerSettings>(
+    'raven-radio:settings',
+    defaultSettings,
+    migrateTalkKillerSettings
+  );
+  const [profiles, setProfiles] = useLocalStorage<TalkKillerProfiles>(
+    'raven-radio:talk-killer-profiles',
+    {}
+  );
+  const [talkLog, setTalkLog] = useLocalStorage<TalkKillerLog>(
+    'raven-radio:talk-killer-log',
+    emptyTalkKillerLog
+  );
+  const [speechScore, setSpeechScore] = useState(0);
+  const [autoSwitches, setAutoSwitches] = useState<AutoSwitchMarker[]>([]);
+  const [speechLabel, setSpeechLabel] = useState('Music');
+  const [speechFeatures, setSpeechFeatures] = useState<SpeechFeatures | null>(null);
+  const [awayFrom, setAwayFrom] = useState<PlayableStation | null>(null);
+  const [homeMonitorError, setHomeMonitorError] = useState<string | null>(null);
+  const [observations, setObservations] = useState<StationObservations>({});
+  const [calibratingKey, setCalibratingKey] = useState<string | null>(null);
+  const [calibrationMinutes, setCalibrationMinutes] = useState(3);
+
+  const activeProfile = stationKey ? profiles[stationKey] : undefined;
+  const tuning = resolveTalkKillerSettings(settings, activeProfile);
+
+  const recordObservation = (key: string, observation: StationObservation) => {
+    if (!key) {
+      return;
+    }
+    setObservations((prev) => ({ ...prev, [key]: { ...prev[key], ...observation } }));
+  };
+
+  recordObservationRef.current = recordObservation;
+
+  /** The best fallback to leave the current station for, if any. */
+  const nextFallback = () => {
+    const candidates =
+      fallbackKeys.length > 0
+        ? fallbacks.filter((item) => fallbackKeys.includes(item.key))
+        : fallbacks;
+    return selectFallback(candidates, {
+      currentKey: stationKey,
+      currentTags: station?.tags,
+      matchTags: tuning.matchFallbackTags,
+      observations,
+      now: Date.now()
+    });
+  };
+
+  const triggerAutoSwitch = ({ confidence, speechSeconds }: AutoSwitchTrigger) => {
+    recordObservation(stationKey, { label: 'speech', labelAt: Date.now() });
+    const next = nextFallback();
+    if (!next) {
+      return;
+    }
+    console.log('[Talk Killer] Switching to fallback station:', next.name);
+    const at = Date.now();
+    const event: SwitchEvent = {
+      id: createSwitchEventId(at),
+      at,
+      fromKey: stationKey,
+      fromName: station?.name ?? stationKey,
+      toKey: getStationKey(fallbackToPlayable(next)),
+      toName: next.name,
+      score: confidence,
+      speechSeconds,
+      sensitivity: tuning.sensitivity,
+      overridden: false,
+      feedback: null
+    };
+    setTalkLog((prev) => appendSwitchEvent(prev, event));
+    pendingOverrideRef.current = { id: event.id, fromKey: stationKey, at };
+    setAutoSwitches((prev) => [
+      ...prev.slice(-(maxSwitchMarkers - 1)),
+      { at: Date.now(), to: next.name }
+    ]);
+    onSwitchedAway();
+    if (tuning.returnHome && station && !awayFrom) {
+      setAwayFrom(station);
+    }
+    const playable = fallbackToPlayable(next);
+    awayTargetUrlRef.current = playable.url;
+    tuneTo(playable);
+  };
+
+  triggerAutoSwitchRef.current = triggerAutoSwitch;
+
+  /** `manual` marks the pending switch as overridden by the listener. */
+  const returnHome = (manual = false) => {
+    if (!awayFrom) {
+      return;
+    }
+    if (!manual) {
+      pendingOverrideRef.current = null;
+    }
+    console.log('[Talk Killer] Music resumed, returning to:', awayFrom.name);
+    setAwayFrom(null);
+    tuneTo(awayFrom);
+  };
+
+  returnHomeRef.current = returnHome;
+
+  const stayHere = () => {
+    setAwayFrom(null);
+  };
+
+  useEffect(() => {
+    const pending = pendingOverrideRef.current;
+    const switchedTo = talkLog.events[talkLog.events.length - 1]?.toKey;
+    if (!pending || !stationKey || stationKey === switchedTo) {
+      return;
+    }
+    pendingOverrideRef.current = null;
+    if (stationKey === pending.fromKey && Date.now() - pending.at <= overrideWindowMs) {
+      setTalkLog((prev) => updateSwitchEvent(prev, pending.id, { overridden: true }));
+    }
+  }, [stationKey]);
+
+  const flushTalkSeconds = () => {
+    const start = speechStartRef.current;
+    if (!start) {
+      return;
+    }
+    speechStartRef.current = null;
+    const seconds = (Date.now() - start.at) / 1000;
+    setTalkLog((prev) => addTalkSeconds(prev, { ...start, seconds }));
+  };
+
+  speechLabelRef.current = (label) => {
+    if (label !== 'speech') {
+      flushTalkSeconds();
+    } else if (!speechStartRef.current && stationKey && station) {
+      speechStartRef.current = { key: stationKey, name: station.name, at: Date.now() };
+    }
+  };
+
+  useEffect(() => {
+    return () => flushTalkSeconds();
+  }, [stationKey, isPlaying]);
+
+  const reportMusicFeedback = (event: SwitchEvent) => {
+    setTalkLog((prev) => updateSwitchEvent(prev, event.id, { feedback: 'music' }));
+    const profile = profiles[event.fromKey];
+    const sensitivity = sensitivityAfterMusicFeedback(
+      resolveTalkKillerSettings(settings, profile).sensitivity
+    );
+    console.log('[Talk Killer] Marked as music:', event.fromName, 'sensitivity', sensitivity);
+    setProfiles((prev) => ({
+      ...prev,
+      [event.fromKey]: {
+        ...prev[event.fromKey],
+        name: prev[event.fromKey]?.name ?? event.fromName,
+        overrides: { ...prev[event.fromKey]?.overrides, sensitivity }
+      }
+    }));
+  };
+
+  const clearLog = () => {
+    setTalkLog(emptyTalkKillerLog);
+  };
+
+  const lastSwitch = talkLog.events[talkLog.events.length - 1];
+  /** The switch that brought us here, while "That was music" can still be reported. */
+  const recentSwitch =
+    lastSwitch &&
+    !lastSwitch.feedback &&
+    lastSwitch.toKey === stationKey &&
+    Date.now() - lastSwitch.at < overrideWindowMs
+      ? lastSwitch
+      : null;
+
+  useEffect(() => {
+    if (!settings.returnHome) {
+      setAwayFrom(null);
+    }
+  }, [settings.returnHome]);
+
+  useEffect(() => {
+    if (awayFrom && station?.url !== awayTargetUrlRef.current) {
+      setAwayFrom(null);
+    }
+  }, [station?.url]);
+
+  useEffect(() => {
+    const audioContext = playerRef.current?.graph?.audioContext;
+    setHomeMonitorError(null);
+    if (!awayFrom || !audioContext || !isPlaying) {
+      return;
+    }
+    const homeSettings = resolveTalkKillerSettings(settings, profiles[getStationKey(awayFrom)]);
+    let cancelled = false;
+    let monitor: HomeMonitor | null = null;
+    resolveStreamUrls([awayFrom.url]).then(([url]) => {
+      if (cancelled) {
+        return;
+      }
+      monitor = startHomeMonitor({
+        audioContext,
+        url,
+        sensitivity: homeSettings.sensitivity,
+        musicSeconds: homeSettings.returnAfterMusicSeconds,
+        onMusicResumed: () => returnHomeRef.current(),
+        onError: setHomeMonitorError
+      });
+    });
+    return () => {
+      cancelled = true;
+      monitor?.stop();
+    };
+  }, [awayFrom, isPlaying, settings.returnAfterMusicSeconds]);
+
+  /** Edits the station profile when there is one, the global settings otherwise. */
+  const updateTuning = (patch: Partial<TalkKillerTuning>) => {
+    if (!activeProfile) {
+      setSettings({ ...settings, ...patch });
+      return;
+    }
+    setProfiles((prev) => ({
+      ...prev,
+      [stationKey]: {
+        ...activeProfile,
+        overrides: { ...activeProfile.overrides, ...patch }
+      }
+    }));
+  };
+
+  const updateSettings = (patch: Partial<TalkKillerSettings>) => {
+    setSettings((prev) => ({ ...prev, ...patch }));
+  };
+
+  const customiseStationProfile = () => {
+    if (!station || !stationKey) {
+      return;
+    }
+    setProfiles((prev) => ({
+      ...prev,
+      [stationKey]: {
+        name: station.name,
+        overrides: {
+          speechSeconds: settings.speechSeconds,
+          sensitivity: settings.sensitivity,
+          cooldownSeconds: settings.cooldownSeconds
+        }
+      }
+    }));
+  };
+
+  const startCalibration = () => {
+    if (!stationKey || !detectorRef.current) {
+      return;
+    }
+    sendDetectorCommand(detectorRef.current, {
+      type: 'calibrate',
+      seconds: calibrationMinutes * 60
+    });
+    setCalibratingKey(stationKey);
+  };
+
+  const cancelCalibration = () => {
+    sendDetectorCommand(detectorRef.current, { type: 'calibrate', seconds: 0 });
+    setCalibratingKey(null);
+  };
+
+  const resetStationProfile = () => {
+    if (calibratingKey === stationKey) {
+      cancelCalibration();
+    }
+    setProfiles((prev) => {
+      const next = { ...prev };
+      delete next[stationKey];
+      return next;
+    });
+  };
+
+  calibrationDoneRef.current = (histogram: number[]) => {
+    const key = calibratingKey;
+    setCalibratingKey(null);
+    if (!key || key !== stationKey || !station) {
+      return;
+    }
+    const calibration = {
+      histogram,
+      proposedSensitivity: proposeSensitivity(histogram),
+      recordedAt: Date.now()
+    };
+    setProfiles((prev) => ({
+      ...prev,
+      [key]: prev[key]
+        ? { ...prev[key], calibration }
+        : { name: station.name, overrides: {}, calibration }
+    }));
+  };
+
+  const applyCalibration = () => {
+    if (activeProfile?.calibration) {
+      updateTuning({ sensitivity: activeProfile.calibration.proposedSensitivity });
+    }
+  };
+
+  /** Called when the player hands over to the other deck. */
+  const resetDetector = () => {
+    sendDetectorCommand(detectorRef.current, { type: 'reset' });
+  };
+
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!settings.enabled || !player || !isPlaying) {
+      return;
+    }
+    let cancelled = false;
+
+    const setupAudioGraph = () => {
+      const { audioContext } = player.ensureGraph();
+      if (!analyserRef.current) {
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 2048;
+        analyser.smoothingTimeConstant = 0;
+        analyserRef.current = analyser;
+        player.addAnalysisTarget(analyser);
+      }
+      if (!detectorSetupRef.current) {
+        detectorSetupRef.current = createDetectorNode(audioContext).then((node) => {
+          player.addAnalysisTarget(node);
+          detectorRef.current = node;
+          return node;
+        });
+      }
+      return detectorSetupRef.current;
+    };
+
+    const handleMessage = (event: MessageEvent<DetectorEvent>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'state':
+          setSpeechLabel(message.label === 'speech' ? 'Speech-ish' : 'Music');
+          speechLabelRef.current(message.label);
+          setSpeechScore(message.confidence);
+          recordObservationRef.current(stationKeyRef.current, {
+            label: message.label,
+            labelAt: Date.now()
+          });
+          break;
+        case 'metrics':
+          setSpeechScore(message.confidence);
+          setSpeechFeatures(message.features);
+          break;
+        case 'trigger':
+          triggerAutoSwitchRef.current(message);
+          break;
+        case 'calibration':
+          calibrationDoneRef.current(message.histogram);
+          break;
+      }
+    };
+
+    const reportVisibility = () => {
+      sendDetectorCommand(detectorRef.current, {
+        type: 'configure',
+        config: { reportMetrics: document.visibilityState === 'visible' }
+      });
+    };
+
+    let detectorSetup: Promise<AudioWorkletNode>;
+    try {
+      detectorSetup = setupAudioGraph();
+    } catch (err) {
+      console.warn('Talk Killer disabled: unable to analyze this stream.', err);
+      onAnalysisBlocked();
+      return;
+    }
+
+    detectorSetup
+      .then((node) => {
+        if (cancelled) {
+          return;
+        }
+        node.port.onmessage = handleMessage;
+        sendDetectorCommand(node, {
+          type: 'configure',
+          config: {
+            active: true,
+            sensitivity: tuning.sensitivity,
+            speechSeconds: tuning.speechSeconds,
+            cooldownSeconds: tuning.cooldownSeconds
+          }
+        });
+        reportVisibility();
+      })
+      .catch((err) => {
+        console.warn('Talk Killer disabled: unable to start the speech detector.', err);
+        detectorSetupRef.current = null;
+        if (!cancelled) {
+          onAnalysisBlocked();
+        }
+      });
+
+    player.graph?.audioContext.resume().catch(() => undefined);
+    document.addEventListener('visibilitychange', reportVisibility);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', reportVisibility);
+      const node = detectorRef.current;
+      if (node) {
+        node.port.onmessage = null;
+        sendDetectorCommand(node, { type: 'configure', config: { active: false } });
+      }
+    };
+  }, [settings.enabled, isPlaying]);
+
+  useEffect(() => {
+    sendDetectorCommand(detectorRef.current, {
+      type: 'configure',
+      config: {
+        sensitivity: tuning.sensitivity,
+        speechSeconds: tuning.speechSeconds,
+        cooldownSeconds: tuning.cooldownSeconds
+      }
+    });
+  }, [tuning.sensitivity, tuning.speechSeconds, tuning.cooldownSeconds]);
+
+  useEffect(() => {
+    sendDetectorCommand(detectorRef.current, { type: 'reset' });
+    setSpeechFeatures(null);
+    setCalibratingKey(null);
+  }, [station?.url]);
+
+  return {
+    settings,
+    setSettings,
+    updateSettings,
+    profiles,
+    setProfiles,
+    activeProfile,
+    tuning,
+    updateTuning,
+    customiseStationProfile,
+    resetStationProfile,
+    talkLog,
+    clearLog,
+    recentSwitch,
+    reportMusicFeedback,
+    analyserRef,
+    speechScore,
+    speechLabel,
+    speechFeatures,
+    autoSwitches,
+    resetDetector,
+    awayFrom,
+    returnHome,
+    stayHere,
+    homeMonitorError,
+    observations,
+    recordObservation,
+    nextFallback,
+    calibratingKey,
+    calibrationMinutes,
+    setCalibrationMinutes,
+    startCalibration,
+    cancelCalibration,
+    applyCalibration
+  };
+}
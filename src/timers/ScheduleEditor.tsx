@@ -0,0 +1,192 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { downloadText } from '../download';
+import type { StationChoice } from '../stations';
+import {
+  createScheduleSlot,
+  parseScheduleJson,
+  scheduleToJson,
+  weekdayLabels,
+  type Schedule,
+  type ScheduleSlot
+} from './schedule';
+import StationChoiceSelect from './StationChoiceSelect';
+
+type ScheduleEditorProps = {
+  schedule: Schedule;
+  activeSlotId: string | null;
+  stationChoices: StationChoice[];
+  fallbackChoices: { key: string; name: string }[];
+  onChange: (schedule: Schedule) => void;
+};
+
+function ScheduleEditor({
+  schedule,
+  activeSlotId,
+  stationChoices,
+  fallbackChoices,
+  onChange
+}: ScheduleEditorProps) {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const updateSlot = (id: string, patch: Partial<ScheduleSlot>) => {
+    onChange({
+      ...schedule,
+      slots: schedule.slots.map((slot) => (slot.id === id ? { ...slot, ...patch } : slot))
+    });
+  };
+
+  const toggleDay = (slot: ScheduleSlot, day: number) => {
+    const days = slot.days.includes(day)
+      ? slot.days.filter((item) => item !== day)
+      : [...slot.days, day].sort((a, b) => a - b);
+    updateSlot(slot.id, { days });
+  };
+
+  const toggleSlotFallback = (slot: ScheduleSlot, key: string) => {
+    const fallbackKeys = slot.fallbackKeys.includes(key)
+      ? slot.fallbackKeys.filter((item) => item !== key)
+      : [...slot.fallbackKeys, key];
+    updateSlot(slot.id, { fallbackKeys });
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      onChange(parseScheduleJson(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Unable to import the schedule.');
+    }
+  };
+
+  return (
+    <details className="schedule-editor">
+      <summary>Programme schedule</summary>
+      <div className="schedule-toolbar">
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={schedule.enabled}
+            onChange={(event) => onChange({ ...schedule, enabled: event.target.checked })}
+          />
+          Switch stations on schedule
+        </label>
+        <button
+          type="button"
+          className="ghost"
+          onClick={() => onChange({ ...schedule, slots: [...schedule.slots, createScheduleSlot()] })}
+        >
+          Add slot
+        </button>
+        <button
+          type="button"
+          className="ghost"
+          disabled={schedule.slots.length === 0}
+          onClick={() =>
+            downloadText('raven-radio-schedule.json', scheduleToJson(schedule), 'application/json')
+          }
+        >
+          Export
+        </button>
+        <button type="button" className="ghost" onClick={() => fileInputRef.current?.click()}>
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={handleImport}
+        />
+      </div>
+      {importError && <div className="error">{importError}</div>}
+      <p className="hint">
+        Earlier slots win when windows overlap. An end time before the start runs past midnight.
+      </p>
+      <ul>
+        {schedule.slots.length === 0 && <li className="empty">No slots yet.</li>}
+        {schedule.slots.map((slot) => (
+          <li
+            key={slot.id}
+            className={`schedule-slot ${slot.id === activeSlotId ? 'active' : ''}`}
+          >
+            <div className="slot-row">
+              <input
+                type="time"
+                value={slot.start}
+                onChange={(event) => updateSlot(slot.id, { start: event.target.value })}
+              />
+              <span>to</span>
+              <input
+                type="time"
+                value={slot.end}
+                onChange={(event) => updateSlot(slot.id, { end: event.target.value })}
+              />
+              <StationChoiceSelect
+                value={slot.stationKey}
+                valueName={slot.stationName}
+                choices={stationChoices}
+                onChange={(choice) =>
+                  updateSlot(slot.id, {
+                    stationKey: choice?.key ?? '',
+                    stationName: choice?.name ?? ''
+                  })
+                }
+              />
+              <button
+                type="button"
+                className="ghost"
+                onClick={() =>
+                  onChange({
+                    ...schedule,
+                    slots: schedule.slots.filter((item) => item.id !== slot.id)
+                  })
+                }
+              >
+                Remove
+              </button>
+            </div>
+            <div className="slot-row days">
+              {weekdayLabels.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  className={`pill ${slot.days.includes(day) ? 'active' : ''}`}
+                  aria-pressed={slot.days.includes(day)}
+                  onClick={() => toggleDay(slot, day)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {fallbackChoices.length > 0 && (
+              <div className="slot-row fallbacks">
+                <span className="subtle">
+                  Talk Killer fallbacks{slot.fallbackKeys.length === 0 ? ' (all)' : ''}:
+                </span>
+                {fallbackChoices.map((choice) => (
+                  <button
+                    key={choice.key}
+                    type="button"
+                    className={`pill ${slot.fallbackKeys.includes(choice.key) ? 'active' : ''}`}
+                    aria-pressed={slot.fallbackKeys.includes(choice.key)}
+                    onClick={() => toggleSlotFallback(slot, choice.key)}
+                  >
+                    {choice.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+export default ScheduleEditor;
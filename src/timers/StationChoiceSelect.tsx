@@ -0,0 +1,39 @@
+import type { StationChoice } from '../stations';
+
+type StationChoiceSelectProps = {
+  value: string;
+  /** Shown when `value` is no longer among the choices. */
+  valueName: string;
+  choices: StationChoice[];
+  onChange: (choice: StationChoice | null) => void;
+};
+
+function StationChoiceSelect({ value, valueName, choices, onChange }: StationChoiceSelectProps) {
+  const groups = Array.from(new Set(choices.map((choice) => choice.group)));
+  return (
+    <select
+      value={value}
+      onChange={(event) =>
+        onChange(choices.find((choice) => choice.key === event.target.value) ?? null)
+      }
+    >
+      <option value="">Choose a station</option>
+      {value && !choices.some((choice) => choice.key === value) && (
+        <option value={value}>{valueName} (removed)</option>
+      )}
+      {groups.map((group) => (
+        <optgroup key={group} label={group}>
+          {choices
+            .filter((choice) => choice.group === group)
+            .map((choice) => (
+              <option key={choice.key} value={choice.key}>
+                {choice.name}
+              </option>
+            ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
+
+export default StationChoiceSelect;
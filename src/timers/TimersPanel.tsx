@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import type { StationChoice } from '../stations';
+import StationChoiceSelect from './StationChoiceSelect';
+import { formatCountdown, type AlarmSettings, type SleepTimer } from './timers';
+
+type TimersPanelProps = {
+  now: number;
+  sleepTimer: SleepTimer | null;
+  onStartSleep: (minutes: number, fadeSeconds: number) => void;
+  onCancelSleep: () => void;
+  alarm: AlarmSettings;
+  nextAlarmAt: number | null;
+  stationOptions: StationChoice[];
+  onAlarmChange: (patch: Partial<AlarmSettings>) => void;
+};
+
+const sleepPresets = [15, 30, 45, 60, 90];
+
+function TimersPanel({
+  now,
+  sleepTimer,
+  onStartSleep,
+  onCancelSleep,
+  alarm,
+  nextAlarmAt,
+  stationOptions,
+  onAlarmChange
+}: TimersPanelProps) {
+  const [sleepMinutes, setSleepMinutes] = useState(30);
+  const [fadeSeconds, setFadeSeconds] = useState(60);
+
+  const canArm = Boolean(alarm.stationKey);
+
+  return (
+    <div className="timers">
+      <div className="timer-row">
+        <h3>Sleep timer</h3>
+        {sleepTimer ? (
+          <>
+            <span className="countdown">
+              Pausing in {formatCountdown(sleepTimer.endsAt - now)}
+              {sleepTimer.endsAt - now <= sleepTimer.fadeSeconds * 1000 ? ' (fading out)' : ''}
+            </span>
+            <button type="button" className="ghost" onClick={onCancelSleep}>
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <select
+              value={sleepMinutes}
+              onChange={(event) => setSleepMinutes(Number(event.target.value))}
+            >
+              {sleepPresets.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} min
+                </option>
+              ))}
+            </select>
+            <label>
+              Fade (s)
+              <input
+                type="number"
+                min={0}
+                max={600}
+                step={10}
+                value={fadeSeconds}
+                onChange={(event) => setFadeSeconds(Number(event.target.value))}
+              />
+            </label>
+            <button
+              type="button"
+              className="ghost"
+              onClick={() => onStartSleep(sleepMinutes, fadeSeconds)}
+            >
+              Start
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="timer-row">
+        <h3>Alarm</h3>
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={alarm.enabled}
+            disabled={!canArm}
+            onChange={(event) => onAlarmChange({ enabled: event.target.checked })}
+          />
+          On
+        </label>
+        <input
+          type="time"
+          value={alarm.time}
+          onChange={(event) => onAlarmChange({ time: event.target.value })}
+        />
+        <StationChoiceSelect
+          value={alarm.stationKey}
+          valueName={alarm.stationName}
+          choices={stationOptions}
+          onChange={(choice) =>
+            onAlarmChange({ stationKey: choice?.key ?? '', stationName: choice?.name ?? '' })
+          }
+        />
+        <label>
+          Ramp (s)
+          <input
+            type="number"
+            min={0}
+            max={600}
+            step={10}
+            value={alarm.rampSeconds}
+            onChange={(event) => onAlarmChange({ rampSeconds: Number(event.target.value) })}
+          />
+        </label>
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={alarm.repeatDaily}
+            onChange={(event) => onAlarmChange({ repeatDaily: event.target.checked })}
+          />
+          Daily
+        </label>
+        {alarm.enabled && nextAlarmAt && (
+          <span className="countdown">
+            {alarm.stationName} in {formatCountdown(nextAlarmAt - now)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TimersPanel;
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  defaultSchedule,
+  findActiveSlot,
+  parseScheduleJson,
+  scheduleToJson,
+  type Schedule,
+  type ScheduleSlot
+} from './schedule';
+
+/** Local wall-clock time in October 2026: the 19th is a Monday, the 24th a Saturday. */
+const at = (date: number, hours: number, minutes = 0) =>
+  new Date(2026, 9, date, hours, minutes).getTime();
+
+const slot = (overrides: Partial<ScheduleSlot>): ScheduleSlot => ({
+  id: 'slot',
+  days: [1, 2, 3, 4, 5],
+  start: '08:00',
+  end: '09:00',
+  stationKey: 'news',
+  stationName: 'News',
+  fallbackKeys: [],
+  ...overrides
+});
+
+const schedule = (...slots: ScheduleSlot[]): Schedule => ({ enabled: true, slots });
+
+describe('findActiveSlot', () => {
+  it('covers start up to but not including end on the listed days', () => {
+    const morning = schedule(slot({}));
+    expect(findActiveSlot(morning, at(19, 7, 59))).toBeNull();
+    expect(findActiveSlot(morning, at(19, 8))?.stationKey).toBe('news');
+    expect(findActiveSlot(morning, at(19, 8, 59))?.stationKey).toBe('news');
+    expect(findActiveSlot(morning, at(19, 9))).toBeNull();
+    expect(findActiveSlot(morning, at(24, 8, 30))).toBeNull();
+  });
+
+  it('runs an overnight slot past midnight into the next day', () => {
+    // Friday and Saturday nights, 22:00 to 02:00.
+    const night = schedule(slot({ days: [5, 6], start: '22:00', end: '02:00' }));
+    expect(findActiveSlot(night, at(23, 21, 59))).toBeNull();
+    expect(findActiveSlot(night, at(23, 22))).not.toBeNull();
+    expect(findActiveSlot(night, at(24, 1, 59))).not.toBeNull();
+    expect(findActiveSlot(night, at(24, 2))).toBeNull();
+    // Saturday night carries on into Sunday morning ...
+    expect(findActiveSlot(night, at(25, 1))).not.toBeNull();
+    // ... but Thursday night was never scheduled.
+    expect(findActiveSlot(night, at(23, 1))).toBeNull();
+  });
+
+  it('treats an end equal to the start as a full day', () => {
+    const allDay = schedule(slot({ days: [1], start: '06:00', end: '06:00' }));
+    expect(findActiveSlot(allDay, at(19, 6))).not.toBeNull();
+    expect(findActiveSlot(allDay, at(20, 5, 59))).not.toBeNull();
+    expect(findActiveSlot(allDay, at(20, 6))).toBeNull();
+  });
+
+  it('lets the earlier slot win an overlap', () => {
+    const overlapping = schedule(
+      slot({ id: 'news', start: '08:00', end: '10:00' }),
+      slot({ id: 'jazz', start: '09:00', end: '11:00', stationKey: 'jazz' })
+    );
+    expect(findActiveSlot(overlapping, at(19, 9, 30))?.id).toBe('news');
+    expect(findActiveSlot(overlapping, at(19, 10, 30))?.id).toBe('jazz');
+  });
+
+  it('skips slots without a station and disabled schedules', () => {
+    expect(findActiveSlot(schedule(slot({ stationKey: '' })), at(19, 8, 30))).toBeNull();
+    expect(findActiveSlot({ ...defaultSchedule, slots: [slot({})] }, at(19, 8, 30))).toBeNull();
+  });
+});
+
+describe('parseScheduleJson', () => {
+  it('reads back an exported schedule', () => {
+    const exported = schedule(
+      slot({ id: 'a', fallbackKeys: ['jazz'] }),
+      slot({ id: 'b', days: [0, 6], start: '23:00', end: '01:00' })
+    );
+    expect(parseScheduleJson(scheduleToJson(exported))).toEqual(exported);
+  });
+
+  it('fills in what older or hand-written files leave out', () => {
+    const parsed = parseScheduleJson(
+      JSON.stringify({
+        slots: [{ days: [3, 1, 3], start: '08:00', end: '09:00', stationKey: 'news' }]
+      })
+    );
+    expect(parsed.enabled).toBe(false);
+    expect(parsed.slots[0]).toMatchObject({
+      days: [1, 3],
+      stationKey: 'news',
+      stationName: 'news',
+      fallbackKeys: []
+    });
+    expect(parsed.slots[0].id).toMatch(/^slot-/);
+  });
+
+  it('names the first problem it finds', () => {
+    const parse = (slots: unknown) => () => parseScheduleJson(JSON.stringify({ slots }));
+    const valid = { days: [1], start: '08:00', end: '09:00', stationKey: 'news' };
+    expect(() => parseScheduleJson('{')).toThrow('The file is not valid JSON.');
+    expect(() => parseScheduleJson('[]')).toThrow('Expected an object with a "slots" array.');
+    expect(parse([valid, null])).toThrow('Slot 2 is not an object.');
+    expect(parse([{ ...valid, start: '24:00' }])).toThrow('Slot 1 has an invalid start time.');
+    expect(parse([{ ...valid, end: '9:00' }])).toThrow('Slot 1 has an invalid end time.');
+    expect(parse([{ ...valid, days: [7] }])).toThrow('Slot 1 has invalid days (expected 0-6).');
+    expect(parse([{ ...valid, stationKey: 3 }])).toThrow('Slot 1 has no station.');
+  });
+});
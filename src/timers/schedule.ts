@@ -0,0 +1,122 @@
+export type ScheduleSlot = {
+  id: string;
+  /** 0 = Sunday … 6 = Saturday, the day the window starts on. */
+  days: number[];
+  /** `HH:MM`; an `end` at or before `start` runs past midnight. */
+  start: string;
+  end: string;
+  /** `StationChoice` key: a local station id or favourite key. */
+  stationKey: string;
+  stationName: string;
+  /** Fallback keys Talk Killer may use during this slot; empty means all. */
+  fallbackKeys: string[];
+};
+
+export type Schedule = {
+  enabled: boolean;
+  slots: ScheduleSlot[];
+};
+
+export const defaultSchedule: Schedule = {
+  enabled: false,
+  slots: []
+};
+
+export const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const createScheduleSlot = (): ScheduleSlot => ({
+  id: `slot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  days: [1, 2, 3, 4, 5],
+  start: '08:00',
+  end: '09:00',
+  stationKey: '',
+  stationName: '',
+  fallbackKeys: []
+});
+
+const slotContains = (slot: ScheduleSlot, date: Date) => {
+  const start = toMinutes(slot.start);
+  const end = toMinutes(slot.end);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+  if (end > start) {
+    return slot.days.includes(day) && minute >= start && minute < end;
+  }
+  // Overnight: the evening part belongs to today, the morning part to yesterday.
+  const yesterday = (day + 6) % 7;
+  return (
+    (slot.days.includes(day) && minute >= start) ||
+    (slot.days.includes(yesterday) && minute < end)
+  );
+};
+
+/** The first slot (in list order) covering `now`, so earlier slots win overlaps. */
+export const findActiveSlot = (schedule: Schedule, now: number) => {
+  if (!schedule.enabled) {
+    return null;
+  }
+  const date = new Date(now);
+  return (
+    schedule.slots.find((slot) => slot.stationKey && slotContains(slot, date)) ?? null
+  );
+};
+
+export const scheduleToJson = (schedule: Schedule) => {
+  return JSON.stringify({ version: 1, ...schedule }, null, 2);
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/** Validates an exported schedule; throws an Error describing the first problem. */
+export const parseScheduleJson = (text: string): Schedule => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray((data as Schedule).slots)) {
+    throw new Error('Expected an object with a "slots" array.');
+  }
+  const record = data as Record<string, unknown>;
+  const slots = (record.slots as unknown[]).map((item, index) => {
+    const slot = item as Record<string, unknown>;
+    const label = `Slot ${index + 1}`;
+    if (!slot || typeof slot !== 'object') {
+      throw new Error(`${label} is not an object.`);
+    }
+    if (typeof slot.start !== 'string' || !timePattern.test(slot.start)) {
+      throw new Error(`${label} has an invalid start time.`);
+    }
+    if (typeof slot.end !== 'string' || !timePattern.test(slot.end)) {
+      throw new Error(`${label} has an invalid end time.`);
+    }
+    if (
+      !Array.isArray(slot.days) ||
+      !slot.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+    ) {
+      throw new Error(`${label} has invalid days (expected 0-6).`);
+    }
+    if (typeof slot.stationKey !== 'string') {
+      throw new Error(`${label} has no station.`);
+    }
+    return {
+      id: typeof slot.id === 'string' && slot.id ? slot.id : createScheduleSlot().id,
+      days: Array.from(new Set(slot.days as number[])).sort((a, b) => a - b),
+      start: slot.start,
+      end: slot.end,
+      stationKey: slot.stationKey,
+      stationName: typeof slot.stationName === 'string' ? slot.stationName : slot.stationKey,
+      fallbackKeys: isStringArray(slot.fallbackKeys) ? slot.fallbackKeys : []
+    };
+  });
+  return { enabled: record.enabled === true, slots };
+};
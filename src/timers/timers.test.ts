@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { alarmVolumeFactor, formatCountdown, nextAlarmTime, sleepVolumeFactor } from './timers';
+
+/** Local wall-clock time in October 2026. */
+const at = (date: number, hours: number, minutes = 0, seconds = 0) =>
+  new Date(2026, 9, date, hours, minutes, seconds).getTime();
+
+describe('nextAlarmTime', () => {
+  it('fires later today when the time has not passed yet', () => {
+    expect(nextAlarmTime('07:30', at(19, 6))).toBe(at(19, 7, 30));
+  });
+
+  it('rolls over to tomorrow once the time has passed', () => {
+    expect(nextAlarmTime('07:30', at(19, 7, 30))).toBe(at(20, 7, 30));
+    expect(nextAlarmTime('07:30', at(19, 23))).toBe(at(20, 7, 30));
+    expect(nextAlarmTime('07:30', at(31, 8))).toBe(new Date(2026, 10, 1, 7, 30).getTime());
+  });
+
+  it('rejects a time it cannot read', () => {
+    expect(nextAlarmTime('soon', at(19, 6))).toBeNull();
+  });
+});
+
+describe('sleepVolumeFactor', () => {
+  const timer = { endsAt: at(19, 23), fadeSeconds: 60 };
+
+  it('stays at full volume until the fade starts', () => {
+    expect(sleepVolumeFactor(timer, at(19, 22, 58))).toBe(1);
+    expect(sleepVolumeFactor(timer, at(19, 22, 59))).toBe(1);
+  });
+
+  it('fades linearly to silence at the end', () => {
+    expect(sleepVolumeFactor(timer, at(19, 22, 59, 15))).toBe(0.75);
+    expect(sleepVolumeFactor(timer, at(19, 22, 59, 30))).toBe(0.5);
+    expect(sleepVolumeFactor(timer, at(19, 23))).toBe(0);
+    expect(sleepVolumeFactor(timer, at(19, 23, 1))).toBe(0);
+  });
+
+  it('does not fade without a timer or a fade window', () => {
+    expect(sleepVolumeFactor(null, at(19, 23))).toBe(1);
+    expect(sleepVolumeFactor({ ...timer, fadeSeconds: 0 }, at(19, 23))).toBe(1);
+  });
+});
+
+describe('alarmVolumeFactor', () => {
+  it('ramps up from silence over the ramp', () => {
+    const startedAt = at(19, 7, 30);
+    expect(alarmVolumeFactor(startedAt, 60, startedAt)).toBe(0);
+    expect(alarmVolumeFactor(startedAt, 60, at(19, 7, 30, 30))).toBe(0.5);
+    expect(alarmVolumeFactor(startedAt, 60, at(19, 7, 32))).toBe(1);
+    expect(alarmVolumeFactor(null, 60, startedAt)).toBe(1);
+  });
+});
+
+describe('formatCountdown', () => {
+  it('shows hours only when there are some', () => {
+    expect(formatCountdown(65 * 1000)).toBe('1:05');
+    expect(formatCountdown((3600 + 61) * 1000)).toBe('1:01:01');
+    expect(formatCountdown(-5)).toBe('0:00');
+  });
+});
@@ -0,0 +1,71 @@
+export type SleepTimer = {
+  /** Epoch milliseconds when playback pauses. */
+  endsAt: number;
+  /** The volume fades out over the last `fadeSeconds` before `endsAt`. */
+  fadeSeconds: number;
+};
+
+export type AlarmSettings = {
+  enabled: boolean;
+  /** Local wall-clock time, `HH:MM`. */
+  time: string;
+  /** Local station id or favourite key. */
+  stationKey: string;
+  stationName: string;
+  rampSeconds: number;
+  repeatDaily: boolean;
+  /** The alarm fires at the first `time` after this instant. */
+  armedAt: number;
+};
+
+export const defaultAlarmSettings: AlarmSettings = {
+  enabled: false,
+  time: '07:30',
+  stationKey: '',
+  stationName: '',
+  rampSeconds: 60,
+  repeatDaily: true,
+  armedAt: 0
+};
+
+/** An alarm missed by less than this (tab asleep, slow reload) still fires. */
+export const alarmGraceMs = 5 * 60 * 1000;
+
+export const nextAlarmTime = (time: string, after: number) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) {
+    return null;
+  }
+  const next = new Date(after);
+  next.setHours(hours, minutes, 0, 0);
+  if (next.getTime() <= after) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+};
+
+/** 1 until the fade window, then down to 0 at `endsAt`. */
+export const sleepVolumeFactor = (timer: SleepTimer | null, now: number) => {
+  if (!timer || timer.fadeSeconds <= 0) {
+    return 1;
+  }
+  const remaining = (timer.endsAt - now) / 1000;
+  return Math.min(1, Math.max(0, remaining / timer.fadeSeconds));
+};
+
+/** 0 when the alarm fires, rising to 1 after `rampSeconds`. */
+export const alarmVolumeFactor = (startedAt: number | null, rampSeconds: number, now: number) => {
+  if (startedAt === null || rampSeconds <= 0) {
+    return 1;
+  }
+  return Math.min(1, Math.max(0, (now - startedAt) / (rampSeconds * 1000)));
+};
+
+export const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { getStationKey, type PlayableStation } from '../stations';
+import { useLocalStorage } from '../useLocalStorage';
+import { defaultSchedule, findActiveSlot, type Schedule } from './schedule';
+import {
+  alarmGraceMs,
+  alarmVolumeFactor,
+  defaultAlarmSettings,
+  nextAlarmTime,
+  sleepVolumeFactor,
+  type AlarmSettings,
+  type SleepTimer
+} from './timers';
+
+const timerTickMs = 1000;
+const timerRampTickMs = 250;
+
+type TimersOptions = {
+  /** Looks up a `StationChoice` key among local stations and favourites. */
+  findStation: (key: string) => PlayableStation | null;
+  /** Key of the station that is tuned now. */
+  currentKey: string;
+  isPlaying: boolean;
+  tuneTo: (station: PlayableStation, autoPlay?: boolean) => void;
+  /** The sleep timer ran out. */
+  onSleep: () => void;
+  onError: (message: string) => void;
+};
+
+/**
+ * The sleep timer, the alarm and the programme schedule. A clock ticks while
+ * any of them is set; `volumeFactor` carries the sleep fade and alarm ramp.
+ */
+export function useTimers({
+  findStation,
+  currentKey,
+  isPlaying,
+  tuneTo,
+  onSleep,
+  onError
+}: TimersOptions) {
+  const [alarm, setAlarm] = useLocalStorage<AlarmSettings>(
+    'raven-radio:alarm',
+    defaultAlarmSettings
+  );
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+  const [schedule, setSchedule] = useLocalStorage<Schedule>(
+    'raven-radio:schedule',
+    defaultSchedule
+  );
+  const [alarmRampStartedAt, setAlarmRampStartedAt] = useState<number | null>(null);
+  const [clock, setClock] = useState(() => Date.now());
+
+  const nextAlarmAt = alarm.enabled ? nextAlarmTime(alarm.time, alarm.armedAt) : null;
+  const timersActive = Boolean(
+    sleepTimer ||
+      nextAlarmAt !== null ||
+      alarmRampStartedAt !== null ||
+      (schedule.enabled && schedule.slots.length > 0)
+  );
+  const activeSlot = findActiveSlot(schedule, clock);
+  const volumeRamping =
+    alarmRampStartedAt !== null ||
+    Boolean(sleepTimer && clock >= sleepTimer.endsAt - sleepTimer.fadeSeconds * 1000);
+  const volumeFactor =
+    sleepVolumeFactor(sleepTimer, clock) *
+    alarmVolumeFactor(alarmRampStartedAt, alarm.rampSeconds, clock);
+
+  useEffect(() => {
+    if (!timersActive) {
+      return;
+    }
+    setClock(Date.now());
+    const interval = window.setInterval(
+      () => setClock(Date.now()),
+      volumeRamping ? timerRampTickMs : timerTickMs
+    );
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [timersActive, volumeRamping]);
+
+  const fireAlarm = () => {
+    const target = findStation(alarm.stationKey);
+    if (!target) {
+      onError(`Alarm station "${alarm.stationName}" is no longer available.`);
+      return;
+    }
+    console.log('[Timers] Alarm firing, tuning to:', target.name);
+    setAlarmRampStartedAt(Date.now());
+    tuneTo(target);
+  };
+
+  useEffect(() => {
+    if (sleepTimer && clock >= sleepTimer.endsAt) {
+      console.log('[Timers] Sleep timer finished, pausing.');
+      setSleepTimer(null);
+      onSleep();
+    }
+    if (alarmRampStartedAt !== null && clock - alarmRampStartedAt >= alarm.rampSeconds * 1000) {
+      setAlarmRampStartedAt(null);
+    }
+    if (nextAlarmAt !== null && clock >= nextAlarmAt) {
+      if (clock - nextAlarmAt <= alarmGraceMs) {
+        fireAlarm();
+      }
+      setAlarm((prev) => ({ ...prev, enabled: prev.repeatDaily, armedAt: clock }));
+    }
+  }, [clock]);
+
+  useEffect(() => {
+    if (!activeSlot) {
+      return;
+    }
+    const target = findStation(activeSlot.stationKey);
+    if (!target) {
+      onError(`Scheduled station "${activeSlot.stationName}" is no longer available.`);
+      return;
+    }
+    if (getStationKey(target) !== currentKey) {
+      console.log('[Schedule] Slot started, switching to:', target.name);
+      tuneTo(target, isPlaying);
+    }
+  }, [activeSlot?.id, activeSlot?.stationKey]);
+
+  const startSleepTimer = (minutes: number, fadeSeconds: number) => {
+    setSleepTimer({
+      endsAt: Date.now() + minutes * 60 * 1000,
+      fadeSeconds: Math.min(fadeSeconds, minutes * 60)
+    });
+  };
+
+  const cancelSleepTimer = () => {
+    setSleepTimer(null);
+  };
+
+  const updateAlarm = (patch: Partial<AlarmSettings>) => {
+    setAlarm((prev) => ({ ...prev, ...patch, armedAt: Date.now() }));
+  };
+
+  return {
+    clock,
+    alarm,
+    setAlarm,
+    nextAlarmAt,
+    updateAlarm,
+    sleepTimer,
+    startSleepTimer,
+    cancelSleepTimer,
+    schedule,
+    setSchedule,
+    activeSlot,
+    volumeFactor
+  };
+}
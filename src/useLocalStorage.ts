@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+
+/** `migrate` upgrades whatever an older release stored under `key`. */
+export function useLocalStorage<T>(key: string, initialValue: T, migrate?: (stored: unknown) => T) {
+  const [value, setValue] = useState<T>(() => {
+    const stored = localStorage.getItem(key);
+    if (!stored) {
+      return initialValue;
+    }
+    try {
+      const parsed = JSON.parse(stored) as unknown;
+      return migrate ? migrate(parsed) : (parsed as T);
+    } catch {
+      return initialValue;
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(key, JSON.stringify(value));
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}